@@ -0,0 +1,44 @@
+/* AgriShield service worker: shows Web Push alerts and opens the related Dashboard card */
+
+self.addEventListener('install', () => {
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+    let data = {};
+    try {
+        data = event.data ? event.data.json() : {};
+    } catch {
+        data = { title: 'AgriShield Alert', body: event.data ? event.data.text() : '' };
+    }
+
+    const title = data.title || 'AgriShield Alert';
+    event.waitUntil(
+        self.registration.showNotification(title, {
+            body: data.body || '',
+            tag: data.tag, // same alert replaces rather than stacks
+            data: { url: data.url || '/dashboard' },
+            requireInteraction: data.severity === 'critical' || data.severity === 'high',
+        })
+    );
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            // Reuse an open tab if there is one
+            const existing = clients.find((client) => client.url.startsWith(self.location.origin));
+            if (existing) {
+                return existing.navigate(url).then((client) => client && client.focus());
+            }
+            return self.clients.openWindow(url);
+        })
+    );
+});
@@ -7,7 +7,7 @@ import { LocationProvider } from './contexts/LocationContext';
 import { Layout } from './components/layout/Layout';
 import { ScrollToTop } from './components/layout/ScrollToTop';
 import { LoadingOverlay } from './components/ui/Loading';
-import { Landing, Login, Signup, Dashboard, Chat, DiseaseDetection } from './pages';
+import { Landing, Login, Signup, Dashboard, Chat, DiseaseDetection, FloodBacktest, Alerts } from './pages';
 import { LanguageSelection } from './pages/LanguageSelection';
 
 // Create a client for react-query
@@ -122,6 +122,14 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="alerts"
+          element={
+            <ProtectedRoute>
+              <Alerts />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="disease-detection"
           element={
@@ -130,6 +138,14 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="flood-backtest"
+          element={
+            <ProtectedRoute>
+              <FloodBacktest />
+            </ProtectedRoute>
+          }
+        />
       </Route>
 
       {/* Catch all - redirect to home */}
@@ -15,6 +15,7 @@ interface Alert {
 interface AlertBannerProps {
     alerts: Alert[];
     onDismiss: (id: string) => void;
+    floodPreparedPercent?: number;
 }
 
 const severityConfig = {
@@ -51,7 +52,7 @@ const typeIcons = {
     general: AlertTriangle,
 };
 
-export function AlertBanner({ alerts, onDismiss }: AlertBannerProps) {
+export function AlertBanner({ alerts, onDismiss, floodPreparedPercent }: AlertBannerProps) {
     const { t } = useLanguage();
 
     if (alerts.length === 0) return null;
@@ -84,6 +85,19 @@ export function AlertBanner({ alerts, onDismiss }: AlertBannerProps) {
                                 <p className={cn('text-sm mt-1', config.text, 'opacity-80')}>
                                     {alert.message}
                                 </p>
+                                {alert.type === 'flood' && floodPreparedPercent !== undefined && (
+                                    <div className="mt-2 flex items-center gap-2">
+                                        <div className="h-1.5 w-24 bg-white/70 rounded-full overflow-hidden">
+                                            <div
+                                                className="h-full rounded-full bg-emerald-500"
+                                                style={{ width: `${floodPreparedPercent}%` }}
+                                            />
+                                        </div>
+                                        <span className={cn('text-xs font-semibold', config.text)}>
+                                            {floodPreparedPercent}% {t('dashboard.flood.prepared')}
+                                        </span>
+                                    </div>
+                                )}
                             </div>
 
                             <button
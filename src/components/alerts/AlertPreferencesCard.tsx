@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal, Moon, Check, Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Button } from '../ui/Button';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { cn } from '../../lib/utils';
+import type { AlertType } from '../../lib/alerts-engine';
+import type { AlertPreferences } from '../../lib/alert-preferences';
+
+interface AlertPreferencesCardProps {
+    preferences: AlertPreferences;
+    isSaving?: boolean;
+    onSave: (settings: AlertPreferences) => Promise<void>;
+}
+
+const ALERT_TYPES: AlertType[] = ['FLOOD', 'WEATHER', 'IRRIGATE', 'HARVEST', 'DISEASE', 'PRICE', 'GENERAL'];
+
+const SEVERITIES: AlertPreferences['minSeverity'][] = ['low', 'medium', 'high', 'critical'];
+
+export function AlertPreferencesCard({ preferences, isSaving, onSave }: AlertPreferencesCardProps) {
+    const { t } = useLanguage();
+    const [draft, setDraft] = useState<AlertPreferences>(preferences);
+    const [syncedPreferences, setSyncedPreferences] = useState(preferences);
+    const [saved, setSaved] = useState(false);
+
+    // Sync once the stored preferences load (adjusting state during render)
+    if (preferences !== syncedPreferences) {
+        setSyncedPreferences(preferences);
+        setDraft(preferences);
+    }
+
+    // Quiet hours need both ends, or neither
+    const quietError = !draft.quietHoursStart !== !draft.quietHoursEnd
+        ? t('alerts.preferences.quietIncomplete')
+        : undefined;
+
+    const update = (changes: Partial<AlertPreferences>) => {
+        setDraft((prev) => ({ ...prev, ...changes }));
+        setSaved(false);
+    };
+
+    const toggleType = (type: AlertType) => {
+        update({
+            mutedTypes: draft.mutedTypes.includes(type)
+                ? draft.mutedTypes.filter((muted) => muted !== type)
+                : [...draft.mutedTypes, type],
+        });
+    };
+
+    const handleSave = async () => {
+        try {
+            // Quiet hours are entered in the browser's local time
+            await onSave({ ...draft, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || draft.timeZone });
+            setSaved(true);
+        } catch {
+            // Error already logged by the hook
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+        >
+            <Card className="border-0 shadow-lg">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-violet-100 flex items-center justify-center shadow-md">
+                            <SlidersHorizontal className="w-5 h-5 text-violet-600" />
+                        </div>
+                        <div>
+                            <span className="text-slate-800">{t('alerts.preferences.title')}</span>
+                            <p className="text-xs font-normal text-slate-500">{t('alerts.preferences.subtitle')}</p>
+                        </div>
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div>
+                        <p className="block text-sm font-medium text-slate-700 mb-1.5">{t('alerts.preferences.types')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {ALERT_TYPES.map((type) => {
+                                const enabled = !draft.mutedTypes.includes(type);
+                                return (
+                                    <button
+                                        key={type}
+                                        type="button"
+                                        onClick={() => toggleType(type)}
+                                        aria-pressed={enabled}
+                                        className={cn(
+                                            'flex items-center gap-2 px-3 py-1.5 rounded-xl border text-sm font-medium transition-colors',
+                                            enabled
+                                                ? 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                                                : 'bg-white border-slate-200 text-slate-400 hover:bg-slate-50'
+                                        )}
+                                    >
+                                        {t(`alerts.preferences.typeLabels.${type}`)}
+                                        {enabled && <Check className="w-4 h-4" />}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <Select
+                        label={t('alerts.preferences.minSeverity')}
+                        value={draft.minSeverity}
+                        onChange={(e) => update({ minSeverity: e.target.value as AlertPreferences['minSeverity'] })}
+                        options={SEVERITIES.map((severity) => ({
+                            value: severity,
+                            label: t(`alerts.preferences.severities.${severity}`),
+                        }))}
+                    />
+
+                    <div>
+                        <p className="flex items-center gap-1.5 text-sm font-medium text-slate-700 mb-1.5">
+                            <Moon className="w-4 h-4 text-slate-400" />
+                            {t('alerts.preferences.quietHours')}
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <Input
+                                type="time"
+                                label={t('alerts.preferences.quietFrom')}
+                                value={draft.quietHoursStart || ''}
+                                onChange={(e) => update({ quietHoursStart: e.target.value || null })}
+                            />
+                            <Input
+                                type="time"
+                                label={t('alerts.preferences.quietTo')}
+                                value={draft.quietHoursEnd || ''}
+                                onChange={(e) => update({ quietHoursEnd: e.target.value || null })}
+                                error={quietError}
+                            />
+                        </div>
+                        <p className="text-xs text-slate-500 mt-2">{t('alerts.preferences.quietHint')}</p>
+                    </div>
+
+                    <p className="text-xs text-red-600 font-medium">{t('alerts.preferences.floodNote')}</p>
+
+                    <Button
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={isSaving || !!quietError}
+                    >
+                        {isSaving ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                        ) : (
+                            <Check className="w-4 h-4 mr-2" />
+                        )}
+                        {saved ? t('common.saved') : t('common.save')}
+                    </Button>
+                </CardContent>
+            </Card>
+        </motion.div>
+    );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Smartphone, MessageSquare, MessageCircle, Check, Loader2, ShieldCheck, Send } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { cn } from '../../lib/utils';
+import type { NotificationPreferences } from '../../lib/supabase';
+import type { ChannelSettings } from '../../hooks/useNotificationPreferences';
+
+interface NotificationChannelsCardProps {
+    preferences: NotificationPreferences | null;
+    isSaving?: boolean;
+    onSave: (settings: ChannelSettings) => Promise<void>;
+    isSendingCode?: boolean;
+    onSendCode: (phoneNumber: string) => Promise<void>;
+    isVerifying?: boolean;
+    onVerify: (verification: { phoneNumber: string; code: string }) => Promise<void>;
+}
+
+// Same E.164 check as the notification_preferences table
+const PHONE_PATTERN = /^\+[1-9][0-9]{7,14}$/;
+
+const EMPTY_SETTINGS: ChannelSettings = {
+    phone_number: null,
+    sms_enabled: false,
+    whatsapp_enabled: false,
+};
+
+function toSettings(preferences: NotificationPreferences | null): ChannelSettings {
+    if (!preferences) return EMPTY_SETTINGS;
+    return {
+        phone_number: preferences.phone_number,
+        sms_enabled: preferences.sms_enabled,
+        whatsapp_enabled: preferences.whatsapp_enabled,
+    };
+}
+
+export function NotificationChannelsCard({
+    preferences,
+    isSaving,
+    onSave,
+    isSendingCode,
+    onSendCode,
+    isVerifying,
+    onVerify,
+}: NotificationChannelsCardProps) {
+    const { t } = useLanguage();
+    const [draft, setDraft] = useState<ChannelSettings>(() => toSettings(preferences));
+    const [syncedPreferences, setSyncedPreferences] = useState(preferences);
+    const [saved, setSaved] = useState(false);
+    const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+    const [code, setCode] = useState('');
+    const [verifyError, setVerifyError] = useState<string | null>(null);
+
+    // Sync once the stored preferences load (adjusting state during render)
+    if (preferences !== syncedPreferences) {
+        setSyncedPreferences(preferences);
+        setDraft(toSettings(preferences));
+    }
+
+    const phone = draft.phone_number?.replace(/[\s-]/g, '') || '';
+    const wantsMessages = draft.sms_enabled || draft.whatsapp_enabled;
+    const phoneError = wantsMessages && !PHONE_PATTERN.test(phone) ? t('alerts.channels.invalidPhone') : undefined;
+
+    // SMS / WhatsApp stay off until this exact number is verified
+    const isVerified = !!preferences?.phone_verified_at && preferences.phone_number === phone;
+
+    const update = (changes: Partial<ChannelSettings>) => {
+        setDraft((prev) => ({ ...prev, ...changes }));
+        setSaved(false);
+    };
+
+    const handleSave = async () => {
+        try {
+            await onSave({
+                phone_number: phone || null,
+                sms_enabled: isVerified && draft.sms_enabled,
+                whatsapp_enabled: isVerified && draft.whatsapp_enabled,
+            });
+            setSaved(true);
+        } catch {
+            // Error already logged by the hook
+        }
+    };
+
+    const handleSendCode = async () => {
+        setVerifyError(null);
+        try {
+            await onSendCode(phone);
+            setCodeSentTo(phone);
+            setCode('');
+        } catch {
+            setVerifyError(t('alerts.channels.sendFailed'));
+        }
+    };
+
+    const handleVerify = async () => {
+        setVerifyError(null);
+        try {
+            await onVerify({ phoneNumber: phone, code: code.trim() });
+            setCodeSentTo(null);
+        } catch {
+            setVerifyError(t('alerts.channels.verifyFailed'));
+        }
+    };
+
+    const channels = [
+        { key: 'sms_enabled' as const, label: t('alerts.channels.sms'), icon: MessageSquare },
+        { key: 'whatsapp_enabled' as const, label: t('alerts.channels.whatsapp'), icon: MessageCircle },
+    ];
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+        >
+            <Card className="border-0 shadow-lg">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-sky-100 flex items-center justify-center shadow-md">
+                            <Smartphone className="w-5 h-5 text-sky-600" />
+                        </div>
+                        <div>
+                            <span className="text-slate-800">{t('alerts.channels.title')}</span>
+                            <p className="text-xs font-normal text-slate-500">{t('alerts.channels.subtitle')}</p>
+                        </div>
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <Input
+                        type="tel"
+                        label={t('alerts.channels.phone')}
+                        placeholder="+919876543210"
+                        value={draft.phone_number || ''}
+                        onChange={(e) => update({ phone_number: e.target.value })}
+                        error={phoneError}
+                    />
+                    {isVerified ? (
+                        <p className="flex items-center gap-1.5 text-xs font-medium text-emerald-600">
+                            <ShieldCheck className="w-4 h-4" />
+                            {t('alerts.channels.verified')}
+                        </p>
+                    ) : PHONE_PATTERN.test(phone) && (
+                        <div className="space-y-2 p-3 rounded-xl bg-sky-50 border border-sky-100">
+                            <p className="text-xs text-slate-600">{t('alerts.channels.verifyHint')}</p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {codeSentTo === phone && (
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        autoComplete="one-time-code"
+                                        maxLength={6}
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                                        placeholder={t('alerts.channels.code')}
+                                        aria-label={t('alerts.channels.code')}
+                                        className="w-32 px-3 py-1.5 rounded-lg border border-sky-200 text-sm font-semibold tracking-widest text-slate-700 outline-none focus:border-sky-500"
+                                    />
+                                )}
+                                {codeSentTo === phone && (
+                                    <Button size="sm" onClick={handleVerify} disabled={isVerifying || code.trim().length !== 6}>
+                                        {isVerifying ? (
+                                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                        ) : (
+                                            <ShieldCheck className="w-4 h-4 mr-2" />
+                                        )}
+                                        {t('alerts.channels.verify')}
+                                    </Button>
+                                )}
+                                <Button size="sm" variant="ghost" onClick={handleSendCode} disabled={isSendingCode}>
+                                    {isSendingCode ? (
+                                        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                    ) : (
+                                        <Send className="w-4 h-4 mr-2" />
+                                    )}
+                                    {codeSentTo === phone ? t('alerts.channels.resendCode') : t('alerts.channels.sendCode')}
+                                </Button>
+                            </div>
+                            {verifyError && <p className="text-xs text-red-600">{verifyError}</p>}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        {channels.map(({ key, label, icon: Icon }) => (
+                            <button
+                                key={key}
+                                type="button"
+                                onClick={() => update({ [key]: !draft[key] })}
+                                disabled={!isVerified}
+                                aria-pressed={isVerified && draft[key]}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+                                    isVerified && draft[key]
+                                        ? 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                                        : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+                                )}
+                            >
+                                <Icon className="w-4 h-4" />
+                                {label}
+                                {isVerified && draft[key] && <Check className="w-4 h-4" />}
+                            </button>
+                        ))}
+                    </div>
+                    <Button
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={isSaving || !!phoneError}
+                    >
+                        {isSaving ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                        ) : (
+                            <Check className="w-4 h-4 mr-2" />
+                        )}
+                        {saved ? t('common.saved') : t('common.save')}
+                    </Button>
+                </CardContent>
+            </Card>
+        </motion.div>
+    );
+}
@@ -1 +1,3 @@
 export { AlertBanner } from './AlertBanner';
+export { NotificationChannelsCard } from './NotificationChannelsCard';
+export { AlertPreferencesCard } from './AlertPreferencesCard';
@@ -259,8 +259,8 @@ export function CropCalendarCard({ weather, initialCrop, initialStage, onSave, o
                                     <Icon className="w-5 h-5" />
                                 </div>
                                 <div>
-                                    <h4 className="font-bold text-base mb-0.5">{action.label}</h4>
-                                    <p className="text-sm opacity-90">{action.description}</p>
+                                    <h4 className="font-bold text-base mb-0.5">{t(action.labelKey, action.params)}</h4>
+                                    <p className="text-sm opacity-90">{t(action.descriptionKey, action.params)}</p>
                                 </div>
                             </motion.div>
                         );
@@ -2,6 +2,7 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sprout, AlertTriangle, Droplets, ThermometerSun, Info, CheckCircle2, XCircle } from 'lucide-react';
 import { HarvestAdvisoryResult } from '../../lib/api';
+import { useLanguage } from '../../contexts/LanguageContext';
 import { Card } from '../ui/Card';
 import { cn } from '../../lib/utils';
 
@@ -11,6 +12,8 @@ interface HarvestRecommendationCardProps {
 }
 
 export function HarvestRecommendationCard({ advisory, isLoading }: HarvestRecommendationCardProps) {
+    const { t } = useLanguage();
+
     if (!advisory && !isLoading) return null;
 
     // Define themes based on status
@@ -90,7 +93,7 @@ export function HarvestRecommendationCard({ advisory, isLoading }: HarvestRecomm
                             </div>
                             <div>
                                 <h3 className={cn("text-lg font-bold flex items-center gap-2", theme.text)}>
-                                    {advisory.label}
+                                    {t(advisory.labelKey)}
                                 </h3>
                                 <p className="text-sm text-slate-500 font-medium">
                                     Weather-based advisory • {advisory.details.season}
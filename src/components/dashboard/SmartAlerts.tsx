@@ -1,15 +1,21 @@
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertTriangle, Droplets, Info, ThermometerSun, X, Leaf, Bug, Waves, Bell } from 'lucide-react';
-import { SmartAlert } from '../../lib/alerts-engine';
+import { AlertTriangle, Droplets, Info, ThermometerSun, X, Leaf, Bug, Waves, Bell, ChevronDown, ChevronUp } from 'lucide-react';
+import { SmartAlert, budgetAlerts, MAX_ALERTS_PER_DAY } from '../../lib/alerts-engine';
 import { cn } from '../../lib/utils';
+import { useLanguage } from '../../contexts/LanguageContext';
 
 interface SmartAlertsProps {
-    alerts: SmartAlert[];
+    alerts: SmartAlert[]; // ranked, most urgent first
     onDismiss: (id: string) => void;
     weatherUnavailable?: boolean;
+    limit?: number;       // alerts shown before "+N more"
 }
 
-export function SmartAlerts({ alerts, onDismiss, weatherUnavailable }: SmartAlertsProps) {
+export function SmartAlerts({ alerts, onDismiss, weatherUnavailable, limit = MAX_ALERTS_PER_DAY }: SmartAlertsProps) {
+    const { t } = useLanguage();
+    const [isExpanded, setIsExpanded] = useState(false);
+
     // Show fallback message if weather data is unavailable
     if (weatherUnavailable) {
         return (
@@ -28,6 +34,10 @@ export function SmartAlerts({ alerts, onDismiss, weatherUnavailable }: SmartAler
 
     if (alerts.length === 0) return null;
 
+    // Flood and disease alerts are always in `shown`, even past the limit
+    const { shown, hidden } = budgetAlerts(alerts, limit);
+    const displayed = isExpanded ? alerts : shown;
+
     const getIcon = (type: string) => {
         switch (type) {
             case 'WEATHER': return ThermometerSun;
@@ -56,7 +66,7 @@ export function SmartAlerts({ alerts, onDismiss, weatherUnavailable }: SmartAler
             </h3>
 
             <AnimatePresence>
-                {alerts.map((alert) => {
+                {displayed.map((alert) => {
                     const Icon = getIcon(alert.type);
                     const colorClass = getColors(alert.severity);
 
@@ -83,6 +93,11 @@ export function SmartAlerts({ alerts, onDismiss, weatherUnavailable }: SmartAler
                                     <div className="flex justify-between items-start">
                                         <div className="flex items-center gap-2 flex-wrap">
                                             <h4 className="font-bold text-base">{alert.title}</h4>
+                                            {alert.escalation && (
+                                                <span className="text-xs px-2 py-0.5 rounded-full bg-white/50 font-medium">
+                                                    {t('alerts.persisting', { days: alert.escalation.days })}
+                                                </span>
+                                            )}
                                             {alert.isGeneralAdvisory && (
                                                 <span className="text-xs px-2 py-0.5 rounded-full bg-white/50 font-medium">
                                                     General advisory
@@ -118,6 +133,25 @@ export function SmartAlerts({ alerts, onDismiss, weatherUnavailable }: SmartAler
                     );
                 })}
             </AnimatePresence>
+
+            {hidden.length > 0 && (
+                <button
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    className="w-full flex items-center justify-center gap-1 py-2 text-sm font-semibold text-slate-500 hover:text-slate-700 rounded-xl hover:bg-slate-50 transition-colors"
+                >
+                    {isExpanded ? (
+                        <>
+                            <ChevronUp className="w-4 h-4" />
+                            {t('alerts.budget.showFewer')}
+                        </>
+                    ) : (
+                        <>
+                            <ChevronDown className="w-4 h-4" />
+                            {t('alerts.budget.more', { count: hidden.length })}
+                        </>
+                    )}
+                </button>
+            )}
         </div>
     );
 }
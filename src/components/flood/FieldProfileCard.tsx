@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Mountain, Check, Loader2, Pencil } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Select } from '../ui/Select';
+import { Button } from '../ui/Button';
+import { useLanguage } from '../../contexts/LanguageContext';
+import {
+    FIELD_VALUE_LABEL_KEYS,
+    FieldAttribute,
+    FieldSusceptibility,
+} from '../../lib/flood-risk';
+
+interface FieldProfileCardProps {
+    field?: FieldSusceptibility;
+    isSaving?: boolean;
+    onSave: (field: FieldSusceptibility) => Promise<void>;
+}
+
+const DEFAULT_FIELD: FieldSusceptibility = {
+    terrain: 'plain',
+    soilTexture: 'loam',
+    drainage: 'moderate',
+    waterProximity: 'far',
+};
+
+const attributes: FieldAttribute[] = ['terrain', 'soilTexture', 'drainage', 'waterProximity'];
+
+export function FieldProfileCard({ field, isSaving, onSave }: FieldProfileCardProps) {
+    const { t } = useLanguage();
+    const [draft, setDraft] = useState<FieldSusceptibility>(field || DEFAULT_FIELD);
+    const [isEditing, setIsEditing] = useState(!field);
+
+    const [syncedField, setSyncedField] = useState(field);
+
+    // Sync once the stored profile loads (adjusting state during render)
+    if (field !== syncedField) {
+        setSyncedField(field);
+        if (field) {
+            setDraft(field);
+            setIsEditing(false);
+        }
+    }
+
+    const handleSave = async () => {
+        try {
+            await onSave(draft);
+            setIsEditing(false);
+        } catch {
+            // Error already logged by the hook; keep the form open
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.15 }}
+        >
+            <Card className="bg-gradient-to-br from-slate-50 to-stone-50 border-0 shadow-lg">
+                <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-stone-100 flex items-center justify-center shadow-md">
+                                <Mountain className="w-5 h-5 text-stone-600" />
+                            </div>
+                            <span className="text-slate-800">{t('dashboard.field.title')}</span>
+                        </div>
+                        {!isEditing && (
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="p-2 rounded-lg text-slate-500 hover:bg-white/70 transition-colors"
+                                aria-label="Edit field profile"
+                            >
+                                <Pencil className="w-4 h-4" />
+                            </button>
+                        )}
+                    </CardTitle>
+                </CardHeader>
+
+                <CardContent>
+                    {isEditing ? (
+                        <div className="space-y-3">
+                            <p className="text-xs text-slate-500">{t('dashboard.field.subtitle')}</p>
+                            {attributes.map((attribute) => (
+                                <Select
+                                    key={attribute}
+                                    label={t(`dashboard.field.attributes.${attribute}`)}
+                                    value={draft[attribute]}
+                                    onChange={(e) => setDraft((prev) => ({ ...prev, [attribute]: e.target.value }))}
+                                    options={Object.entries(FIELD_VALUE_LABEL_KEYS[attribute]).map(([value, labelKey]) => ({
+                                        value,
+                                        label: t(labelKey),
+                                    }))}
+                                />
+                            ))}
+                            <Button
+                                onClick={handleSave}
+                                disabled={isSaving}
+                                className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 text-white"
+                            >
+                                {isSaving ? (
+                                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                                ) : (
+                                    <Check className="w-4 h-4 mr-2" />
+                                )}
+                                {t('common.save')}
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-2">
+                            {attributes.map((attribute) => (
+                                <div key={attribute} className="p-3 bg-white/70 rounded-xl shadow-sm">
+                                    <div className="text-[10px] uppercase text-slate-400 font-medium">
+                                        {t(`dashboard.field.attributes.${attribute}`)}
+                                    </div>
+                                    <div className="text-sm font-semibold text-slate-700">
+                                        {t((FIELD_VALUE_LABEL_KEYS[attribute] as Record<string, string>)[draft[attribute]])}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </motion.div>
+    );
+}
@@ -0,0 +1,279 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Users, Camera, MapPin, Loader2, Send, X, Crosshair } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { Badge } from '../ui/Badge';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { formatDate, formatTime } from '../../lib/utils';
+import type { FloodReport } from '../../lib/supabase';
+import type { FloodReportSeverity } from '../../lib/flood-risk';
+import type { FloodReportSummary, NewFloodReport } from '../../hooks/useFloodReports';
+
+interface FloodReportsCardProps {
+    reports: FloodReport[];
+    summary: FloodReportSummary;
+    isCluster: boolean;
+    isSubmitting?: boolean;
+    canReport?: boolean;    // false once the user hit the per-window report limit
+    onSubmit: (report: NewFloodReport) => Promise<void>;
+    location?: string;
+}
+
+const severityConfig: Record<FloodReportSeverity, { label: string; variant: 'warning' | 'danger' | 'info' }> = {
+    waterlogging: { label: 'Waterlogging', variant: 'info' },
+    flooding: { label: 'Flooding', variant: 'warning' },
+    severe: { label: 'Severe flooding', variant: 'danger' },
+};
+
+const severities: FloodReportSeverity[] = ['waterlogging', 'flooding', 'severe'];
+
+export function FloodReportsCard({
+    reports,
+    summary,
+    isCluster,
+    isSubmitting,
+    canReport = true,
+    onSubmit,
+    location,
+}: FloodReportsCardProps) {
+    const { t } = useLanguage();
+    const photoInputRef = useRef<HTMLInputElement>(null);
+
+    const [isReporting, setIsReporting] = useState(false);
+    const [severity, setSeverity] = useState<FloodReportSeverity>('waterlogging');
+    const [description, setDescription] = useState('');
+    const [photo, setPhoto] = useState<File | null>(null);
+    const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+    const [isLocating, setIsLocating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const resetForm = () => {
+        setIsReporting(false);
+        setSeverity('waterlogging');
+        setDescription('');
+        setPhoto(null);
+        setCoords(null);
+        setError(null);
+    };
+
+    const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        if (!file.type.startsWith('image/')) {
+            setError('Please select an image file');
+            return;
+        }
+
+        if (file.size > 10 * 1024 * 1024) {
+            setError('Image too large. Maximum size is 10MB');
+            return;
+        }
+
+        setPhoto(file);
+        setError(null);
+    };
+
+    const handleLocate = () => {
+        if (!navigator.geolocation) {
+            setError('Location is not available on this device');
+            return;
+        }
+
+        setIsLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setCoords({
+                    latitude: position.coords.latitude,
+                    longitude: position.coords.longitude,
+                });
+                setIsLocating(false);
+            },
+            () => {
+                setError('Could not get your location');
+                setIsLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    const handleSubmit = async () => {
+        try {
+            await onSubmit({
+                severity,
+                description,
+                photo,
+                latitude: coords?.latitude,
+                longitude: coords?.longitude,
+            });
+            resetForm();
+        } catch {
+            setError('Failed to submit report. Please try again.');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.2 }}
+        >
+            <Card className="bg-gradient-to-br from-sky-50 to-cyan-50 border-0 shadow-lg">
+                <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-sky-100 flex items-center justify-center shadow-md">
+                                <Users className="w-5 h-5 text-sky-600" />
+                            </div>
+                            <div>
+                                <span className="text-slate-800">{t('dashboard.reports.title')}</span>
+                                {location && (
+                                    <div className="flex items-center gap-1 text-xs text-slate-500 font-normal">
+                                        <MapPin className="w-3 h-3" />
+                                        {location}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                        {isCluster && <Badge variant="danger">{t('dashboard.reports.cluster')}</Badge>}
+                    </CardTitle>
+                </CardHeader>
+
+                <CardContent>
+                    {/* District summary */}
+                    <div className="grid grid-cols-3 gap-2 mb-4">
+                        {severities.map((s) => (
+                            <div key={s} className="p-3 bg-white/70 rounded-xl shadow-sm text-center">
+                                <div className="text-xl font-bold text-slate-800">{summary.bySeverity[s]}</div>
+                                <div className="text-[10px] uppercase text-slate-400 font-medium">
+                                    {severityConfig[s].label}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Recent reports */}
+                    {reports.length === 0 ? (
+                        <p className="text-sm text-slate-500 text-center py-2 mb-4">
+                            {t('dashboard.reports.none')}
+                        </p>
+                    ) : (
+                        <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                            {reports.slice(0, 5).map((report) => (
+                                <li key={report.id} className="flex gap-3 p-2 bg-white/70 rounded-xl">
+                                    {report.photo_url && (
+                                        <img
+                                            src={report.photo_url}
+                                            alt="Flood report"
+                                            className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+                                        />
+                                    )}
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <Badge variant={severityConfig[report.severity].variant} size="sm">
+                                                {severityConfig[report.severity].label}
+                                            </Badge>
+                                            <span className="text-xs text-slate-400">{formatDate(report.created_at)}, {formatTime(report.created_at)}</span>
+                                        </div>
+                                        {report.description && (
+                                            <p className="text-sm text-slate-600 mt-1 truncate">{report.description}</p>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {/* Report form */}
+                    <AnimatePresence mode="wait">
+                        {isReporting ? (
+                            <motion.div
+                                key="form"
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: 'auto' }}
+                                exit={{ opacity: 0, height: 0 }}
+                                className="space-y-3"
+                            >
+                                <Select
+                                    label="Severity"
+                                    value={severity}
+                                    onChange={(e) => setSeverity(e.target.value as FloodReportSeverity)}
+                                    options={severities.map((s) => ({ value: s, label: severityConfig[s].label }))}
+                                />
+                                <textarea
+                                    value={description}
+                                    onChange={(e) => setDescription(e.target.value)}
+                                    rows={2}
+                                    placeholder="What do you see? (water depth, affected crops, road access)"
+                                    className="w-full px-4 py-3 rounded-xl border border-slate-200 text-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 outline-none"
+                                />
+
+                                <div className="grid grid-cols-2 gap-2">
+                                    <Button variant="secondary" size="sm" onClick={() => photoInputRef.current?.click()}>
+                                        <Camera className="w-4 h-4 mr-2" />
+                                        {photo ? 'Photo added' : 'Add Photo'}
+                                    </Button>
+                                    <Button variant="secondary" size="sm" onClick={handleLocate} disabled={isLocating}>
+                                        {isLocating ? (
+                                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                        ) : (
+                                            <Crosshair className="w-4 h-4 mr-2" />
+                                        )}
+                                        {coords ? 'Location added' : 'Add Location'}
+                                    </Button>
+                                    <input
+                                        ref={photoInputRef}
+                                        type="file"
+                                        accept="image/*"
+                                        capture="environment"
+                                        onChange={handlePhotoSelect}
+                                        className="hidden"
+                                    />
+                                </div>
+
+                                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                                <div className="flex gap-2">
+                                    <Button variant="ghost" onClick={resetForm} className="flex-1">
+                                        <X className="w-4 h-4 mr-2" />
+                                        {t('common.cancel')}
+                                    </Button>
+                                    <Button
+                                        onClick={handleSubmit}
+                                        disabled={isSubmitting}
+                                        className="flex-1 bg-gradient-to-r from-sky-500 to-cyan-600 text-white"
+                                    >
+                                        {isSubmitting ? (
+                                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                        ) : (
+                                            <Send className="w-4 h-4 mr-2" />
+                                        )}
+                                        {t('dashboard.reports.submit')}
+                                    </Button>
+                                </div>
+                            </motion.div>
+                        ) : (
+                            <motion.div key="cta" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                                {!canReport && (
+                                    <p className="text-xs text-slate-500 text-center mb-2">
+                                        {t('dashboard.reports.limitReached')}
+                                    </p>
+                                )}
+                                <Button
+                                    onClick={() => setIsReporting(true)}
+                                    disabled={!location || !canReport}
+                                    className="w-full bg-gradient-to-r from-sky-500 to-cyan-600 text-white"
+                                >
+                                    <Users className="w-4 h-4 mr-2" />
+                                    {t('dashboard.reports.report')}
+                                </Button>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </CardContent>
+            </Card>
+        </motion.div>
+    );
+}
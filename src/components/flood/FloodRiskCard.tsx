@@ -1,19 +1,28 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { AlertTriangle, Shield, Info, TrendingUp, TrendingDown, Minus, MapPin, CloudRain, Droplets } from 'lucide-react';
+import { AlertTriangle, Shield, Info, TrendingUp, TrendingDown, Minus, MapPin, CloudRain, Droplets, CheckSquare, Square, ClipboardCheck } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Badge } from '../ui/Badge';
 import { useLanguage } from '../../contexts/LanguageContext';
-import type { FloodRiskLevel } from '../../lib/flood-risk';
+import type { FloodRiskLevel, FloodRiskFactor, FloodOutlookDay, FieldAdjustment, FloodChecklistItem } from '../../lib/flood-risk';
 
 interface FloodRiskCardProps {
     level: FloodRiskLevel;
     score: number;
-    advice: string;
+    adviceKey: string; // i18n keys from the flood engine
     tips: string[];
     trend: 'INCREASING' | 'STABLE' | 'DECREASING';
     rainfall: number;
     consecutiveRainyDays: number;
+    factors?: FloodRiskFactor[];
+    outlook?: FloodOutlookDay[];
+    fieldAdjustments?: FieldAdjustment[];
+    checklist?: {
+        items: FloodChecklistItem[];
+        completed: string[];
+        preparedPercent: number;
+        onToggle: (id: string) => void;
+    };
     location?: string;
 }
 
@@ -56,11 +65,15 @@ const trendConfig = {
 export function FloodRiskCard({
     level,
     score,
-    advice,
+    adviceKey,
     tips,
     trend,
     rainfall,
     consecutiveRainyDays,
+    factors = [],
+    outlook = [],
+    fieldAdjustments = [],
+    checklist,
     location,
 }: FloodRiskCardProps) {
     const { t } = useLanguage();
@@ -69,6 +82,8 @@ export function FloodRiskCard({
     const Icon = config.icon;
     const TrendIcon = trendInfo.icon;
 
+    const raisingAdjustments = fieldAdjustments.filter((adj) => adj.multiplier > 1);
+
     const levelText = {
         LOW: t('dashboard.flood.low'),
         MEDIUM: t('dashboard.flood.medium'),
@@ -156,14 +171,118 @@ export function FloodRiskCard({
                         </div>
                     </div>
 
+                    {/* 5-Day Risk Outlook */}
+                    {outlook.length > 0 && (
+                        <div className="mb-5">
+                            <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+                                <CloudRain className="w-4 h-4 text-blue-500" />
+                                {t('dashboard.flood.outlook')}
+                            </h4>
+                            <div className="grid grid-cols-5 gap-2">
+                                {outlook.slice(0, 5).map((day) => {
+                                    const dayConfig = riskConfig[day.level];
+                                    return (
+                                        <div
+                                            key={day.date}
+                                            className={`text-center p-2 rounded-xl border ${dayConfig.bgColor} ${dayConfig.borderColor}`}
+                                        >
+                                            <div className="text-xs font-medium text-slate-600">{day.dayName}</div>
+                                            <div className={`text-[10px] font-bold mt-1 ${dayConfig.color}`}>
+                                                {levelText[day.level]}
+                                            </div>
+                                            <div className="text-sm font-bold text-slate-800">{day.score}</div>
+                                            <div className="text-[10px] text-blue-500">{day.rainfall}mm</div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Why this level - per-factor score breakdown */}
+                    {factors.length > 0 && (
+                        <div className="mb-5 p-4 bg-white/70 rounded-xl shadow-sm">
+                            <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+                                <Info className="w-4 h-4 text-slate-500" />
+                                {t('dashboard.flood.whyLevel')}
+                            </h4>
+                            <div className="space-y-2.5">
+                                {factors.map((factor) => (
+                                    <div key={factor.id}>
+                                        <div className="flex justify-between text-xs text-slate-600 mb-1">
+                                            <span>
+                                                {t(factor.labelKey)}
+                                                <span className="text-slate-400"> ({factor.value} {t(factor.unitKey, factor.unitParams)})</span>
+                                            </span>
+                                            <span className="font-semibold">{t('dashboard.flood.points', { score: factor.score })}</span>
+                                        </div>
+                                        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full ${factor.score > 0 ? config.barColor : ''}`}
+                                                style={{ width: `${factor.maxScore > 0 ? (factor.score / factor.maxScore) * 100 : 0}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {raisingAdjustments.length > 0 && (
+                                <div className="mt-3 pt-3 border-t border-slate-100 text-xs text-slate-600">
+                                    <span className="font-semibold">{t('dashboard.field.raisedBy')}: </span>
+                                    {raisingAdjustments
+                                        .map((adj) => `${t(adj.labelKey)} (×${adj.multiplier})`)
+                                        .join(', ')}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Alert/Advice Box */}
                     <div className={`p-4 rounded-xl ${config.bgColor} border ${config.borderColor} mb-4`}>
                         <div className="flex items-start gap-3">
                             <Icon className={`w-5 h-5 ${config.color} flex-shrink-0 mt-0.5`} />
-                            <p className={`text-sm ${config.color} font-medium`}>{advice}</p>
+                            <p className={`text-sm ${config.color} font-medium`}>{t(adviceKey)}</p>
                         </div>
                     </div>
 
+                    {/* Preparedness Checklist (MEDIUM/HIGH only) */}
+                    {checklist && checklist.items.length > 0 && (
+                        <div className="mb-5 p-4 bg-white/70 rounded-xl shadow-sm">
+                            <div className="flex items-center justify-between mb-3">
+                                <h4 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                                    <ClipboardCheck className="w-4 h-4 text-emerald-500" />
+                                    {t('dashboard.flood.checklist')}
+                                </h4>
+                                <span className={`text-xs font-bold ${checklist.preparedPercent === 100 ? 'text-emerald-600' : config.color}`}>
+                                    {checklist.preparedPercent}% {t('dashboard.flood.prepared')}
+                                </span>
+                            </div>
+                            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-3">
+                                <div
+                                    className="h-full rounded-full bg-emerald-500 transition-all"
+                                    style={{ width: `${checklist.preparedPercent}%` }}
+                                />
+                            </div>
+                            <ul className="space-y-1.5">
+                                {checklist.items.map((item) => {
+                                    const isDone = checklist.completed.includes(item.id);
+                                    const CheckIcon = isDone ? CheckSquare : Square;
+                                    return (
+                                        <li key={item.id}>
+                                            <button
+                                                type="button"
+                                                onClick={() => checklist.onToggle(item.id)}
+                                                className="w-full flex items-center gap-2 text-left text-sm text-slate-600 p-1.5 rounded-lg hover:bg-white"
+                                            >
+                                                <CheckIcon className={`w-4 h-4 flex-shrink-0 ${isDone ? 'text-emerald-500' : 'text-slate-400'}`} />
+                                                <span className={isDone ? 'line-through text-slate-400' : ''}>{t(item.labelKey)}</span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </div>
+                    )}
+
                     {/* Safety Tips */}
                     <div>
                         <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
@@ -182,7 +301,7 @@ export function FloodRiskCard({
                                     <span className={`w-6 h-6 rounded-full ${config.bgColor} flex items-center justify-center flex-shrink-0 text-xs font-bold ${config.color}`}>
                                         {index + 1}
                                     </span>
-                                    <span className="leading-relaxed">{tip}</span>
+                                    <span className="leading-relaxed">{t(tip)}</span>
                                 </motion.li>
                             ))}
                         </ul>
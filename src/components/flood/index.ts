@@ -1 +1,3 @@
 export { FloodRiskCard } from './FloodRiskCard';
+export { FieldProfileCard } from './FieldProfileCard';
+export { FloodReportsCard } from './FloodReportsCard';
@@ -10,10 +10,12 @@ import {
     LogOut,
     User,
     Globe,
-    Bug
+    Bug,
+    Bell
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useUnreadAlertCount } from '../../hooks/useAlerts';
 import { Button } from '../ui/Button';
 
 export function Header() {
@@ -23,6 +25,7 @@ export function Header() {
     const navigate = useNavigate();
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isLangOpen, setIsLangOpen] = useState(false);
+    const unreadAlerts = useUnreadAlertCount();
 
     const navLinks = user
         ? [
@@ -173,6 +176,25 @@ export function Header() {
                             </div>
                         )}
 
+                        {/* Notification Bell */}
+                        {user && (
+                            <Link
+                                to="/alerts"
+                                className={`relative p-2 rounded-xl transition-colors ${location.pathname === '/alerts'
+                                    ? 'bg-amber-50 text-amber-700'
+                                    : 'text-slate-600 hover:bg-slate-50'
+                                    }`}
+                                aria-label={t('nav.alerts')}
+                            >
+                                <Bell size={20} />
+                                {unreadAlerts > 0 && (
+                                    <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                        {unreadAlerts > 9 ? '9+' : unreadAlerts}
+                                    </span>
+                                )}
+                            </Link>
+                        )}
+
                         {/* Mobile Menu Button */}
                         <button
                             onClick={() => setIsMenuOpen(!isMenuOpen)}
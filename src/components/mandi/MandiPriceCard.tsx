@@ -1,11 +1,16 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { TrendingUp, IndianRupee, Calendar, RefreshCw, Search, Loader2, Wheat, MapPin, X } from 'lucide-react';
+import { TrendingUp, IndianRupee, Calendar, RefreshCw, Search, Loader2, Wheat, MapPin, X, Bell, BellRing, LineChart, AlertTriangle, Wrench } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
 import { Badge } from '../ui/Badge';
 import { Skeleton } from '../ui/Loading';
 import { Button } from '../ui/Button';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { PriceTrendChart } from './PriceTrendChart';
+import { NetRealizationPanel } from './NetRealizationPanel';
+import type { PriceWatch } from '../../lib/supabase';
+import type { PriceWatchCondition, PriceWatchDirection } from '../../lib/price-watch';
+import { CommodityDefinition, resolveCommodity } from '../../lib/commodities';
 
 interface MandiPrice {
     commodity: string;
@@ -18,15 +23,24 @@ interface MandiPrice {
     modalPrice: number;
     arrivalDate?: string;
     unit?: string;
+    marketCount?: number;
+    quality?: 'ok' | 'repaired' | 'suspect';
+    qualityIssues?: string[];
 }
 
 interface MandiPriceCardProps {
     prices?: MandiPrice[];
     lastUpdated?: string;
+    totalRecords?: number;
+    truncated?: boolean;
     isLoading?: boolean;
     error?: Error | null;
     onSearch?: (commodity: string, market?: string) => void;
     location?: string;
+    watches?: PriceWatch[];
+    onAddWatch?: (watch: PriceWatchCondition) => Promise<void>;
+    onRemoveWatch?: (watchId: string) => void;
+    isSavingWatch?: boolean;
 }
 
 // Popular crops for quick selection
@@ -38,32 +52,55 @@ const popularPlaces = ['Chennai', 'Salem', 'Coimbatore', 'Mumbai', 'Delhi', 'Hyd
 export function MandiPriceCard({
     prices,
     lastUpdated,
+    totalRecords,
+    truncated,
     isLoading,
     error,
     onSearch,
     location,
+    watches = [],
+    onAddWatch,
+    onRemoveWatch,
+    isSavingWatch,
 }: MandiPriceCardProps) {
-    const { t } = useLanguage();
+    const { t, language } = useLanguage();
     const [cropInput, setCropInput] = useState('');
     const [placeInput, setPlaceInput] = useState(location || '');
     const [isSearching, setIsSearching] = useState(false);
     const [searchedCrop, setSearchedCrop] = useState('');
+    // Dictionary entry the search resolved to ("dhan" → Paddy), if any
+    const [searchedCommodity, setSearchedCommodity] = useState<CommodityDefinition | null>(null);
     const [searchedPlace, setSearchedPlace] = useState('');
+    // Price entry (by index) whose "alert me" form is open
+    const [watchIndex, setWatchIndex] = useState<number | null>(null);
+    const [watchDirection, setWatchDirection] = useState<PriceWatchDirection>('above');
+    const [watchThreshold, setWatchThreshold] = useState('');
+    // Price entry (by index) whose trend chart is open
+    const [trendIndex, setTrendIndex] = useState<number | null>(null);
 
     const handleSearch = async () => {
         if (!cropInput.trim()) return;
 
         setIsSearching(true);
+        setWatchIndex(null);
+        setTrendIndex(null);
+        const match = resolveCommodity(cropInput);
         setSearchedCrop(cropInput.trim());
+        setSearchedCommodity(match?.commodity || null);
         setSearchedPlace(placeInput.trim() || 'All India');
 
         try {
-            onSearch?.(cropInput.trim(), placeInput.trim() || undefined);
+            onSearch?.(match?.commodity.agmarknetName || cropInput.trim(), placeInput.trim() || undefined);
         } finally {
             setTimeout(() => setIsSearching(false), 500);
         }
     };
 
+    // Shown under the input when the typed name is an alias or a typo
+    const cropMatch = useMemo(() => resolveCommodity(cropInput), [cropInput]);
+    const showCropMatch = !!cropMatch &&
+        cropInput.trim().toLowerCase() !== cropMatch.commodity.labels.en.toLowerCase();
+
     const handleQuickCrop = (crop: string) => {
         setCropInput(crop);
     };
@@ -72,6 +109,29 @@ export function MandiPriceCard({
         setPlaceInput(place);
     };
 
+    const openWatchForm = (index: number, modalPrice: number) => {
+        setWatchIndex(index);
+        setWatchDirection('above');
+        setWatchThreshold(String(modalPrice));
+    };
+
+    const handleAddWatch = async (price: MandiPrice) => {
+        const threshold = Number(watchThreshold);
+        if (!onAddWatch || !(threshold > 0)) return;
+
+        try {
+            await onAddWatch({
+                commodity: price.commodity,
+                market: price.market,
+                direction: watchDirection,
+                threshold,
+            });
+            setWatchIndex(null);
+        } catch {
+            // Error already logged by the hook; keep the form open
+        }
+    };
+
     const handleKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
             handleSearch();
@@ -126,6 +186,13 @@ export function MandiPriceCard({
                                 />
                                 <Wheat className="absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-purple-400" />
                             </div>
+                            {showCropMatch && cropMatch && (
+                                <p className="mt-1.5 text-xs text-purple-600">
+                                    {t('dashboard.mandi.resolvedCommodity', {
+                                        name: `${cropMatch.commodity.labels.en} (${cropMatch.commodity.labels[language]})`,
+                                    })}
+                                </p>
+                            )}
                             <div className="mt-2 flex flex-wrap gap-1.5">
                                 {popularCrops.map((crop) => (
                                     <button
@@ -202,14 +269,16 @@ export function MandiPriceCard({
                             <div className="flex items-center gap-2">
                                 <Wheat className="w-4 h-4" />
                                 <span>
-                                    <span className="font-bold">{searchedCrop}</span>
+                                    <span className="font-bold">
+                                        {searchedCommodity ? searchedCommodity.labels[language] : searchedCrop}
+                                    </span>
                                     {searchedPlace !== 'All India' && (
                                         <span className="text-purple-500"> in {searchedPlace}</span>
                                     )}
                                 </span>
                             </div>
                             <button
-                                onClick={() => { setSearchedCrop(''); setSearchedPlace(''); }}
+                                onClick={() => { setSearchedCrop(''); setSearchedCommodity(null); setSearchedPlace(''); }}
                                 className="text-purple-400 hover:text-purple-600"
                             >
                                 <X className="w-4 h-4" />
@@ -246,7 +315,7 @@ export function MandiPriceCard({
                                         initial={{ opacity: 0, x: -20 }}
                                         animate={{ opacity: 1, x: 0 }}
                                         transition={{ delay: index * 0.03 }}
-                                        className="bg-white rounded-xl p-4 border border-purple-100 hover:shadow-lg hover:border-purple-200 transition-all"
+                                        className={`bg-white rounded-xl p-4 border border-purple-100 hover:shadow-lg hover:border-purple-200 transition-all ${price.quality === 'suspect' ? 'opacity-50 grayscale' : ''}`}
                                     >
                                         <div className="flex items-start justify-between mb-3">
                                             <div>
@@ -261,15 +330,96 @@ export function MandiPriceCard({
                                                 <p className="text-sm text-slate-500 flex items-center gap-1 mt-1">
                                                     <MapPin className="w-3.5 h-3.5 text-pink-500" />
                                                     {price.market}
+                                                    {price.marketCount && ` · ${t('dashboard.mandi.marketAverage', { count: price.marketCount })}`}
                                                 </p>
+                                                {price.quality && price.quality !== 'ok' && (
+                                                    <span
+                                                        className={`mt-1 inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full ${price.quality === 'suspect'
+                                                                ? 'bg-amber-100 text-amber-700'
+                                                                : 'bg-slate-100 text-slate-600'
+                                                            }`}
+                                                        title={(price.qualityIssues || [])
+                                                            .map((issue) => t(`dashboard.mandi.quality.issues.${issue}`))
+                                                            .join(', ')}
+                                                    >
+                                                        {price.quality === 'suspect'
+                                                            ? <AlertTriangle className="w-3 h-3" />
+                                                            : <Wrench className="w-3 h-3" />}
+                                                        {t(`dashboard.mandi.quality.${price.quality}`)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                {price.state && (
+                                                    <Badge variant="default" size="sm" className="text-xs bg-purple-100 text-purple-700">
+                                                        {price.state}
+                                                    </Badge>
+                                                )}
+                                                <button
+                                                    onClick={() => setTrendIndex(trendIndex === index ? null : index)}
+                                                    className={`p-1.5 rounded-lg transition-colors ${trendIndex === index
+                                                            ? 'text-purple-600 bg-purple-100'
+                                                            : 'text-purple-400 hover:text-purple-600 hover:bg-purple-50'
+                                                        }`}
+                                                    aria-label="Show price trend"
+                                                >
+                                                    <LineChart className="w-4 h-4" />
+                                                </button>
+                                                {onAddWatch && (
+                                                    <button
+                                                        onClick={() => watchIndex === index ? setWatchIndex(null) : openWatchForm(index, price.modalPrice)}
+                                                        className="p-1.5 rounded-lg text-purple-400 hover:text-purple-600 hover:bg-purple-50 transition-colors"
+                                                        aria-label="Set price alert"
+                                                    >
+                                                        <Bell className="w-4 h-4" />
+                                                    </button>
+                                                )}
                                             </div>
-                                            {price.state && (
-                                                <Badge variant="default" size="sm" className="text-xs bg-purple-100 text-purple-700">
-                                                    {price.state}
-                                                </Badge>
-                                            )}
                                         </div>
 
+                                        {watchIndex === index && (
+                                            <div className="mb-3 p-3 bg-purple-50 rounded-lg border border-purple-100 flex flex-wrap items-center gap-2">
+                                                <div className="flex rounded-lg overflow-hidden border border-purple-200">
+                                                    {(['above', 'below'] as const).map((direction) => (
+                                                        <button
+                                                            key={direction}
+                                                            onClick={() => setWatchDirection(direction)}
+                                                            className={`px-3 py-1.5 text-xs font-semibold transition-colors ${watchDirection === direction
+                                                                    ? 'bg-purple-500 text-white'
+                                                                    : 'bg-white text-purple-600 hover:bg-purple-100'
+                                                                }`}
+                                                        >
+                                                            {t(`dashboard.mandi.watch.${direction}`)}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <div className="relative">
+                                                    <IndianRupee className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-purple-400" />
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        value={watchThreshold}
+                                                        onChange={(e) => setWatchThreshold(e.target.value)}
+                                                        className="w-28 pl-7 pr-2 py-1.5 rounded-lg border border-purple-200 text-sm font-semibold text-slate-700 outline-none focus:border-purple-500"
+                                                        aria-label="Threshold (₹ per quintal)"
+                                                    />
+                                                </div>
+                                                <Button
+                                                    size="sm"
+                                                    onClick={() => handleAddWatch(price)}
+                                                    disabled={isSavingWatch || !(Number(watchThreshold) > 0)}
+                                                    className="bg-purple-500 text-white hover:bg-purple-600"
+                                                >
+                                                    {isSavingWatch ? (
+                                                        <Loader2 className="w-4 h-4 animate-spin mr-1" />
+                                                    ) : (
+                                                        <BellRing className="w-4 h-4 mr-1" />
+                                                    )}
+                                                    {t('dashboard.mandi.watch.add')}
+                                                </Button>
+                                            </div>
+                                        )}
+
                                         <div className="grid grid-cols-3 gap-2">
                                             <div className="text-center p-3 bg-gradient-to-br from-green-50 to-emerald-50 rounded-lg border border-green-100">
                                                 <div className="text-[10px] text-green-600 uppercase font-medium">Min Price</div>
@@ -295,6 +445,15 @@ export function MandiPriceCard({
                                                 <div className="text-[9px] text-red-500">/quintal</div>
                                             </div>
                                         </div>
+
+                                        {trendIndex === index && (
+                                            <PriceTrendChart
+                                                commodity={price.commodity}
+                                                market={price.market}
+                                                variety={price.variety}
+                                                currentPrice={price.modalPrice}
+                                            />
+                                        )}
                                     </motion.div>
                                 ))}
                             </div>
@@ -303,14 +462,58 @@ export function MandiPriceCard({
                             <div className="mt-4 flex items-center justify-between text-xs text-slate-500 pt-3 border-t border-purple-100">
                                 <span className="bg-purple-100 px-3 py-1.5 rounded-full font-medium">
                                     {prices.length} results
+                                    {truncated && totalRecords ? ` (${t('dashboard.mandi.firstRecords', { total: totalRecords.toLocaleString() })})` : ''}
                                 </span>
                                 <div className="flex items-center gap-1">
                                     <Calendar className="w-3 h-3" />
                                     <span>Updated: {lastUpdated ? new Date(lastUpdated).toLocaleTimeString() : 'Just now'}</span>
                                 </div>
                             </div>
+
+                            {/* Best deal after transport and fees */}
+                            <NetRealizationPanel prices={prices} origin={location} commodity={searchedCommodity?.agmarknetName || searchedCrop} />
                         </>
                     )}
+
+                    {/* Price watches */}
+                    {onAddWatch && (
+                        <div className="mt-5 pt-4 border-t border-purple-100">
+                            <h4 className="text-sm font-semibold text-slate-700 mb-2 flex items-center gap-2">
+                                <BellRing className="w-4 h-4 text-purple-500" />
+                                {t('dashboard.mandi.watch.title')}
+                            </h4>
+                            {watches.length === 0 ? (
+                                <p className="text-xs text-slate-400">{t('dashboard.mandi.watch.none')}</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {watches.map((watch) => (
+                                        <div
+                                            key={watch.id}
+                                            className="flex items-center justify-between gap-2 px-3 py-2 bg-white/70 rounded-lg text-sm"
+                                        >
+                                            <div className="min-w-0">
+                                                <span className="font-semibold text-slate-700">{watch.commodity}</span>
+                                                <span className="text-slate-500">
+                                                    {' '}{t(`dashboard.mandi.watch.${watch.direction}`)} ₹{watch.threshold.toLocaleString()}
+                                                </span>
+                                                <div className="text-xs text-slate-400 capitalize truncate">
+                                                    {watch.market}
+                                                    {watch.last_price !== null && ` · now ₹${watch.last_price.toLocaleString()}`}
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => onRemoveWatch?.(watch.id)}
+                                                className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                                                aria-label="Remove price alert"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
         </motion.div>
@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { Truck, MapPin, Trophy } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { cn } from '../../lib/utils';
+import {
+    DEFAULT_TRANSPORT_SETTINGS,
+    MarketQuote,
+    rankByNetRealization,
+    TransportSettings,
+} from '../../lib/net-realization';
+
+interface NetRealizationPanelProps {
+    prices: MarketQuote[];
+    origin?: string;
+    commodity?: string;
+}
+
+// Markets listed in the comparison
+const MAX_RANKED = 5;
+
+const SETTING_FIELDS: Array<{ key: keyof TransportSettings; step: number }> = [
+    { key: 'quantityQuintals', step: 1 },
+    { key: 'ratePerKmPerQuintal', step: 0.1 },
+    { key: 'marketFeePercent', step: 0.5 },
+    { key: 'commissionPercent', step: 0.5 },
+];
+
+export function NetRealizationPanel({ prices, origin, commodity }: NetRealizationPanelProps) {
+    const { t } = useLanguage();
+    const [settings, setSettings] = useState<TransportSettings>(DEFAULT_TRANSPORT_SETTINGS);
+
+    const commodities = useMemo(
+        () => Array.from(new Set(prices.map((price) => price.commodity))),
+        [prices]
+    );
+    const [selectedCommodity, setSelectedCommodity] = useState('');
+    const activeCommodity = commodities.includes(selectedCommodity)
+        ? selectedCommodity
+        : commodities.find((name) => name.toLowerCase() === commodity?.toLowerCase()) || commodities[0];
+
+    // Only the same commodity is comparable across markets
+    const { ranked, unranked } = useMemo(
+        () => rankByNetRealization(prices.filter((price) => price.commodity === activeCommodity), origin, settings),
+        [prices, activeCommodity, origin, settings]
+    );
+
+    if (!origin || prices.length === 0) return null;
+
+    return (
+        <div className="mt-5 pt-4 border-t border-purple-100">
+            <h4 className="text-sm font-semibold text-slate-700 mb-1 flex items-center gap-2">
+                <Truck className="w-4 h-4 text-purple-500" />
+                {t('dashboard.mandi.netRealization.title')}
+            </h4>
+            <p className="text-xs text-slate-500 mb-3">
+                {t('dashboard.mandi.netRealization.subtitle', { origin })}
+            </p>
+
+            <div className="grid grid-cols-2 gap-2 mb-3">
+                {commodities.length > 1 && (
+                    <label className="col-span-2 text-[10px] text-slate-500">
+                        {t('dashboard.mandi.commodity')}
+                        <select
+                            value={activeCommodity}
+                            onChange={(e) => setSelectedCommodity(e.target.value)}
+                            className="mt-0.5 w-full px-2 py-1.5 rounded-lg border border-purple-200 text-sm font-semibold text-slate-700 outline-none focus:border-purple-500 bg-white"
+                        >
+                            {commodities.map((name) => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {SETTING_FIELDS.map(({ key, step }) => (
+                    <label key={key} className="text-[10px] text-slate-500">
+                        {t(`dashboard.mandi.netRealization.${key}`)}
+                        <input
+                            type="number"
+                            min={0}
+                            step={step}
+                            value={settings[key]}
+                            onChange={(e) => setSettings((prev) => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))}
+                            className="mt-0.5 w-full px-2 py-1.5 rounded-lg border border-purple-200 text-sm font-semibold text-slate-700 outline-none focus:border-purple-500"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            {ranked.length === 0 ? (
+                <p className="text-xs text-slate-400">{t('dashboard.mandi.netRealization.noDistances')}</p>
+            ) : (
+                <div className="space-y-2">
+                    {ranked.slice(0, MAX_RANKED).map((result, index) => (
+                        <div
+                            key={`${result.quote.market}-${result.quote.variety || ''}-${index}`}
+                            className={cn(
+                                'px-3 py-2 rounded-lg text-sm border',
+                                index === 0 ? 'bg-green-50 border-green-200' : 'bg-white/70 border-transparent'
+                            )}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="min-w-0 flex items-center gap-1.5">
+                                    {index === 0 && <Trophy className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />}
+                                    <span className="font-semibold text-slate-700 truncate">{result.quote.market}</span>
+                                    {result.quote.variety && (
+                                        <span className="text-xs text-slate-400 truncate">{result.quote.variety}</span>
+                                    )}
+                                </div>
+                                <span className={cn('font-bold', index === 0 ? 'text-green-700' : 'text-slate-700')}>
+                                    ₹{result.netValue.toLocaleString()}
+                                </span>
+                            </div>
+                            <div className="mt-0.5 flex flex-wrap gap-x-3 text-[11px] text-slate-500">
+                                <span className="flex items-center gap-0.5">
+                                    <MapPin className="w-3 h-3" />
+                                    {t('dashboard.mandi.netRealization.distance', { km: result.distanceKm })}
+                                </span>
+                                <span>{t('dashboard.mandi.netRealization.modal', { price: result.quote.modalPrice.toLocaleString() })}</span>
+                                <span>{t('dashboard.mandi.netRealization.transport', { cost: result.transportCost.toLocaleString() })}</span>
+                                <span>{t('dashboard.mandi.netRealization.fees', { cost: result.fees.toLocaleString() })}</span>
+                                <span>{t('dashboard.mandi.netRealization.perQuintal', { price: result.netPerQuintal.toLocaleString() })}</span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {unranked.length > 0 && ranked.length > 0 && (
+                <p className="mt-2 text-[11px] text-slate-400">
+                    {t('dashboard.mandi.netRealization.unranked', { count: unranked.length })}
+                </p>
+            )}
+        </div>
+    );
+}
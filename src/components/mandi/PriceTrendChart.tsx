@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useMandiPriceForecast, useMandiPriceHistory } from '../../hooks/useMandiPriceHistory';
+import { cn, formatDate } from '../../lib/utils';
+import {
+    PriceVerdict,
+    summarizePriceHistory,
+    TREND_WINDOWS,
+    TrendWindow,
+} from '../../lib/mandi-history';
+import { ForecastOutlook, getForecastOutlook, getForecastPoint } from '../../lib/mandi-forecast';
+
+interface PriceTrendChartProps {
+    commodity: string;
+    market: string;
+    variety?: string;
+    currentPrice: number;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 6;
+
+// Forecast horizons summarised under the chart (days ahead)
+const FORECAST_CHECKPOINTS = [14, 28];
+
+const outlookStyles: Record<ForecastOutlook, string> = {
+    rising: 'text-green-700',
+    falling: 'text-red-700',
+    steady: 'text-slate-600',
+};
+
+const verdictStyles: Record<PriceVerdict, string> = {
+    good: 'bg-green-100 text-green-700',
+    fair: 'bg-amber-100 text-amber-700',
+    low: 'bg-red-100 text-red-700',
+};
+
+export function PriceTrendChart({ commodity, market, variety, currentPrice }: PriceTrendChartProps) {
+    const { t } = useLanguage();
+    const [days, setDays] = useState<TrendWindow>(30);
+    const { points, isLoading } = useMandiPriceHistory({ commodity, market, variety }, days);
+    const { forecast, backtest } = useMandiPriceForecast({ commodity, market, variety });
+
+    const summary = summarizePriceHistory(points, currentPrice);
+    const projected = points.length > 0 ? forecast?.points || [] : [];
+
+    // Scale both axes to the window plus the forecast, keeping today's price on the chart
+    const low = Math.min(
+        currentPrice,
+        ...points.map((point) => point.minPrice),
+        ...projected.map((point) => point.lower)
+    );
+    const high = Math.max(
+        currentPrice,
+        ...points.map((point) => point.maxPrice),
+        ...projected.map((point) => point.upper)
+    );
+    const span = high - low || 1;
+    const start = points.length > 0 ? Date.parse(points[0].date) : 0;
+    const lastDate = projected.length > 0 ? projected[projected.length - 1].date : points[points.length - 1]?.date;
+    const end = lastDate ? Date.parse(lastDate) : start;
+    const x = (date: string) =>
+        end > start ? PADDING + ((Date.parse(date) - start) / (end - start)) * (WIDTH - 2 * PADDING) : WIDTH / 2;
+    const y = (price: number) => HEIGHT - PADDING - ((price - low) / span) * (HEIGHT - 2 * PADDING);
+
+    const band = [
+        ...points.map((point) => `${x(point.date)},${y(point.maxPrice)}`),
+        ...points.map((point) => `${x(point.date)},${y(point.minPrice)}`).reverse(),
+    ].join(' ');
+    const modalLine = points.map((point) => `${x(point.date)},${y(point.modalPrice)}`).join(' ');
+
+    // The forecast continues from the last observed modal price
+    const last = points[points.length - 1];
+    const forecastBand = [
+        ...projected.map((point) => `${x(point.date)},${y(point.upper)}`),
+        ...projected.map((point) => `${x(point.date)},${y(point.lower)}`).reverse(),
+    ].join(' ');
+    const forecastLine = last
+        ? [`${x(last.date)},${y(last.modalPrice)}`, ...projected.map((point) => `${x(point.date)},${y(point.price)}`)].join(' ')
+        : '';
+    const outlook = forecast ? getForecastOutlook(forecast, currentPrice, FORECAST_CHECKPOINTS[FORECAST_CHECKPOINTS.length - 1]) : null;
+
+    return (
+        <div className="mt-3 p-3 bg-purple-50/60 rounded-lg border border-purple-100">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-slate-600">{t('dashboard.mandi.history.title')}</span>
+                <div className="flex rounded-lg overflow-hidden border border-purple-200">
+                    {TREND_WINDOWS.map((window) => (
+                        <button
+                            key={window}
+                            onClick={() => setDays(window)}
+                            className={cn(
+                                'px-2.5 py-1 text-xs font-semibold transition-colors',
+                                days === window ? 'bg-purple-500 text-white' : 'bg-white text-purple-600 hover:bg-purple-50'
+                            )}
+                        >
+                            {t('dashboard.mandi.history.days', { days: window })}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="w-5 h-5 text-purple-400 animate-spin" />
+                </div>
+            ) : points.length === 0 ? (
+                <p className="text-xs text-slate-400 py-6 text-center">{t('dashboard.mandi.history.empty')}</p>
+            ) : (
+                <>
+                    <svg
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        className="w-full h-28"
+                        role="img"
+                        aria-label={t('dashboard.mandi.history.title')}
+                    >
+                        <polygon points={band} className="fill-purple-200/70" />
+                        <polyline
+                            points={modalLine}
+                            fill="none"
+                            className="stroke-purple-600"
+                            strokeWidth={2}
+                            strokeLinejoin="round"
+                        />
+                        {projected.length > 0 && (
+                            <>
+                                <polygon points={forecastBand} className="fill-sky-200/60" />
+                                <polyline
+                                    points={forecastLine}
+                                    fill="none"
+                                    className="stroke-sky-600"
+                                    strokeWidth={2}
+                                    strokeDasharray="5 3"
+                                    strokeLinejoin="round"
+                                />
+                            </>
+                        )}
+                        {points.length === 1 && (
+                            <circle cx={x(points[0].date)} cy={y(points[0].modalPrice)} r={3} className="fill-purple-600" />
+                        )}
+                        <line
+                            x1={0}
+                            x2={WIDTH}
+                            y1={y(currentPrice)}
+                            y2={y(currentPrice)}
+                            className="stroke-pink-500"
+                            strokeWidth={1}
+                            strokeDasharray="4 3"
+                        />
+                    </svg>
+
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-[10px] text-slate-500">
+                        <span className="flex items-center gap-1">
+                            <span className="w-3 h-2 rounded-sm bg-purple-200" />
+                            {t('dashboard.mandi.history.band')}
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <span className="w-3 h-0.5 bg-purple-600" />
+                            {t('dashboard.mandi.modalPrice')}
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <span className="w-3 border-t border-dashed border-pink-500" />
+                            {t('dashboard.mandi.history.today')}
+                        </span>
+                        {projected.length > 0 && (
+                            <span className="flex items-center gap-1">
+                                <span className="w-3 border-t-2 border-dashed border-sky-600" />
+                                {t('dashboard.mandi.forecast.legend')}
+                            </span>
+                        )}
+                    </div>
+
+                    {summary ? (
+                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                            <span className={cn('px-2 py-0.5 rounded-full font-semibold', verdictStyles[summary.verdict])}>
+                                {t(`dashboard.mandi.history.verdict.${summary.verdict}`)}
+                            </span>
+                            <span className="text-slate-600">
+                                {t('dashboard.mandi.history.comparison', {
+                                    change: `${summary.changePercent > 0 ? '+' : ''}${summary.changePercent}`,
+                                    average: summary.average.toLocaleString(),
+                                    low: summary.low.toLocaleString(),
+                                    high: summary.high.toLocaleString(),
+                                })}
+                            </span>
+                        </div>
+                    ) : (
+                        <p className="mt-2 text-xs text-slate-400">{t('dashboard.mandi.history.notEnough')}</p>
+                    )}
+
+                    {forecast && outlook && (
+                        <div className="mt-2 pt-2 border-t border-purple-100 text-xs">
+                            <p className={cn('font-semibold', outlookStyles[outlook])}>
+                                {t(`dashboard.mandi.forecast.outlook.${outlook}`)}
+                            </p>
+                            <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-slate-600">
+                                {FORECAST_CHECKPOINTS.map((ahead) => {
+                                    const point = getForecastPoint(forecast, ahead);
+                                    if (!point) return null;
+                                    return (
+                                        <span key={ahead}>
+                                            {t('dashboard.mandi.forecast.point', {
+                                                weeks: ahead / 7,
+                                                price: point.price.toLocaleString(),
+                                                lower: point.lower.toLocaleString(),
+                                                upper: point.upper.toLocaleString(),
+                                            })}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                            <p className="mt-1 text-[10px] text-slate-400">
+                                {t(forecast.seasonal ? 'dashboard.mandi.forecast.basisSeasonal' : 'dashboard.mandi.forecast.basisTrend', {
+                                    date: formatDate(forecast.lastObservedDate),
+                                })}
+                                {backtest && (
+                                    <>
+                                        {' '}
+                                        {t('dashboard.mandi.forecast.accuracy', {
+                                            error: backtest.meanAbsolutePercentError,
+                                            coverage: Math.round(backtest.coverage * 100),
+                                        })}
+                                    </>
+                                )}
+                            </p>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -1 +1,3 @@
 export { MandiPriceCard } from './MandiPriceCard';
+export { PriceTrendChart } from './PriceTrendChart';
+export { NetRealizationPanel } from './NetRealizationPanel';
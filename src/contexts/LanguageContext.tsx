@@ -1,11 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { Language, getTranslation, languageNames, translations } from '../i18n';
+import { Language, TranslationParams, getTranslation, languageNames, translations } from '../i18n';
 import { useAuth } from './AuthContext';
 
 interface LanguageContextType {
     language: Language;
     setLanguage: (lang: Language) => void;
-    t: (key: string) => string;
+    t: (key: string, params?: TranslationParams) => string;
     languageNames: typeof languageNames;
     availableLanguages: Language[];
 }
@@ -45,7 +45,7 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const t = useCallback(
-        (key: string): string => getTranslation(language, key),
+        (key: string, params?: TranslationParams): string => getTranslation(language, key, params),
         [language]
     );
 
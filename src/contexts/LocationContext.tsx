@@ -1,40 +1,18 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { fetchWeatherData, WeatherData } from '../lib/api';
+import { calculateFloodRisk, FloodRiskResult } from '../lib/flood-risk';
 
-// Flood risk calculation (matching Dashboard logic)
-function calculateFloodRisk(rainfall: number, consecutiveRainyDays: number, forecastRainfall: number[]) {
-    let score = 0;
-
-    // Current rainfall contribution
-    if (rainfall > 50) score += 40;
-    else if (rainfall > 30) score += 25;
-    else if (rainfall > 10) score += 10;
-
-    // Consecutive rainy days contribution
-    score += Math.min(consecutiveRainyDays * 8, 30);
-
-    // Forecast contribution
-    const totalForecastRain = forecastRainfall.reduce((sum, r) => sum + r, 0);
-    if (totalForecastRain > 100) score += 30;
-    else if (totalForecastRain > 50) score += 20;
-    else if (totalForecastRain > 20) score += 10;
-
-    score = Math.min(score, 100);
-
-    let level: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
-    if (score >= 60) level = 'HIGH';
-    else if (score >= 30) level = 'MEDIUM';
-
-    return { level, score };
-}
+// Baseline result used until the Dashboard publishes the location's risk
+const NO_RISK = calculateFloodRisk({ rainfall: 0, consecutiveRainyDays: 0, forecastRainfall: [] });
 
 interface LocationContextType {
     selectedLocation: string | null;
     weatherData: WeatherData | null;
-    floodRisk: { level: 'LOW' | 'MEDIUM' | 'HIGH'; score: number };
+    floodRisk: FloodRiskResult;
     isLoading: boolean;
     error: string | null;
     setLocation: (location: string) => Promise<boolean>;
+    publishFloodRisk: (location: string, risk: FloodRiskResult) => void;
     clearLocation: () => void;
 }
 
@@ -43,7 +21,10 @@ const LocationContext = createContext<LocationContextType | undefined>(undefined
 export function LocationProvider({ children }: { children: ReactNode }) {
     const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
     const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
-    const [floodRisk, setFloodRisk] = useState<{ level: 'LOW' | 'MEDIUM' | 'HIGH'; score: number }>({ level: 'LOW', score: 0 });
+    // Flood risk as computed by the Dashboard (weather, gauges, farmer
+    // reports and field profile), so Chat never scores a second, partial
+    // version of it. Tagged with its location so a late result is ignored.
+    const [publishedRisk, setPublishedRisk] = useState<{ location: string; risk: FloodRiskResult } | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -64,16 +45,8 @@ export function LocationProvider({ children }: { children: ReactNode }) {
                 return false;
             }
 
-            // Calculate flood risk from weather data
-            const risk = calculateFloodRisk(
-                weather.current.rainfall || 0,
-                weather.consecutiveRainyDays || 0,
-                weather.forecast?.map(d => d.rainfall) || []
-            );
-
             setSelectedLocation(location.trim());
             setWeatherData(weather);
-            setFloodRisk(risk);
             setError(null);
             return true;
 
@@ -86,13 +59,21 @@ export function LocationProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    const publishFloodRisk = useCallback((location: string, risk: FloodRiskResult) => {
+        setPublishedRisk({ location, risk });
+    }, []);
+
     const clearLocation = useCallback(() => {
         setSelectedLocation(null);
         setWeatherData(null);
-        setFloodRisk({ level: 'LOW', score: 0 });
+        setPublishedRisk(null);
         setError(null);
     }, []);
 
+    const floodRisk = publishedRisk && publishedRisk.location === selectedLocation
+        ? publishedRisk.risk
+        : NO_RISK;
+
     return (
         <LocationContext.Provider value={{
             selectedLocation,
@@ -101,6 +82,7 @@ export function LocationProvider({ children }: { children: ReactNode }) {
             isLoading,
             error,
             setLocation,
+            publishFloodRisk,
             clearLocation,
         }}>
             {children}
@@ -3,3 +3,11 @@ export { useFloodRisk } from './useFloodRisk';
 export { useMandiPrices, getMockMandiPrices, commodities } from './useMandiPrices';
 export { useAIChat } from './useAIChat';
 export { useTextToSpeech } from './useTextToSpeech';
+export { useFieldProfile } from './useFieldProfile';
+export { useFloodChecklist } from './useFloodChecklist';
+export { useFloodReports } from './useFloodReports';
+export { useAlerts, useAlertHistory, useUnreadAlertCount, usePriceAlerts } from './useAlerts';
+export { usePushNotifications } from './usePushNotifications';
+export { useNotificationPreferences } from './useNotificationPreferences';
+export { usePriceWatches } from './usePriceWatches';
+export { useMandiPriceHistory, useMandiPriceForecast } from './useMandiPriceHistory';
@@ -0,0 +1,409 @@
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, Alert } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getTranslation, Language } from '../i18n';
+import type { SmartAlert } from '../lib/alerts-engine';
+import type { AlertHistoryEntry } from '../lib/alert-policy';
+import { buildAlertKey, getDateKey } from '../lib/alert-keys';
+
+/**
+ * Alert as generated on the client, before it is stored.
+ * `id` is the engine/banner id and must be stable within a day.
+ */
+export interface AlertInput {
+    id: string;
+    type: Alert['type'];
+    alertType?: Alert['alert_type'];
+    title: string;
+    message: string;
+    severity: Alert['severity'];
+    action?: string;
+}
+
+type AlertState = Pick<Alert, 'alert_key' | 'is_read' | 'is_dismissed' | 'severity' | 'created_at' | 'resolved_at'>;
+
+const NO_ALERT_STATE: AlertState[] = [];
+const NO_ALERTS: Alert[] = [];
+
+// Notification center shows the most recent alerts only
+const HISTORY_LIMIT = 200;
+
+// Stored alerts the policy layer looks back over (cooldowns, escalation)
+const POLICY_LOOKBACK_DAYS = 7;
+
+// Price alerts stay in the Dashboard banner for a day
+const PRICE_ALERT_HOURS = 24;
+
+/**
+ * Map a Smart Alert onto the stored alert shape
+ * (escalated alerts note how long the condition has persisted)
+ */
+export function fromSmartAlert(alert: SmartAlert, language: Language = 'en'): AlertInput {
+    const typeMap: Record<SmartAlert['type'], Alert['type']> = {
+        FLOOD: 'flood',
+        WEATHER: 'weather',
+        PRICE: 'price',
+        HARVEST: 'general',
+        IRRIGATE: 'general',
+        DISEASE: 'general',
+        GENERAL: 'general',
+    };
+
+    return {
+        id: alert.id,
+        type: typeMap[alert.type],
+        alertType: alert.type,
+        title: alert.title,
+        message: alert.escalation
+            ? `${alert.message} ${getTranslation(language, 'alerts.policy.persisted', { days: alert.escalation.days })}`
+            : alert.message,
+        severity: alert.severity === 'info' ? 'low' : alert.severity,
+        action: alert.action,
+    };
+}
+
+async function fetchAlertState(userId: string, location: string): Promise<AlertState[]> {
+    const since = new Date(Date.now() - POLICY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+        .from('alerts')
+        .select('alert_key, is_read, is_dismissed, severity, created_at, resolved_at')
+        .eq('user_id', userId)
+        .eq('location', location)
+        .gte('created_at', since.toISOString());
+
+    if (error) {
+        throw new Error('Failed to fetch alert state');
+    }
+
+    return data || [];
+}
+
+async function fetchAlertHistory(userId: string): Promise<Alert[]> {
+    const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+    if (error) {
+        throw new Error('Failed to fetch alert history');
+    }
+
+    return data || [];
+}
+
+async function markAlertsRead(userId: string, alertIds: string[]): Promise<void> {
+    const { error } = await supabase
+        .from('alerts')
+        .update({ is_read: true })
+        .eq('user_id', userId)
+        .in('id', alertIds);
+
+    if (error) {
+        console.error('Failed to mark alerts as read:', error);
+        throw error;
+    }
+}
+
+async function fetchUnreadAlertCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+        .from('alerts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_read', false)
+        .eq('is_dismissed', false)
+        .is('resolved_at', null);
+
+    if (error) {
+        throw new Error('Failed to fetch unread alert count');
+    }
+
+    return count || 0;
+}
+
+async function fetchActivePriceAlerts(userId: string): Promise<Alert[]> {
+    const since = new Date(Date.now() - PRICE_ALERT_HOURS * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('type', 'price')
+        .eq('is_dismissed', false)
+        .is('resolved_at', null)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error('Failed to fetch price alerts');
+    }
+
+    return data || [];
+}
+
+async function dismissAlertsById(userId: string, alertIds: string[]): Promise<void> {
+    const { error } = await supabase
+        .from('alerts')
+        .update({ is_dismissed: true, is_read: true })
+        .eq('user_id', userId)
+        .in('id', alertIds);
+
+    if (error) {
+        console.error('Failed to dismiss alerts:', error);
+        throw error;
+    }
+}
+
+async function saveAlerts(userId: string, location: string, alerts: AlertInput[]): Promise<void> {
+    if (alerts.length === 0) return;
+
+    // ignoreDuplicates: an alert already stored today keeps its read/dismiss state
+    const { error } = await supabase
+        .from('alerts')
+        .upsert(
+            alerts.map((alert) => ({
+                user_id: userId,
+                alert_key: buildAlertKey(alert.id, location),
+                alert_type: alert.alertType ?? null,
+                type: alert.type,
+                title: alert.title,
+                message: alert.message,
+                severity: alert.severity,
+                action: alert.action ?? null,
+                location,
+            })),
+            { onConflict: 'user_id,alert_key', ignoreDuplicates: true }
+        );
+
+    if (error) {
+        console.error('Failed to save alerts:', error);
+        throw error;
+    }
+}
+
+async function updateAlertState(
+    userId: string,
+    alertKeys: string[],
+    changes: Partial<Pick<Alert, 'is_read' | 'is_dismissed'>>
+): Promise<void> {
+    const { error } = await supabase
+        .from('alerts')
+        .update(changes)
+        .eq('user_id', userId)
+        .in('alert_key', alertKeys);
+
+    if (error) {
+        console.error('Failed to update alert state:', error);
+        throw error;
+    }
+}
+
+async function updateAlertResolution(userId: string, alertKeys: string[], resolvedAt: string | null): Promise<void> {
+    const { error } = await supabase
+        .from('alerts')
+        .update({ resolved_at: resolvedAt })
+        .eq('user_id', userId)
+        .in('alert_key', alertKeys);
+
+    if (error) {
+        console.error('Failed to update alert resolution:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook to persist today's generated alerts for a location
+ *
+ * Alerts are upserted into `alerts` under a per-day key, so a dismissal
+ * or read survives a reload but a new day starts clean. `history` holds
+ * the location's recent stored alerts for the policy layer
+ * (`applyAlertPolicy`), which decides what to store and resolve.
+ */
+export function useAlerts(location: string | null) {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const locationKey = location?.trim().toLowerCase() || '';
+    const keyPrefix = `${getDateKey()}:${locationKey}:`;
+    const queryKey = useMemo(() => ['alerts', user?.id, keyPrefix], [user?.id, keyPrefix]);
+
+    const { data: state = NO_ALERT_STATE, isSuccess: isHistoryLoaded } = useQuery({
+        queryKey,
+        queryFn: () => fetchAlertState(user!.id, locationKey),
+        enabled: !!user && !!locationKey,
+    });
+
+    // Engine ids dismissed today at this location
+    const dismissedIds = useMemo(
+        () => new Set(
+            state
+                .filter((row) => row.is_dismissed && row.alert_key?.startsWith(keyPrefix))
+                .map((row) => row.alert_key!.slice(keyPrefix.length))
+        ),
+        [state, keyPrefix]
+    );
+
+    const history = useMemo<AlertHistoryEntry[]>(
+        () => state
+            .filter((row) => row.alert_key)
+            .map((row) => ({
+                id: row.alert_key!.split(':').pop()!,
+                key: row.alert_key!,
+                severity: row.severity,
+                createdAt: row.created_at,
+                resolvedAt: row.resolved_at,
+            })),
+        [state]
+    );
+
+    const invalidate = useCallback(() => {
+        queryClient.invalidateQueries({ queryKey: ['alerts', user?.id] });
+    }, [queryClient, user?.id]);
+
+    const { mutate: syncAlerts } = useMutation({
+        mutationFn: async (alerts: AlertInput[]) => {
+            if (!user || !locationKey) return;
+            await saveAlerts(user.id, locationKey, alerts);
+        },
+        onSuccess: invalidate,
+    });
+
+    const { mutate: updateState } = useMutation({
+        mutationFn: async ({ ids, changes }: { ids: string[]; changes: Partial<Pick<Alert, 'is_read' | 'is_dismissed'>> }) => {
+            if (!user) throw new Error('User not authenticated');
+            await updateAlertState(user.id, ids.map((id) => `${keyPrefix}${id}`), changes);
+        },
+        // Hide dismissed alerts immediately rather than waiting for the refetch
+        onMutate: ({ ids, changes }) => {
+            queryClient.setQueryData<AlertState[]>(queryKey, (prev = []) =>
+                prev.map((row) =>
+                    row.alert_key?.startsWith(keyPrefix) && ids.includes(row.alert_key.slice(keyPrefix.length))
+                        ? { ...row, ...changes }
+                        : row
+                )
+            );
+        },
+        onSettled: invalidate,
+    });
+
+    const { mutate: updateResolution } = useMutation({
+        mutationFn: async ({ keys, resolvedAt }: { keys: string[]; resolvedAt: string | null }) => {
+            if (!user) throw new Error('User not authenticated');
+            await updateAlertResolution(user.id, keys, resolvedAt);
+        },
+        // Only refetch on success: a failed update would otherwise re-run from the new history
+        onSuccess: invalidate,
+    });
+
+    const resolveAlerts = useCallback((keys: string[]) => {
+        if (keys.length === 0) return;
+        updateResolution({ keys, resolvedAt: new Date().toISOString() });
+    }, [updateResolution]);
+
+    const reopenAlerts = useCallback((keys: string[]) => {
+        if (keys.length === 0) return;
+        updateResolution({ keys, resolvedAt: null });
+    }, [updateResolution]);
+
+    const dismissAlert = useCallback((id: string) => {
+        updateState({ ids: [id], changes: { is_dismissed: true, is_read: true } });
+    }, [updateState]);
+
+    const markRead = useCallback((ids: string[]) => {
+        if (ids.length === 0) return;
+        updateState({ ids, changes: { is_read: true } });
+    }, [updateState]);
+
+    return {
+        dismissedIds,
+        history,
+        isHistoryLoaded,
+        syncAlerts,
+        dismissAlert,
+        markRead,
+        resolveAlerts,
+        reopenAlerts,
+    };
+}
+
+/**
+ * Hook for the number of unread, undismissed alerts (for the Header)
+ */
+export function useUnreadAlertCount() {
+    const { user } = useAuth();
+
+    const { data: count = 0 } = useQuery({
+        queryKey: ['alerts', user?.id, 'unread'],
+        queryFn: () => fetchUnreadAlertCount(user!.id),
+        enabled: !!user,
+        refetchInterval: 60 * 1000,
+    });
+
+    return count;
+}
+
+/**
+ * Hook for the notification center: the user's stored alerts, newest first
+ */
+export function useAlertHistory() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const { data: alerts = NO_ALERTS, isLoading } = useQuery({
+        queryKey: ['alerts', user?.id, 'history'],
+        queryFn: () => fetchAlertHistory(user!.id),
+        enabled: !!user,
+    });
+
+    const markReadMutation = useMutation({
+        mutationFn: async (alertIds: string[]) => {
+            if (!user) throw new Error('User not authenticated');
+            if (alertIds.length === 0) return;
+            await markAlertsRead(user.id, alertIds);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alerts', user?.id] });
+        },
+    });
+
+    return {
+        alerts,
+        isLoading,
+        markRead: markReadMutation.mutate,
+        isMarking: markReadMutation.isPending,
+    };
+}
+
+/**
+ * Hook for recent, undismissed price watch alerts (for the Dashboard banner).
+ * These are created server-side by `price-watcher`, not by the engine.
+ */
+export function usePriceAlerts() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const queryKey = useMemo(() => ['alerts', user?.id, 'price'], [user?.id]);
+
+    const { data: alerts = NO_ALERTS } = useQuery({
+        queryKey,
+        queryFn: () => fetchActivePriceAlerts(user!.id),
+        enabled: !!user,
+        refetchInterval: 5 * 60 * 1000,
+    });
+
+    const { mutate: dismissPriceAlert } = useMutation({
+        mutationFn: async (alertId: string) => {
+            if (!user) throw new Error('User not authenticated');
+            await dismissAlertsById(user.id, [alertId]);
+        },
+        onMutate: (alertId) => {
+            queryClient.setQueryData<Alert[]>(queryKey, (prev = []) => prev.filter((alert) => alert.id !== alertId));
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ['alerts', user?.id] });
+        },
+    });
+
+    return { alerts, dismissPriceAlert };
+}
@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, FieldProfile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { FieldSusceptibility } from '../lib/flood-risk';
+
+async function fetchFieldProfile(userId: string): Promise<FieldProfile | null> {
+    const { data, error } = await supabase
+        .from('field_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error('Failed to fetch field profile');
+    }
+
+    return data;
+}
+
+async function saveFieldProfile(userId: string, field: FieldSusceptibility): Promise<void> {
+    const { error } = await supabase
+        .from('field_profiles')
+        .upsert({
+            user_id: userId,
+            terrain: field.terrain,
+            soil_texture: field.soilTexture,
+            drainage: field.drainage,
+            water_proximity: field.waterProximity,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+    if (error) {
+        console.error('Failed to save field profile:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook to load and save the user's field flood-susceptibility profile
+ * (stored in `field_profiles`, one row per user)
+ */
+export function useFieldProfile() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const { data: profile = null, isLoading } = useQuery({
+        queryKey: ['field-profile', user?.id],
+        queryFn: () => fetchFieldProfile(user!.id),
+        enabled: !!user,
+    });
+
+    // Engine-facing shape of the stored row
+    const field = useMemo<FieldSusceptibility | undefined>(() => {
+        if (!profile) return undefined;
+        return {
+            terrain: profile.terrain,
+            soilTexture: profile.soil_texture,
+            drainage: profile.drainage,
+            waterProximity: profile.water_proximity,
+        };
+    }, [profile]);
+
+    const saveMutation = useMutation({
+        mutationFn: async (next: FieldSusceptibility) => {
+            if (!user) throw new Error('User not authenticated');
+            await saveFieldProfile(user.id, next);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['field-profile', user?.id] });
+        },
+    });
+
+    return {
+        profile,
+        field,
+        isLoading,
+        saveProfile: saveMutation.mutateAsync,
+        isSaving: saveMutation.isPending,
+    };
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, FloodChecklist } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getFloodChecklist, FloodChecklistItem, FloodRiskLevel } from '../lib/flood-risk';
+
+// A checklist left untouched this long belongs to an earlier episode
+const CHECKLIST_EXPIRY_DAYS = 14;
+
+async function fetchFloodChecklist(userId: string, location: string): Promise<FloodChecklist | null> {
+    const { data, error } = await supabase
+        .from('flood_checklists')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('location', location)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error('Failed to fetch flood checklist');
+    }
+
+    // Expired progress is ignored; the next tick overwrites the row
+    const expiresAt = data ? new Date(data.updated_at).getTime() + CHECKLIST_EXPIRY_DAYS * 24 * 60 * 60 * 1000 : 0;
+    return data && expiresAt > Date.now() ? data : null;
+}
+
+async function saveFloodChecklist(
+    userId: string,
+    location: string,
+    level: FloodRiskLevel,
+    completedItems: string[]
+): Promise<void> {
+    const { error } = await supabase
+        .from('flood_checklists')
+        .upsert({
+            user_id: userId,
+            location,
+            risk_level: level,
+            completed_items: completedItems,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,location' });
+
+    if (error) {
+        console.error('Failed to save flood checklist:', error);
+        throw error;
+    }
+}
+
+async function clearFloodChecklist(userId: string, location: string): Promise<void> {
+    const { error } = await supabase
+        .from('flood_checklists')
+        .delete()
+        .eq('user_id', userId)
+        .eq('location', location);
+
+    if (error) {
+        console.error('Failed to reset flood checklist:', error);
+    }
+}
+
+interface UseFloodChecklistResult {
+    items: FloodChecklistItem[];
+    completed: string[];
+    preparedPercent: number;
+    toggleItem: (id: string) => void;
+}
+
+/**
+ * Hook for the flood preparedness checklist of the current risk level.
+ *
+ * Progress is stored per user and location in `flood_checklists`.
+ * When risk drops from MEDIUM/HIGH back to LOW the episode has ended, so
+ * stored progress is cleared and the next episode starts fresh. A LOW
+ * level is only trusted once `isRiskReady` says every risk input (gauges,
+ * reports, field profile) has loaded, so a page load or location switch
+ * never wipes progress; progress untouched for CHECKLIST_EXPIRY_DAYS is
+ * ignored.
+ */
+export function useFloodChecklist(
+    location: string | null,
+    level: FloodRiskLevel,
+    isRiskReady: boolean
+): UseFloodChecklistResult {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const locationKey = location?.trim().toLowerCase() || '';
+    const queryKey = useMemo(() => ['flood-checklist', user?.id, locationKey], [user?.id, locationKey]);
+
+    const { data: checklist = null } = useQuery({
+        queryKey,
+        queryFn: () => fetchFloodChecklist(user!.id, locationKey),
+        enabled: !!user && !!locationKey,
+    });
+
+    const items = useMemo(() => getFloodChecklist(level), [level]);
+
+    // Only count ticks that belong to the current level's list
+    const completed = useMemo(
+        () => (checklist?.completed_items || []).filter((id) => items.some((item) => item.id === id)),
+        [checklist, items]
+    );
+
+    const preparedPercent = items.length > 0 ? Math.round((completed.length / items.length) * 100) : 100;
+
+    const saveMutation = useMutation({
+        mutationFn: async (completedItems: string[]) => {
+            if (!user) throw new Error('User not authenticated');
+            await saveFloodChecklist(user.id, locationKey, level, completedItems);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey });
+        },
+    });
+
+    // Level last seen at this location with all risk inputs loaded
+    const lastLevel = useRef<{ locationKey: string; level: FloodRiskLevel } | null>(null);
+
+    // Risk episode ended (MEDIUM/HIGH dropped to LOW): reset stored progress
+    useEffect(() => {
+        if (!isRiskReady || !user || !locationKey) return;
+
+        const previous = lastLevel.current;
+        lastLevel.current = { locationKey, level };
+
+        const hasDropped = previous?.locationKey === locationKey && previous.level !== 'LOW' && level === 'LOW';
+        if (hasDropped && checklist) {
+            clearFloodChecklist(user.id, locationKey).then(() => {
+                queryClient.invalidateQueries({ queryKey });
+            });
+        }
+    }, [isRiskReady, level, checklist, user, locationKey, queryClient, queryKey]);
+
+    const { mutate } = saveMutation;
+    const toggleItem = useCallback((id: string) => {
+        if (!locationKey || items.length === 0) return;
+
+        // Keep ticks from the other level so a MEDIUM ↔ HIGH swing loses nothing
+        const stored = checklist?.completed_items || [];
+        const next = stored.includes(id)
+            ? stored.filter((itemId) => itemId !== id)
+            : [...stored, id];
+        mutate(next);
+    }, [checklist, mutate, locationKey, items]);
+
+    return {
+        items,
+        completed,
+        preparedPercent,
+        toggleItem,
+    };
+}
@@ -0,0 +1,165 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, FloodReport } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_FLOOD_RISK_CONFIG, FloodReportSeverity } from '../lib/flood-risk';
+
+const PHOTO_BUCKET = 'flood-report-photos';
+
+// The photo bucket is private; signed URLs outlive the refetch interval
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+// Reports one user may file per district within the report window
+// (enforced by the flood_reports insert policy)
+export const MAX_REPORTS_PER_WINDOW = 2;
+
+// Stable fallback so the flood risk memo doesn't recompute every render
+const NO_REPORTS: FloodReport[] = [];
+
+export interface NewFloodReport {
+    severity: FloodReportSeverity;
+    description?: string;
+    photo?: File | null;
+    latitude?: number;
+    longitude?: number;
+}
+
+/**
+ * Per-district summary shown on the Dashboard
+ */
+export interface FloodReportSummary {
+    total: number;
+    bySeverity: Record<FloodReportSeverity, number>;
+    latestAt: string | null;
+}
+
+async function fetchRecentFloodReports(district: string): Promise<FloodReport[]> {
+    const since = new Date(Date.now() - DEFAULT_FLOOD_RISK_CONFIG.reportWindowHours * 60 * 60 * 1000);
+
+    // Other farmers' reports only through the feed view (no user ids,
+    // coordinates rounded)
+    const { data, error } = await supabase
+        .from('flood_report_feed')
+        .select('*')
+        .eq('district', district)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error('Failed to fetch flood reports');
+    }
+
+    const reports: FloodReport[] = data || [];
+    const paths = reports.map((report) => report.photo_path).filter((path): path is string => !!path);
+    if (paths.length === 0) return reports;
+
+    const { data: signed, error: signError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .createSignedUrls(paths, PHOTO_URL_TTL_SECONDS);
+
+    if (signError) {
+        console.error('Failed to sign flood report photos:', signError);
+        return reports;
+    }
+
+    const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+    return reports.map((report) => ({
+        ...report,
+        photo_url: report.photo_path ? urls.get(report.photo_path) || null : null,
+    }));
+}
+
+/**
+ * Upload a photo into the user's folder; returns its path in the bucket
+ */
+async function uploadReportPhoto(userId: string, photo: File): Promise<string> {
+    const extension = photo.name.split('.').pop() || 'jpg';
+    const path = `${userId}/${Date.now()}.${extension}`;
+
+    const { error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, photo, { contentType: photo.type });
+
+    if (error) {
+        console.error('Failed to upload flood report photo:', error);
+        throw error;
+    }
+
+    return path;
+}
+
+async function insertFloodReport(userId: string, district: string, report: NewFloodReport): Promise<void> {
+    const photoPath = report.photo ? await uploadReportPhoto(userId, report.photo) : null;
+
+    const { error } = await supabase
+        .from('flood_reports')
+        .insert({
+            user_id: userId,
+            district,
+            severity: report.severity,
+            description: report.description?.trim() || null,
+            photo_path: photoPath,
+            latitude: report.latitude ?? null,
+            longitude: report.longitude ?? null,
+        });
+
+    if (error) {
+        console.error('Failed to submit flood report:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook for crowdsourced flood reports in a district
+ *
+ * Loads reports filed within the engine's report window
+ * (`reportWindowHours`) and submits new ones, uploading the
+ * photo to storage first. `canReport` is false once the user has filed
+ * MAX_REPORTS_PER_WINDOW reports in the window.
+ */
+export function useFloodReports(district: string | null) {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const districtKey = district?.trim().toLowerCase() || '';
+
+    const { data: reports = NO_REPORTS, isLoading } = useQuery({
+        queryKey: ['flood-reports', districtKey],
+        queryFn: () => fetchRecentFloodReports(districtKey),
+        enabled: !!user && !!districtKey,
+        refetchInterval: 5 * 60 * 1000,
+    });
+
+    const summary = useMemo<FloodReportSummary>(() => {
+        const bySeverity: Record<FloodReportSeverity, number> = { waterlogging: 0, flooding: 0, severe: 0 };
+        reports.forEach((report) => {
+            bySeverity[report.severity]++;
+        });
+        return {
+            total: reports.length,
+            bySeverity,
+            latestAt: reports[0]?.created_at || null,
+        };
+    }, [reports]);
+
+    const canReport = reports.filter((report) => report.is_own).length < MAX_REPORTS_PER_WINDOW;
+
+    const submitMutation = useMutation({
+        mutationFn: async (report: NewFloodReport) => {
+            if (!user) throw new Error('User not authenticated');
+            if (!districtKey) throw new Error('No location selected');
+            await insertFloodReport(user.id, districtKey, report);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['flood-reports', districtKey] });
+        },
+    });
+
+    return {
+        reports,
+        summary,
+        isLoading,
+        canReport,
+        submitReport: submitMutation.mutateAsync,
+        isSubmitting: submitMutation.isPending,
+    };
+}
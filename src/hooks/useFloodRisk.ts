@@ -1,14 +1,19 @@
 import { useMemo } from 'react';
 import {
     calculateFloodRisk,
+    calculateFloodOutlook,
     getFloodSafetyTips,
     calculateRiskTrend,
-    FloodRiskResult
+    FloodRiskResult,
+    FloodOutlookDay,
+    FloodOutlookInputDay,
+    FloodRiskContext
 } from '../lib/flood-risk';
 
 interface UseFloodRiskResult extends FloodRiskResult {
     tips: string[];
     trend: 'INCREASING' | 'STABLE' | 'DECREASING';
+    outlook: FloodOutlookDay[];
 }
 
 /**
@@ -16,22 +21,35 @@ interface UseFloodRiskResult extends FloodRiskResult {
  * 
  * @param rainfall - Current rainfall in mm
  * @param consecutiveRainyDays - Number of consecutive rainy days
- * @param forecastRainfall - Optional array of forecasted rainfall for trend calculation
+ * @param forecast - Optional daily forecast used for risk, trend and per-day outlook
+ * @param context - Optional antecedent rainfall index, gauge readings, farmer reports and field profile
  */
 export function useFloodRisk(
     rainfall: number,
     consecutiveRainyDays: number,
-    forecastRainfall: number[] = []
+    forecast: FloodOutlookInputDay[] = [],
+    { antecedentRainfall, waterLevels, floodReports, field }: FloodRiskContext = {}
 ): UseFloodRiskResult {
     return useMemo(() => {
-        const riskResult = calculateFloodRisk(rainfall, consecutiveRainyDays);
+        const forecastRainfall = forecast.map((d) => d.rainfall);
+        const riskResult = calculateFloodRisk({
+            rainfall,
+            consecutiveRainyDays,
+            forecastRainfall,
+            antecedentRainfall,
+            waterLevels,
+            floodReports,
+            field,
+        });
         const tips = getFloodSafetyTips(riskResult.level);
         const trend = calculateRiskTrend(forecastRainfall);
+        const outlook = calculateFloodOutlook(forecast, { antecedentRainfall, waterLevels, floodReports, field });
 
         return {
             ...riskResult,
             tips,
             trend,
+            outlook,
         };
-    }, [rainfall, consecutiveRainyDays, forecastRainfall]);
+    }, [rainfall, consecutiveRainyDays, forecast, antecedentRainfall, waterLevels, floodReports, field]);
 }
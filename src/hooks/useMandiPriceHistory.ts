@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase, MandiPriceHistory } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { aggregateDailyPrices, TrendWindow } from '../lib/mandi-history';
+import { backtestForecast, forecastPrices, isForecastReliable } from '../lib/mandi-forecast';
+
+const NO_HISTORY: MandiPriceHistory[] = [];
+
+// A year and a bit, so the forecast can learn month-of-year seasonality
+const FORECAST_HISTORY_DAYS = 400;
+
+export interface PriceHistoryQuery {
+    commodity: string;
+    market: string;
+    variety?: string;   // all varieties when omitted
+    from: string;       // YYYY-MM-DD, inclusive
+    to: string;         // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Stored mandi prices for a commodity and market between two arrival
+ * dates, oldest first
+ */
+export async function fetchMandiPriceHistory(query: PriceHistoryQuery): Promise<MandiPriceHistory[]> {
+    let request = supabase
+        .from('mandi_price_history')
+        .select('*')
+        .eq('commodity', query.commodity)
+        .eq('market', query.market)
+        .gte('arrival_date', query.from)
+        .lte('arrival_date', query.to);
+
+    if (query.variety) {
+        request = request.eq('variety', query.variety);
+    }
+
+    const { data, error } = await request.order('arrival_date', { ascending: true });
+
+    if (error) {
+        throw new Error('Failed to fetch mandi price history');
+    }
+
+    return data || [];
+}
+
+function getDateDaysAgo(days: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Hook for the 30/90-day price trend of one mandi price entry
+ *
+ * Reads the history the `mandi-prices` edge function archives and folds
+ * it into one min/modal/max point per trading day.
+ */
+export interface PriceHistoryTarget {
+    commodity: string;
+    market: string;
+    variety?: string;
+}
+
+export function useMandiPriceHistory(target: PriceHistoryTarget | null, days: TrendWindow) {
+    const { user } = useAuth();
+
+    const { data: rows = NO_HISTORY, isLoading } = useQuery({
+        queryKey: ['mandi-price-history', target?.commodity, target?.market, target?.variety, days],
+        queryFn: () => fetchMandiPriceHistory({
+            commodity: target!.commodity,
+            market: target!.market,
+            variety: target!.variety,
+            from: getDateDaysAgo(days),
+            to: getDateDaysAgo(0),
+        }),
+        enabled: !!user && !!target,
+        staleTime: 60 * 60 * 1000, // 1 hour
+    });
+
+    const points = useMemo(() => aggregateDailyPrices(rows), [rows]);
+
+    return { points, isLoading };
+}
+
+/**
+ * Hook for the 2–4 week price forecast of one mandi price entry
+ *
+ * Fits `forecastPrices` (seasonal baseline + moving-average trend) on
+ * the last FORECAST_HISTORY_DAYS of archived prices, after backtesting it
+ * on the same prices. The forecast is null until there is enough history,
+ * while the backtest error is too high, and once the latest price is over
+ * a week old.
+ */
+export function useMandiPriceForecast(target: PriceHistoryTarget | null) {
+    const { user } = useAuth();
+
+    const { data: rows = NO_HISTORY, isLoading } = useQuery({
+        queryKey: ['mandi-price-history', target?.commodity, target?.market, target?.variety, FORECAST_HISTORY_DAYS],
+        queryFn: () => fetchMandiPriceHistory({
+            commodity: target!.commodity,
+            market: target!.market,
+            variety: target!.variety,
+            from: getDateDaysAgo(FORECAST_HISTORY_DAYS),
+            to: getDateDaysAgo(0),
+        }),
+        enabled: !!user && !!target,
+        staleTime: 6 * 60 * 60 * 1000, // 6 hours
+    });
+
+    const { forecast, backtest } = useMemo(() => {
+        const points = aggregateDailyPrices(rows);
+        const result = backtestForecast(points);
+        return {
+            forecast: isForecastReliable(result) ? forecastPrices(points) : null,
+            backtest: result,
+        };
+    }, [rows]);
+
+    return { forecast, backtest, isLoading };
+}
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
+import { COMMODITIES } from '../lib/commodities';
 
 interface MandiPrice {
     commodity: string;
@@ -44,19 +45,18 @@ export function useMandiPrices(district: string | undefined, commodity?: string)
     });
 }
 
-// Common commodities list
-export const commodities = [
-    { value: 'rice', label: 'Rice (धान)', labelHi: 'धान', labelTa: 'அரிசி', labelTe: 'బియ్యం' },
-    { value: 'wheat', label: 'Wheat (गेहूं)', labelHi: 'गेहूं', labelTa: 'கோதுமை', labelTe: 'గోధుమ' },
-    { value: 'cotton', label: 'Cotton (कपास)', labelHi: 'कपास', labelTa: 'பருத்தி', labelTe: 'పత్తి' },
-    { value: 'groundnut', label: 'Groundnut (मूंगफली)', labelHi: 'मूंगफली', labelTa: 'நிலக்கடலை', labelTe: 'వేరుశెనగ' },
-    { value: 'onion', label: 'Onion (प्याज)', labelHi: 'प्याज', labelTa: 'வெங்காயம்', labelTe: 'ఉల్లిపాయ' },
-    { value: 'tomato', label: 'Tomato (टमाटर)', labelHi: 'टमाटर', labelTa: 'தக்காளி', labelTe: 'టమాటా' },
-    { value: 'potato', label: 'Potato (आलू)', labelHi: 'आलू', labelTa: 'உருளைக்கிழங்கு', labelTe: 'బంగాళదుంప' },
-    { value: 'sugarcane', label: 'Sugarcane (गन्ना)', labelHi: 'गन्ना', labelTa: 'கரும்பு', labelTe: 'చెరకు' },
-    { value: 'maize', label: 'Maize (मक्का)', labelHi: 'मक्का', labelTa: 'மக்காச்சோளம்', labelTe: 'మొక్కజొన్న' },
-    { value: 'soybean', label: 'Soybean (सोयाबीन)', labelHi: 'सोयाबीन', labelTa: 'சோயாபீன்', labelTe: 'సోయాబీన్' },
-];
+// Common commodities list, from the shared commodity dictionary
+const COMMON_COMMODITY_IDS = ['rice', 'wheat', 'cotton', 'groundnut', 'onion', 'tomato', 'potato', 'sugarcane', 'maize', 'soybean'];
+
+export const commodities = COMMODITIES
+    .filter((commodity) => COMMON_COMMODITY_IDS.includes(commodity.id))
+    .map((commodity) => ({
+        value: commodity.agmarknetName,
+        label: `${commodity.labels.en} (${commodity.labels.hi})`,
+        labelHi: commodity.labels.hi,
+        labelTa: commodity.labels.ta,
+        labelTe: commodity.labels.te,
+    }));
 
 // Mock data for development/fallback
 export function getMockMandiPrices(district: string): MandiPriceResponse {
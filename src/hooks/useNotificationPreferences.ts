@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, NotificationPreferences } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { AlertPreferences, toAlertPreferences } from '../lib/alert-preferences';
+
+export type ChannelSettings = Pick<NotificationPreferences, 'phone_number' | 'sms_enabled' | 'whatsapp_enabled'>;
+
+async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error('Failed to fetch notification preferences');
+    }
+
+    return data;
+}
+
+async function saveNotificationPreferences(userId: string, settings: ChannelSettings): Promise<void> {
+    const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+            user_id: userId,
+            phone_number: settings.phone_number,
+            sms_enabled: settings.sms_enabled,
+            whatsapp_enabled: settings.whatsapp_enabled,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+    if (error) {
+        console.error('Failed to save notification preferences:', error);
+        throw error;
+    }
+}
+
+async function callPhoneVerification(body: { action: 'send' | 'verify'; phoneNumber: string; code?: string }): Promise<void> {
+    const { error } = await supabase.functions.invoke('phone-verification', { body });
+
+    if (error) {
+        console.error('Phone verification failed:', error);
+        throw new Error(error.message || 'Phone verification failed');
+    }
+}
+
+async function saveAlertSubscription(userId: string, settings: AlertPreferences): Promise<void> {
+    const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+            user_id: userId,
+            muted_alert_types: settings.mutedTypes,
+            min_severity: settings.minSeverity,
+            quiet_hours_start: settings.quietHoursStart,
+            quiet_hours_end: settings.quietHoursEnd,
+            time_zone: settings.timeZone,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+    if (error) {
+        console.error('Failed to save alert preferences:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook for the user's alert channels and subscription preferences
+ * (stored in `notification_preferences`, one row per user). SMS /
+ * WhatsApp settings are read by `alert-messenger` and only take effect
+ * once the number is verified with a texted code; `alertPreferences`
+ * (muted types, minimum severity, quiet hours) is honoured by the
+ * Dashboard and every edge function that creates or delivers alerts.
+ */
+export function useNotificationPreferences() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const { data: preferences = null, isLoading } = useQuery({
+        queryKey: ['notification-preferences', user?.id],
+        queryFn: () => fetchNotificationPreferences(user!.id),
+        enabled: !!user,
+    });
+
+    const alertPreferences = useMemo(() => toAlertPreferences(preferences), [preferences]);
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['notification-preferences', user?.id] });
+
+    const saveMutation = useMutation({
+        mutationFn: async (settings: ChannelSettings) => {
+            if (!user) throw new Error('User not authenticated');
+            await saveNotificationPreferences(user.id, settings);
+        },
+        onSuccess: invalidate,
+    });
+
+    const sendCodeMutation = useMutation({
+        mutationFn: (phoneNumber: string) => callPhoneVerification({ action: 'send', phoneNumber }),
+    });
+
+    const verifyMutation = useMutation({
+        mutationFn: ({ phoneNumber, code }: { phoneNumber: string; code: string }) =>
+            callPhoneVerification({ action: 'verify', phoneNumber, code }),
+        onSuccess: invalidate,
+    });
+
+    const subscriptionMutation = useMutation({
+        mutationFn: async (settings: AlertPreferences) => {
+            if (!user) throw new Error('User not authenticated');
+            await saveAlertSubscription(user.id, settings);
+        },
+        onSuccess: invalidate,
+    });
+
+    return {
+        preferences,
+        alertPreferences,
+        isLoading,
+        savePreferences: saveMutation.mutateAsync,
+        isSaving: saveMutation.isPending,
+        sendVerificationCode: sendCodeMutation.mutateAsync,
+        isSendingCode: sendCodeMutation.isPending,
+        verifyPhone: verifyMutation.mutateAsync,
+        isVerifying: verifyMutation.isPending,
+        saveAlertPreferences: subscriptionMutation.mutateAsync,
+        isSavingAlertPreferences: subscriptionMutation.isPending,
+    };
+}
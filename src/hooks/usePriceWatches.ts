@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, PriceWatch } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { PriceWatchCondition } from '../lib/price-watch';
+
+const NO_WATCHES: PriceWatch[] = [];
+
+async function fetchPriceWatches(userId: string): Promise<PriceWatch[]> {
+    const { data, error } = await supabase
+        .from('price_watches')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error('Failed to fetch price watches');
+    }
+
+    return data || [];
+}
+
+async function insertPriceWatch(userId: string, watch: PriceWatchCondition): Promise<void> {
+    const { error } = await supabase
+        .from('price_watches')
+        .insert({
+            user_id: userId,
+            commodity: watch.commodity.trim(),
+            market: watch.market.trim(),
+            direction: watch.direction,
+            threshold: watch.threshold,
+        });
+
+    if (error) {
+        console.error('Failed to add price watch:', error);
+        throw error;
+    }
+}
+
+async function deletePriceWatch(userId: string, watchId: string): Promise<void> {
+    const { error } = await supabase
+        .from('price_watches')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', watchId);
+
+    if (error) {
+        console.error('Failed to remove price watch:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook for the user's mandi price watches
+ *
+ * The scheduled `price-watcher` edge function checks active watches and
+ * stores a `price` alert when a modal price crosses the threshold.
+ */
+export function usePriceWatches() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const { data: watches = NO_WATCHES, isLoading } = useQuery({
+        queryKey: ['price-watches', user?.id],
+        queryFn: () => fetchPriceWatches(user!.id),
+        enabled: !!user,
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['price-watches', user?.id] });
+
+    const addMutation = useMutation({
+        mutationFn: async (watch: PriceWatchCondition) => {
+            if (!user) throw new Error('User not authenticated');
+            await insertPriceWatch(user.id, watch);
+        },
+        onSuccess: invalidate,
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: async (watchId: string) => {
+            if (!user) throw new Error('User not authenticated');
+            await deletePriceWatch(user.id, watchId);
+        },
+        onSuccess: invalidate,
+    });
+
+    return {
+        watches,
+        isLoading,
+        addWatch: addMutation.mutateAsync,
+        removeWatch: removeMutation.mutate,
+        isSaving: addMutation.isPending,
+    };
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+    getPushSubscription,
+    isPushSupported,
+    subscribeToPush,
+    unsubscribeFromPush,
+} from '../lib/push';
+
+async function saveSubscription(userId: string): Promise<void> {
+    const subscription = await subscribeToPush();
+
+    // One row per browser; re-subscribing moves the endpoint to the current user
+    const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert(
+            {
+                user_id: userId,
+                endpoint: subscription.endpoint,
+                p256dh: subscription.p256dh,
+                auth: subscription.auth,
+                user_agent: navigator.userAgent,
+            },
+            { onConflict: 'endpoint' }
+        );
+
+    if (error) {
+        console.error('Failed to save push subscription:', error);
+        throw error;
+    }
+}
+
+async function removeSubscription(userId: string): Promise<void> {
+    const endpoint = await unsubscribeFromPush();
+    if (!endpoint) return;
+
+    const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('endpoint', endpoint);
+
+    if (error) {
+        console.error('Failed to remove push subscription:', error);
+        throw error;
+    }
+}
+
+/**
+ * Hook for Web Push on this browser
+ *
+ * High-severity alerts are pushed by the `push-sender` edge function to
+ * every subscription stored for the user in `push_subscriptions`.
+ */
+export function usePushNotifications() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const isSupported = isPushSupported();
+    const queryKey = ['push-subscription', user?.id];
+
+    const { data: isSubscribed = false, isLoading } = useQuery({
+        queryKey,
+        queryFn: async () => !!(await getPushSubscription()),
+        enabled: !!user && isSupported,
+    });
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+    const subscribeMutation = useMutation({
+        mutationFn: async () => {
+            if (!user) throw new Error('User not authenticated');
+            await saveSubscription(user.id);
+        },
+        onSettled: invalidate,
+    });
+
+    const unsubscribeMutation = useMutation({
+        mutationFn: async () => {
+            if (!user) throw new Error('User not authenticated');
+            await removeSubscription(user.id);
+        },
+        onSettled: invalidate,
+    });
+
+    return {
+        isSupported,
+        permission: isSupported ? Notification.permission : 'denied',
+        isSubscribed,
+        isLoading,
+        subscribe: subscribeMutation.mutateAsync,
+        unsubscribe: unsubscribeMutation.mutateAsync,
+        isUpdating: subscribeMutation.isPending || unsubscribeMutation.isPending,
+    };
+}
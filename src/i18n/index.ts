@@ -14,11 +14,20 @@ export const translations = {
 
 export type TranslationKeys = typeof en;
 
+export type TranslationParams = Record<string, string | number>;
+
 /**
- * Get nested translation value by dot-notation key
- * Example: getTranslation('en', 'landing.hero.title')
+ * Get nested translation value by dot-notation key, filling `{name}`
+ * placeholders from params
+ * Example: getTranslation('en', 'alerts.policy.persisted', { days: 3 })
  */
-export function getTranslation(lang: Language, key: string): string {
+export function getTranslation(lang: Language, key: string, params?: TranslationParams): string {
+    const template = lookupTranslation(lang, key);
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+function lookupTranslation(lang: Language, key: string): string {
     const keys = key.split('.');
     let value: unknown = translations[lang];
 
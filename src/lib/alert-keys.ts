@@ -0,0 +1,24 @@
+/**
+ * Per-day alert keys
+ *
+ * Alerts are stored under `<date>:<location>:<alert id>`, so an alert is
+ * stored once a day whoever generates it first: the Dashboard, the
+ * scheduled evaluator or the price watcher. The day is the Indian
+ * calendar day for everyone, whatever the browser's time zone.
+ * This module has no imports so edge functions can build the same keys.
+ */
+
+// Alert day boundary (farmers are in India)
+const ALERT_TIME_ZONE = 'Asia/Kolkata';
+
+export function getDateKey(date: Date = new Date()): string {
+    // en-CA formats as YYYY-MM-DD
+    return date.toLocaleDateString('en-CA', { timeZone: ALERT_TIME_ZONE });
+}
+
+/**
+ * Stable per-day key: the same alert for the same location is stored once a day
+ */
+export function buildAlertKey(alertId: string, location: string, date: Date = new Date()): string {
+    return `${getDateKey(date)}:${location}:${alertId}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Alert Policy Layer
+ *
+ * Sits between the rule engine (`generateSmartAlerts`, or the rule set
+ * evaluated server-side) and storage/notification. Given the alerts that
+ * fire now and the alerts already stored for a location, it decides:
+ *
+ * - DEDUPE / COOLDOWN: an alert stored under an earlier key (an earlier
+ *   day) within its cooldown window is suppressed, so the same advice
+ *   isn't stored or pushed again on every refresh.
+ * - ESCALATION: when a condition persists (its alerts stay unresolved)
+ *   for `afterDays`, a notice with a higher severity replaces it, e.g.
+ *   MEDIUM flood risk for 3 days -> HIGH.
+ * - AUTO-RESOLVE: stored alerts whose condition no longer fires are
+ *   resolved; an alert stored today that fires again is reopened.
+ *
+ * Alert ids are the engine ids (rule id, `water-level-<station>`, ...).
+ * This module has no imports so edge functions can apply the same policy.
+ */
+
+type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export interface PolicyAlert {
+    id: string;
+    severity: Severity;
+    cooldownHours?: number; // overrides the policy default; 0 = never suppressed
+}
+
+/**
+ * A stored alert for the same user and location
+ */
+export interface AlertHistoryEntry {
+    id: string;             // engine alert id
+    key: string;            // stored alert_key
+    severity: Severity;
+    createdAt: string;
+    resolvedAt: string | null;
+}
+
+export interface EscalationRule {
+    alertId: string;        // exact id, or a prefix ending in '*'
+    afterDays: number;      // escalate on this day of an unresolved episode
+    severity: Severity;
+}
+
+export interface AlertPolicy {
+    defaultCooldownHours: number;
+    escalations: EscalationRule[];
+}
+
+export interface AlertEscalation {
+    fromSeverity: Severity;
+    days: number;           // day of the episode (1 = first day)
+}
+
+export interface AlertPolicyOptions {
+    policy?: AlertPolicy;
+    now?: Date;
+    keyFor: (alertId: string) => string; // key an alert is stored under now
+    resolvableIds?: (alertId: string) => boolean; // which stored alerts this caller evaluated
+}
+
+export interface AlertPolicyDecision<T extends PolicyAlert> {
+    active: Array<T & { escalation?: AlertEscalation }>; // show, store and notify
+    suppressed: T[];        // in cooldown; already stored under an earlier key
+    resolveKeys: string[];  // stored alerts whose condition cleared
+    reopenKeys: string[];   // resolved earlier today, firing again
+}
+
+const ESCALATED_SUFFIX = '-escalated';
+
+const SEVERITY_RANK: Record<Severity, number> = {
+    info: 0,
+    low: 1,
+    medium: 2,
+    high: 3,
+    critical: 4,
+};
+
+export const DEFAULT_ALERT_POLICY: AlertPolicy = {
+    defaultCooldownHours: 12,
+    escalations: [
+        // Flood caution for 3 days -> HIGH
+        { alertId: 'flood-caution', afterDays: 3, severity: 'high' },
+        // A gauge above its warning mark for 2 days -> HIGH
+        { alertId: 'water-level-*', afterDays: 2, severity: 'high' },
+        // Dry and hot for 4 days -> stronger irrigation advice
+        { alertId: 'irrigation-needed', afterDays: 4, severity: 'medium' },
+    ],
+};
+
+/**
+ * Engine id of an alert, without the escalation suffix
+ */
+export function getBaseAlertId(alertId: string): string {
+    return alertId.endsWith(ESCALATED_SUFFIX) ? alertId.slice(0, -ESCALATED_SUFFIX.length) : alertId;
+}
+
+function matchesAlertId(pattern: string, alertId: string): boolean {
+    return pattern.endsWith('*') ? alertId.startsWith(pattern.slice(0, -1)) : pattern === alertId;
+}
+
+/**
+ * Day of the current episode: 1 on the day the earliest unresolved alert
+ * was stored (or today, when nothing is stored yet)
+ */
+function getEpisodeDay(open: AlertHistoryEntry[], now: Date): number {
+    if (open.length === 0) return 1;
+    const start = Math.min(...open.map((entry) => Date.parse(entry.createdAt)));
+    return Math.floor((now.getTime() - start) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Apply dedupe, cooldown, escalation and auto-resolve to the alerts firing now
+ */
+export function applyAlertPolicy<T extends PolicyAlert>(
+    alerts: T[],
+    history: AlertHistoryEntry[],
+    { policy = DEFAULT_ALERT_POLICY, now = new Date(), keyFor, resolvableIds = () => true }: AlertPolicyOptions
+): AlertPolicyDecision<T> {
+    const active: AlertPolicyDecision<T>['active'] = [];
+    const suppressed: T[] = [];
+    const reopenKeys: string[] = [];
+    const firing = new Set(alerts.map((alert) => alert.id));
+
+    for (const alert of alerts) {
+        const entries = history.filter((entry) => getBaseAlertId(entry.id) === alert.id);
+        const open = entries.filter((entry) => !entry.resolvedAt);
+
+        // Escalate a condition that has persisted long enough
+        const days = getEpisodeDay(open, now);
+        const escalation = policy.escalations.find((rule) =>
+            matchesAlertId(rule.alertId, alert.id) &&
+            days >= rule.afterDays &&
+            SEVERITY_RANK[rule.severity] > SEVERITY_RANK[alert.severity]
+        );
+        const candidate = escalation
+            ? { ...alert, id: `${alert.id}${ESCALATED_SUFFIX}`, severity: escalation.severity, escalation: { fromSeverity: alert.severity, days } }
+            : alert;
+
+        const key = keyFor(candidate.id);
+        const current = entries.find((entry) => entry.key === key);
+
+        // Already stored under today's key: same alert, not a repeat
+        if (current) {
+            if (current.resolvedAt) reopenKeys.push(current.key);
+            active.push(candidate);
+            continue;
+        }
+
+        const cooldownHours = alert.cooldownHours ?? policy.defaultCooldownHours;
+        const cooldownStart = now.getTime() - cooldownHours * 60 * 60 * 1000;
+        const isRepeat = entries.some((entry) =>
+            entry.id === candidate.id && Date.parse(entry.createdAt) > cooldownStart
+        );
+
+        if (isRepeat) {
+            suppressed.push(alert);
+        } else {
+            active.push(candidate);
+        }
+    }
+
+    // Conditions that cleared resolve every open alert they left behind
+    const resolveKeys = history
+        .filter((entry) => !entry.resolvedAt)
+        .filter((entry) => resolvableIds(getBaseAlertId(entry.id)) && !firing.has(getBaseAlertId(entry.id)))
+        .map((entry) => entry.key);
+
+    return { active, suppressed, resolveKeys, reopenKeys };
+}
@@ -0,0 +1,125 @@
+/**
+ * Alert Subscription Preferences
+ *
+ * Each user chooses which alert types they receive, a minimum severity,
+ * and quiet hours during which push / SMS / WhatsApp are held back. HIGH
+ * (or critical) flood alerts always get through, whatever the settings.
+ *
+ * Filters (types, severity) decide whether an alert is shown or stored
+ * at all; quiet hours only delay notifications until they end, the alert
+ * is in the app at once. Used by the Dashboard and by the edge functions that create
+ * and deliver alerts, so this module has no imports.
+ */
+
+type AlertTypeName = 'WEATHER' | 'HARVEST' | 'IRRIGATE' | 'DISEASE' | 'FLOOD' | 'PRICE' | 'GENERAL';
+type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export type DeliveryChannel = 'app' | 'push' | 'sms' | 'whatsapp';
+
+export interface AlertPreferences {
+    mutedTypes: AlertTypeName[];
+    minSeverity: 'low' | 'medium' | 'high' | 'critical';
+    quietHoursStart: string | null; // 'HH:MM' local time
+    quietHoursEnd: string | null;   // 'HH:MM'; may be earlier than start (overnight)
+    timeZone: string;               // IANA zone the quiet hours are in
+}
+
+export interface FilterableAlert {
+    type: AlertTypeName | null;
+    severity: Severity;
+}
+
+/**
+ * Preference columns of a `notification_preferences` row
+ */
+export interface AlertPreferencesRow {
+    muted_alert_types: string[] | null;
+    min_severity: AlertPreferences['minSeverity'] | null;
+    quiet_hours_start: string | null; // 'HH:MM:SS'
+    quiet_hours_end: string | null;
+    time_zone: string | null;
+}
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+    mutedTypes: [],
+    minSeverity: 'low',
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: 'Asia/Kolkata',
+};
+
+/**
+ * Preferences from a stored row; users without a row get the defaults
+ */
+export function toAlertPreferences(row: AlertPreferencesRow | null | undefined): AlertPreferences {
+    if (!row) return DEFAULT_ALERT_PREFERENCES;
+    return {
+        mutedTypes: (row.muted_alert_types || []) as AlertTypeName[],
+        minSeverity: row.min_severity || DEFAULT_ALERT_PREFERENCES.minSeverity,
+        quietHoursStart: row.quiet_hours_start?.slice(0, 5) || null,
+        quietHoursEnd: row.quiet_hours_end?.slice(0, 5) || null,
+        timeZone: row.time_zone || DEFAULT_ALERT_PREFERENCES.timeZone,
+    };
+}
+
+// 'info' advisories count as low
+const SEVERITY_RANK: Record<Severity, number> = {
+    info: 1,
+    low: 1,
+    medium: 2,
+    high: 3,
+    critical: 4,
+};
+
+/**
+ * HIGH / critical flood alerts bypass every preference
+ */
+export function isAlwaysAllowed(alert: FilterableAlert): boolean {
+    return alert.type === 'FLOOD' && SEVERITY_RANK[alert.severity] >= SEVERITY_RANK.high;
+}
+
+/**
+ * True when the user wants this alert at all (type and minimum severity)
+ */
+export function passesAlertFilters(alert: FilterableAlert, preferences: AlertPreferences): boolean {
+    if (isAlwaysAllowed(alert)) return true;
+    if (alert.type && preferences.mutedTypes.includes(alert.type)) return false;
+    return SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[preferences.minSeverity];
+}
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+}
+
+/**
+ * True when `now` falls inside the user's quiet hours (in their time zone)
+ */
+export function isInQuietHours(preferences: AlertPreferences, now: Date = new Date()): boolean {
+    const { quietHoursStart, quietHoursEnd, timeZone } = preferences;
+    if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) return false;
+
+    const local = now.toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false });
+    const current = toMinutes(local);
+    const start = toMinutes(quietHoursStart);
+    const end = toMinutes(quietHoursEnd);
+
+    // Overnight window (e.g. 22:00-06:00) wraps past midnight
+    return start < end
+        ? current >= start && current < end
+        : current >= start || current < end;
+}
+
+/**
+ * Whether an alert may go out on a channel right now
+ */
+export function shouldDeliver(
+    alert: FilterableAlert,
+    preferences: AlertPreferences,
+    channel: DeliveryChannel,
+    now: Date = new Date()
+): boolean {
+    if (!passesAlertFilters(alert, preferences)) return false;
+    if (channel === 'app' || isAlwaysAllowed(alert)) return true;
+    return !isInQuietHours(preferences, now);
+}
@@ -0,0 +1,340 @@
+/**
+ * Declarative Smart Alert Rules
+ *
+ * Each rule is plain data (it can be loaded from JSON) describing when an
+ * alert fires and what it says. Agronomists can add or tune rules without
+ * touching the engine in `alerts-engine.ts`.
+ *
+ * RULE SHAPE:
+ * - when: a condition group; `all` = every entry must hold, `any` = at
+ *   least one must. Groups nest.
+ * - condition: { fact, op, value } evaluated against today's facts
+ *   (weather, crop, growth stage, flood risk level)
+ * - titleKey / messageKey / actionKey: i18n keys for the alert text
+ * - cooldownHours: minimum gap before the same rule fires again
+ *
+ * This module has no imports so the scheduled `alert-evaluator` edge
+ * function can evaluate the same rules server-side.
+ */
+
+export type AlertType = 'WEATHER' | 'HARVEST' | 'IRRIGATE' | 'DISEASE' | 'FLOOD' | 'PRICE' | 'GENERAL';
+export type AlertSeverity = 'high' | 'medium' | 'low' | 'info';
+
+export type AlertFact =
+    | 'rainfall'       // current rainfall (mm)
+    | 'humidity'       // current relative humidity (%)
+    | 'temperature'    // current temperature (°C)
+    | 'windSpeed'      // current wind speed
+    | 'condition'      // weather condition text, e.g. "Rain", "Thunderstorm"
+    | 'crop'           // selected crop, or null
+    | 'stage'          // confirmed crop stage, or null
+    | 'floodRiskLevel'; // LOW | MEDIUM | HIGH
+
+export type ConditionOperator =
+    | 'gt' | 'gte' | 'lt' | 'lte'   // numeric comparison
+    | 'eq' | 'neq'                  // equality (strings compare case-insensitively)
+    | 'in'                          // fact is one of value[]
+    | 'includes' | 'excludes'       // fact text contains / does not contain value
+    | 'exists';                     // fact is set (crop, stage)
+
+export interface RuleCondition {
+    fact: AlertFact;
+    op: ConditionOperator;
+    value?: number | string | string[];
+}
+
+export interface RuleConditionGroup {
+    all?: RuleNode[];
+    any?: RuleNode[];
+}
+
+export type RuleNode = RuleCondition | RuleConditionGroup;
+
+export interface AlertRule {
+    id: string;
+    type: AlertType;
+    severity: AlertSeverity;
+    when: RuleConditionGroup;
+    titleKey: string;
+    messageKey: string;
+    actionKey?: string;
+    dismissible: boolean;
+    cooldownHours?: number;
+    enabled?: boolean; // defaults to true
+}
+
+export type AlertFacts = Record<AlertFact, number | string | null>;
+
+/**
+ * Outcome of evaluating one rule; `firedConditions` lists the leaf
+ * conditions that held, in readable form (e.g. "humidity > 75 (82)")
+ */
+export interface RuleEvaluation {
+    matched: boolean;
+    firedConditions: string[];
+}
+
+const OPERATOR_SYMBOLS: Record<ConditionOperator, string> = {
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+    eq: '=',
+    neq: '!=',
+    in: 'in',
+    includes: 'includes',
+    excludes: 'excludes',
+    exists: 'is set',
+};
+
+const FACTS: AlertFact[] = ['rainfall', 'humidity', 'temperature', 'windSpeed', 'condition', 'crop', 'stage', 'floodRiskLevel'];
+
+/**
+ * Default rule set: the original five Smart Alert rules
+ * (flood risk is split into its HIGH and MEDIUM variants)
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+    // 🌧️ Rain or high humidity washes out fertilizer
+    {
+        id: 'weather-fertilizer',
+        type: 'WEATHER',
+        severity: 'medium',
+        when: {
+            any: [
+                { fact: 'rainfall', op: 'gt', value: 0 },
+                { fact: 'condition', op: 'includes', value: 'rain' },
+                { fact: 'humidity', op: 'gt', value: 75 },
+            ],
+        },
+        titleKey: 'alerts.rules.weatherFertilizer.title',
+        messageKey: 'alerts.rules.weatherFertilizer.message',
+        actionKey: 'alerts.rules.weatherFertilizer.action',
+        dismissible: true,
+        cooldownHours: 24,
+    },
+    // 🧺 Mature crop and dry, stable weather
+    {
+        id: 'harvest-window',
+        type: 'HARVEST',
+        severity: 'low',
+        when: {
+            all: [
+                { fact: 'crop', op: 'exists' },
+                { fact: 'stage', op: 'in', value: ['Maturity', 'Harvest'] },
+                { fact: 'rainfall', op: 'lte', value: 0 },
+                { fact: 'condition', op: 'excludes', value: 'rain' },
+                { fact: 'humidity', op: 'lt', value: 65 },
+                { fact: 'condition', op: 'neq', value: 'Thunderstorm' },
+            ],
+        },
+        titleKey: 'alerts.rules.harvestWindow.title',
+        messageKey: 'alerts.rules.harvestWindow.message',
+        actionKey: 'alerts.rules.harvestWindow.action',
+        dismissible: true,
+        cooldownHours: 24,
+    },
+    // 🚿 No rain and warm
+    {
+        id: 'irrigation-needed',
+        type: 'IRRIGATE',
+        severity: 'info',
+        when: {
+            all: [
+                { fact: 'rainfall', op: 'lte', value: 0 },
+                { fact: 'condition', op: 'excludes', value: 'rain' },
+                { fact: 'temperature', op: 'gte', value: 28 },
+            ],
+        },
+        titleKey: 'alerts.rules.irrigationNeeded.title',
+        messageKey: 'alerts.rules.irrigationNeeded.message',
+        actionKey: 'alerts.rules.irrigationNeeded.action',
+        dismissible: true,
+        cooldownHours: 24,
+    },
+    // 🧪 Flowering in very humid air
+    {
+        id: 'disease-watch',
+        type: 'DISEASE',
+        severity: 'high',
+        when: {
+            all: [
+                { fact: 'crop', op: 'exists' },
+                { fact: 'stage', op: 'eq', value: 'Flowering' },
+                { fact: 'humidity', op: 'gt', value: 80 },
+            ],
+        },
+        titleKey: 'alerts.rules.diseaseWatch.title',
+        messageKey: 'alerts.rules.diseaseWatch.message',
+        actionKey: 'alerts.rules.diseaseWatch.action',
+        dismissible: true,
+        cooldownHours: 24,
+    },
+    // 🌊 Flood risk HIGH
+    {
+        id: 'flood-critical',
+        type: 'FLOOD',
+        severity: 'high',
+        when: { all: [{ fact: 'floodRiskLevel', op: 'eq', value: 'HIGH' }] },
+        titleKey: 'alerts.rules.floodCritical.title',
+        messageKey: 'alerts.rules.floodCritical.message',
+        actionKey: 'alerts.rules.floodCritical.action',
+        dismissible: false,
+    },
+    // 🌊 Flood risk MEDIUM
+    {
+        id: 'flood-caution',
+        type: 'FLOOD',
+        severity: 'medium',
+        when: { all: [{ fact: 'floodRiskLevel', op: 'eq', value: 'MEDIUM' }] },
+        titleKey: 'alerts.rules.floodCaution.title',
+        messageKey: 'alerts.rules.floodCaution.message',
+        actionKey: 'alerts.rules.floodCaution.action',
+        dismissible: true,
+        cooldownHours: 12,
+    },
+];
+
+/**
+ * Dashboard card each alert type deep-links to
+ * (notification center and push notifications)
+ */
+export const ALERT_TYPE_TARGETS: Record<AlertType, string> = {
+    WEATHER: '/dashboard#weather',
+    HARVEST: '/dashboard#calendar',
+    IRRIGATE: '/dashboard#calendar',
+    DISEASE: '/dashboard#calendar',
+    FLOOD: '/dashboard#flood',
+    PRICE: '/dashboard#mandi',
+    GENERAL: '/dashboard',
+};
+
+/**
+ * Deep link for a stored alert; price alerts stored without an engine
+ * type still open the mandi card
+ */
+export function getAlertTarget(alertType: AlertType | null, storedType?: string): string {
+    if (storedType === 'price') return '/dashboard#mandi';
+    return ALERT_TYPE_TARGETS[alertType ?? 'GENERAL'];
+}
+
+/**
+ * Engine type of a stored alert; rows written without one fall back on
+ * their storage `type`
+ */
+export function getStoredAlertType(alertType: AlertType | null, storedType?: string): AlertType {
+    if (alertType) return alertType;
+    if (storedType === 'flood') return 'FLOOD';
+    if (storedType === 'weather') return 'WEATHER';
+    if (storedType === 'price') return 'PRICE';
+    return 'GENERAL';
+}
+
+function isGroup(node: RuleNode): node is RuleConditionGroup {
+    return 'all' in node || 'any' in node;
+}
+
+function normalize(value: number | string | null): string {
+    return String(value ?? '').toLowerCase();
+}
+
+function describeCondition(condition: RuleCondition, actual: number | string | null): string {
+    const expected = Array.isArray(condition.value) ? `[${condition.value.join(', ')}]` : condition.value;
+    const parts = [condition.fact, OPERATOR_SYMBOLS[condition.op]];
+    if (expected !== undefined) parts.push(String(expected));
+    return `${parts.join(' ')} (${actual ?? 'none'})`;
+}
+
+/**
+ * Evaluate a single leaf condition against the facts
+ */
+export function evaluateCondition(condition: RuleCondition, facts: AlertFacts): boolean {
+    const actual = facts[condition.fact];
+    const { value } = condition;
+
+    switch (condition.op) {
+        case 'gt': return typeof actual === 'number' && actual > Number(value);
+        case 'gte': return typeof actual === 'number' && actual >= Number(value);
+        case 'lt': return typeof actual === 'number' && actual < Number(value);
+        case 'lte': return typeof actual === 'number' && actual <= Number(value);
+        case 'eq': return normalize(actual) === normalize(value as string | number);
+        case 'neq': return normalize(actual) !== normalize(value as string | number);
+        case 'in': return Array.isArray(value) && value.some((v) => normalize(v) === normalize(actual));
+        case 'includes': return normalize(actual).includes(normalize(value as string));
+        case 'excludes': return !normalize(actual).includes(normalize(value as string));
+        case 'exists': return actual !== null && actual !== '';
+    }
+}
+
+function evaluateNode(node: RuleNode, facts: AlertFacts, fired: string[]): boolean {
+    if (!isGroup(node)) {
+        const matched = evaluateCondition(node, facts);
+        if (matched) fired.push(describeCondition(node, facts[node.fact]));
+        return matched;
+    }
+
+    // Evaluate every child (no short-circuit) so all firing conditions are reported
+    const allResults = (node.all || []).map((child) => evaluateNode(child, facts, fired));
+    const anyResults = (node.any || []).map((child) => evaluateNode(child, facts, fired));
+
+    return allResults.every(Boolean) && (anyResults.length === 0 || anyResults.some(Boolean));
+}
+
+/**
+ * Evaluate a rule's condition tree
+ */
+export function evaluateRule(rule: AlertRule, facts: AlertFacts): RuleEvaluation {
+    const firedConditions: string[] = [];
+    const matched = evaluateNode(rule.when, facts, firedConditions);
+    return { matched, firedConditions: matched ? firedConditions : [] };
+}
+
+/**
+ * True while the rule is still cooling down from its last firing
+ */
+export function isInCooldown(rule: AlertRule, lastFiredAt: string | undefined, now: Date = new Date()): boolean {
+    if (!rule.cooldownHours || !lastFiredAt) return false;
+    return now.getTime() - Date.parse(lastFiredAt) < rule.cooldownHours * 60 * 60 * 1000;
+}
+
+function validateNode(node: unknown, path: string): void {
+    if (!node || typeof node !== 'object') {
+        throw new Error(`${path} must be an object`);
+    }
+
+    const record = node as Record<string, unknown>;
+    if ('all' in record || 'any' in record) {
+        for (const key of ['all', 'any'] as const) {
+            if (record[key] === undefined) continue;
+            if (!Array.isArray(record[key])) throw new Error(`${path}.${key} must be an array`);
+            (record[key] as unknown[]).forEach((child, i) => validateNode(child, `${path}.${key}[${i}]`));
+        }
+        return;
+    }
+
+    if (!FACTS.includes(record.fact as AlertFact)) {
+        throw new Error(`${path}.fact "${String(record.fact)}" is not a known fact`);
+    }
+    if (!(String(record.op) in OPERATOR_SYMBOLS)) {
+        throw new Error(`${path}.op "${String(record.op)}" is not a known operator`);
+    }
+}
+
+/**
+ * Validate rules loaded from JSON before handing them to the engine
+ */
+export function parseAlertRules(json: unknown): AlertRule[] {
+    if (!Array.isArray(json)) {
+        throw new Error('Alert rules must be an array');
+    }
+
+    json.forEach((rule, i) => {
+        const path = `rules[${i}]`;
+        if (!rule || typeof rule !== 'object') throw new Error(`${path} must be an object`);
+        for (const field of ['id', 'type', 'severity', 'titleKey', 'messageKey'] as const) {
+            if (typeof rule[field] !== 'string') throw new Error(`${path}.${field} is required`);
+        }
+        validateNode(rule.when, `${path}.when`);
+    });
+
+    return json as AlertRule[];
+}
@@ -1,18 +1,125 @@
-import { WeatherData } from './api';
+import { WeatherData, WaterLevelReading } from './api';
 import { CropStage } from './crop-calendar-logic';
+import { FloodReportSignal, getFloodSignalAlerts } from './flood-risk';
+import { getTranslation, Language, TranslationParams } from '../i18n';
+import {
+    AlertRule,
+    AlertFacts,
+    AlertType,
+    AlertSeverity,
+    DEFAULT_ALERT_RULES,
+    evaluateRule,
+    isInCooldown,
+} from './alert-rules';
+import type { AlertEscalation } from './alert-policy';
 
-export type AlertType = 'WEATHER' | 'HARVEST' | 'IRRIGATE' | 'DISEASE' | 'FLOOD' | 'GENERAL';
-export type AlertSeverity = 'high' | 'medium' | 'low' | 'info';
+export type { AlertType, AlertSeverity } from './alert-rules';
 
 export interface SmartAlert {
     id: string;
     type: AlertType;
     severity: AlertSeverity;
-    title: string;
+    title: string;               // resolved in the requested language
     message: string;
     action?: string;
+    titleKey: string;            // i18n keys + params, to re-resolve in another language
+    messageKey: string;
+    actionKey?: string;
+    params?: TranslationParams;
     dismissible: boolean;
     isGeneralAdvisory?: boolean;
+    ruleId?: string;             // declarative rule that produced the alert
+    firedConditions?: string[];  // conditions of that rule that held
+    cooldownHours?: number;      // for the policy layer; 0 = safety alert, never suppressed
+    escalation?: AlertEscalation; // set by the policy layer when a condition persists
+}
+
+export interface SmartAlertOptions {
+    rules?: AlertRule[];                  // defaults to DEFAULT_ALERT_RULES
+    lastFiredAt?: Record<string, string>; // rule id -> ISO time it last fired (for cooldowns)
+    now?: Date;
+    limit?: number;                       // alert budget (default 4; flood and disease alerts always kept)
+    language?: Language;                  // language of title/message/action (default 'en')
+}
+
+// Alerts shown per day before the rest collapse behind "+N more"
+export const MAX_ALERTS_PER_DAY = 4;
+
+// Never dropped or collapsed, whatever the budget
+const PROTECTED_ALERT_TYPES: AlertType[] = ['FLOOD', 'DISEASE'];
+
+const SEVERITY_SCORE: Record<AlertSeverity, number> = {
+    high: 300,
+    medium: 200,
+    low: 100,
+    info: 0,
+};
+
+// How quickly the farmer has to act (flood: now; rain: before spraying today)
+const TIME_SENSITIVITY: Record<AlertType, number> = {
+    FLOOD: 30,
+    WEATHER: 20,
+    HARVEST: 20,
+    DISEASE: 10,
+    IRRIGATE: 10,
+    PRICE: 10,
+    GENERAL: 0,
+};
+
+// Alert types that matter most at each crop stage
+const STAGE_RELEVANCE: Record<CropStage, AlertType[]> = {
+    Preparation: ['WEATHER'],
+    Sowing: ['WEATHER', 'IRRIGATE'],
+    Vegetative: ['IRRIGATE', 'WEATHER'],
+    Flowering: ['DISEASE', 'IRRIGATE'],
+    Maturity: ['HARVEST'],
+    Harvest: ['HARVEST', 'WEATHER'],
+};
+
+/**
+ * Urgency score: severity first, then crop-stage relevance and how
+ * time-sensitive the alert is. Safety alerts that can't be dismissed and
+ * conditions that keep persisting rank higher within their severity.
+ */
+export function scoreAlert(alert: SmartAlert, stage: CropStage | null): number {
+    let score = SEVERITY_SCORE[alert.severity] + TIME_SENSITIVITY[alert.type];
+    if (stage && STAGE_RELEVANCE[stage].includes(alert.type)) score += 25;
+    if (!alert.dismissible) score += 15;
+    if (alert.escalation) score += 10;
+    return score;
+}
+
+/**
+ * Most urgent first (ties keep the rule order)
+ */
+export function rankAlerts<T extends SmartAlert>(alerts: T[], stage: CropStage | null): T[] {
+    return alerts
+        .map((alert, index) => ({ alert, index, score: scoreAlert(alert, stage) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(({ alert }) => alert);
+}
+
+/**
+ * Split ranked alerts into those shown and those collapsed behind the
+ * budget. Flood and disease alerts are always shown, even past the limit.
+ */
+export function budgetAlerts<T extends SmartAlert>(alerts: T[], limit: number = MAX_ALERTS_PER_DAY): { shown: T[]; hidden: T[] } {
+    const protectedCount = alerts.filter((alert) => PROTECTED_ALERT_TYPES.includes(alert.type)).length;
+    let remaining = Math.max(limit - protectedCount, 0);
+
+    const shown: T[] = [];
+    const hidden: T[] = [];
+    alerts.forEach((alert) => {
+        if (PROTECTED_ALERT_TYPES.includes(alert.type)) {
+            shown.push(alert);
+        } else if (remaining > 0) {
+            shown.push(alert);
+            remaining--;
+        } else {
+            hidden.push(alert);
+        }
+    });
+    return { shown, hidden };
 }
 
 /**
@@ -22,128 +129,100 @@ export interface SmartAlert {
  * - Current weather data (temperature, humidity, rainfall)
  * - User-selected crop and confirmed growth stage
  * - Flood risk level (calculated from weather)
+ * - Nearby river gauge / reservoir readings
+ * - Recent flood reports filed by farmers in the district
  * 
- * ALERT RULES:
+ * DECLARATIVE RULES (see alert-rules.ts, DEFAULT_ALERT_RULES):
  * 1. 🌧️ Weather/Fertilizer Alert - Rain or high humidity
  * 2. 🧺 Harvest Alert - Maturity stage + dry weather
  * 3. 🚿 Irrigation Alert - No rain + moderate/high temp
  * 4. 🧪 Disease Watch Alert - Flowering stage + high humidity
  * 5. 🌊 Flood Risk Alert - Medium/High flood risk
+ *
+ * DATA-DRIVEN RULES (one alert per reading/cluster):
+ * 6. 🌊 Water Level Alert - Gauge/reservoir above warning or danger level
+ * 7. 🌊 Neighbour Report Alert - Cluster of recent farmer flood reports
+ *
+ * Alerts come back ranked by urgency (`rankAlerts`) and cut to the
+ * `limit` budget without ever dropping flood or disease alerts.
  */
 export function generateSmartAlerts(
     weather: WeatherData | null,
     crop: string | null,
     stage: CropStage | null,
-    floodRiskLevel: 'LOW' | 'MEDIUM' | 'HIGH'
+    floodRiskLevel: 'LOW' | 'MEDIUM' | 'HIGH',
+    waterLevels: WaterLevelReading[] = [],
+    floodReports: FloodReportSignal[] = [],
+    { rules = DEFAULT_ALERT_RULES, lastFiredAt = {}, now = new Date(), limit = MAX_ALERTS_PER_DAY, language = 'en' }: SmartAlertOptions = {}
 ): SmartAlert[] {
     const alerts: SmartAlert[] = [];
 
+    // Resolve an alert's keys into the requested language
+    const localize = (titleKey: string, messageKey: string, actionKey?: string, params?: TranslationParams) => ({
+        title: getTranslation(language, titleKey, params),
+        message: getTranslation(language, messageKey, params),
+        action: actionKey ? getTranslation(language, actionKey, params) : undefined,
+        titleKey,
+        messageKey,
+        actionKey,
+        params,
+    });
+
     // If no weather data, return empty array (caller should show fallback)
     if (!weather) return [];
 
     const { current } = weather;
 
-    // Weather condition flags
-    const isRaining = current.rainfall > 0 || current.condition.toLowerCase().includes('rain');
-    const isHighHumidity = current.humidity > 75;
-    const isVeryHighHumidity = current.humidity > 80;
-    const isDryAndStable = !isRaining && current.humidity < 65 && current.condition !== 'Thunderstorm';
-    const isModerateOrHighTemp = current.temperature >= 28;
+    const facts: AlertFacts = {
+        rainfall: current.rainfall,
+        humidity: current.humidity,
+        temperature: current.temperature,
+        windSpeed: current.windSpeed,
+        condition: current.condition,
+        crop: crop || null,
+        stage: stage || null,
+        floodRiskLevel,
+    };
 
     // Track if we have crop stage for context
     const hasCropStage = crop && stage;
 
     // ============================================
-    // RULE 1: 🌧️ WEATHER / FERTILIZER ALERT
-    // Trigger: Rainfall today OR high humidity
+    // RULES 1-5: declarative rule set
     // ============================================
-    if (isRaining || isHighHumidity) {
-        alerts.push({
-            id: 'weather-fertilizer',
-            type: 'WEATHER',
-            severity: 'medium', // Yellow
-            title: '🟡 Avoid fertilizer today',
-            message: 'Reason: Rain or high humidity may reduce fertilizer effectiveness',
-            action: 'Postpone Application',
-            dismissible: true,
-            isGeneralAdvisory: !hasCropStage
-        });
-    }
-
-    // ============================================
-    // RULE 2: 🧺 HARVEST ALERT
-    // Trigger: Crop stage = Maturity AND dry/stable weather
-    // ============================================
-    if (hasCropStage && (stage === 'Maturity' || stage === 'Harvest') && isDryAndStable) {
-        alerts.push({
-            id: 'harvest-window',
-            type: 'HARVEST',
-            severity: 'low', // Green
-            title: '🟢 Good harvest window today',
-            message: 'Reason: Dry weather reduces spoilage risk',
-            action: 'Plan Harvest',
-            dismissible: true
-        });
-    }
+    for (const rule of rules) {
+        if (rule.enabled === false || isInCooldown(rule, lastFiredAt[rule.id], now)) continue;
 
-    // ============================================
-    // RULE 3: 🚿 IRRIGATION ALERT
-    // Trigger: No rainfall AND temperature moderate/high
-    // ============================================
-    if (!isRaining && isModerateOrHighTemp) {
-        alerts.push({
-            id: 'irrigation-needed',
-            type: 'IRRIGATE',
-            severity: 'info', // Yellow
-            title: '🟡 Light irrigation recommended today',
-            message: 'Reason: Soil moisture may be low due to heat and no rain',
-            action: 'Irrigate',
-            dismissible: true,
-            isGeneralAdvisory: !hasCropStage
-        });
-    }
+        const { matched, firedConditions } = evaluateRule(rule, facts);
+        if (!matched) continue;
 
-    // ============================================
-    // RULE 4: 🧪 DISEASE WATCH ALERT
-    // Trigger: Crop stage = Flowering AND humidity > 80%
-    // ============================================
-    if (hasCropStage && stage === 'Flowering' && isVeryHighHumidity) {
         alerts.push({
-            id: 'disease-watch',
-            type: 'DISEASE',
-            severity: 'high', // Red
-            title: '🔴 Disease watch today',
-            message: 'Reason: High humidity increases fungal disease risk',
-            action: 'Inspect Leaves',
-            dismissible: true
+            id: rule.id,
+            type: rule.type,
+            severity: rule.severity,
+            ...localize(rule.titleKey, rule.messageKey, rule.actionKey),
+            dismissible: rule.dismissible,
+            ruleId: rule.id,
+            firedConditions,
+            cooldownHours: rule.cooldownHours ?? 0,
         });
     }
 
     // ============================================
-    // RULE 5: 🌊 FLOOD RISK ALERT
-    // Trigger: Flood risk = MEDIUM or HIGH
+    // RULES 6-7: 🌊 WATER LEVEL and NEIGHBOUR REPORT ALERTS
+    // Trigger: Nearby gauge/reservoir at warning or danger level, or
+    // enough recent farmer reports in the district to form a cluster
     // ============================================
-    if (floodRiskLevel === 'HIGH') {
+    getFloodSignalAlerts(waterLevels, floodReports).forEach((signal) => {
         alerts.push({
-            id: 'flood-critical',
+            id: signal.id,
             type: 'FLOOD',
-            severity: 'high', // Red
-            title: '🔴 Flood risk detected',
-            message: 'Reason: Avoid harvesting or fertilizer application today',
-            action: 'Protect Crops',
-            dismissible: false
+            severity: signal.severity,
+            ...localize(signal.titleKey, signal.messageKey, signal.actionKey, signal.params),
+            dismissible: signal.dismissible,
+            cooldownHours: signal.cooldownHours,
         });
-    } else if (floodRiskLevel === 'MEDIUM') {
-        alerts.push({
-            id: 'flood-caution',
-            type: 'FLOOD',
-            severity: 'medium', // Yellow
-            title: '🟡 Moderate flood risk',
-            message: 'Reason: Monitor conditions and keep drainage clear',
-            action: 'Check Drainage',
-            dismissible: true
-        });
-    }
+    });
 
     // ============================================
     // If no crop stage is set, mark remaining alerts as general
@@ -156,6 +235,5 @@ export function generateSmartAlerts(
         });
     }
 
-    // Maximum 4 alerts per day to avoid clutter
-    return alerts.slice(0, 4);
+    return budgetAlerts(rankAlerts(alerts, hasCropStage ? stage : null), limit).shown;
 }
@@ -3,6 +3,9 @@
 
 import { analyzeHarvestConditions, HarvestRecommendation } from './harvest-logic';
 import { CropType, Season, CropStage, DailyAction } from './crop-calendar-logic';
+import type { WaterLevelStatus } from './flood-risk';
+import type { MandiAggregation, MandiSortField, SortOrder } from './mandi-aggregate';
+import { getTranslation, Language } from '../i18n';
 
 // Supabase Edge Function base URL
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
@@ -44,17 +47,39 @@ export interface WeatherData {
     }>;
     location: string;
     consecutiveRainyDays: number;
+    // Decay-weighted observed rainfall (mm) over past days, from the weather archive
+    antecedentPrecipitation?: {
+        days7: number;
+        days14: number;
+        days30: number;
+    };
 }
 
 export interface MandiPrice {
     commodity: string;
     variety?: string;
     market: string;
+    district?: string;
     state?: string;
     minPrice: number;
     maxPrice: number;
     modalPrice: number;
     arrivalDate?: string;
+    marketCount?: number;  // markets averaged into a state-level row
+    quality?: 'ok' | 'repaired' | 'suspect';
+    qualityIssues?: string[];
+}
+
+export interface WaterLevelReading {
+    stationId: string;
+    name: string;
+    kind: 'river_gauge' | 'reservoir' | 'tank';
+    district: string;
+    level: number;
+    warningLevel: number;
+    dangerLevel: number;
+    observedAt: string;
+    status: WaterLevelStatus;
 }
 
 // Fetch weather data via Supabase Edge Function (secure)
@@ -76,12 +101,31 @@ export async function fetchWeatherData(location: string): Promise<WeatherData> {
     }
 }
 
+export interface MandiPriceOptions {
+    aggregate?: MandiAggregation;   // 'latest' = one row per market, 'state' = state averages
+    sortBy?: MandiSortField;
+    sortOrder?: SortOrder;
+    maxRecords?: number;            // the edge function caps this at 5000
+}
+
+export interface MandiPriceResult {
+    prices: MandiPrice[];
+    lastUpdated: string;
+    totalRecords?: number;          // matching records at data.gov.in
+    truncated?: boolean;            // true when maxRecords cut the result short
+}
+
 // Fetch mandi prices via Supabase Edge Function (secure)
-export async function fetchMandiPrices(commodity?: string, market?: string): Promise<{ prices: MandiPrice[], lastUpdated: string }> {
+export async function fetchMandiPrices(
+    commodity?: string,
+    market?: string,
+    options: MandiPriceOptions = {}
+): Promise<MandiPriceResult> {
     try {
         const response = await callEdgeFunction('mandi-prices', {
             district: market,  // Send location as district filter (city names like Dharmapuri)
-            commodity
+            commodity,
+            ...options,
         });
 
         if (!response.ok) {
@@ -93,6 +137,8 @@ export async function fetchMandiPrices(commodity?: string, market?: string): Pro
         return {
             prices: data.prices || [],
             lastUpdated: data.lastUpdated || new Date().toISOString(),
+            totalRecords: data.totalRecords,
+            truncated: data.truncated,
         };
 
     } catch (error) {
@@ -101,6 +147,28 @@ export async function fetchMandiPrices(commodity?: string, market?: string): Pro
     }
 }
 
+// Fetch river gauge / reservoir readings near a district via Supabase Edge Function
+export async function fetchWaterLevels(district: string): Promise<{ readings: WaterLevelReading[], lastUpdated: string }> {
+    try {
+        const response = await callEdgeFunction('water-levels', { district });
+
+        if (!response.ok) {
+            console.error('Water level API error:', response.status);
+            return { readings: [], lastUpdated: '' };
+        }
+
+        const data = await response.json();
+        return {
+            readings: data.readings || [],
+            lastUpdated: data.lastUpdated || new Date().toISOString(),
+        };
+
+    } catch (error) {
+        console.error('Water level fetch error:', error);
+        return { readings: [], lastUpdated: '' };
+    }
+}
+
 // Send message to AI via Supabase Edge Function (secure)
 export async function sendAIMessage(message: string, context?: any, language?: string): Promise<{ reply: string }> {
     try {
@@ -244,7 +312,7 @@ export async function getHarvestAdvisory(
         const message = `Provide harvest advice in JSON format:
 Weather: ${weather.current.condition}, Temp: ${weather.current.temperature}°C, Humidity: ${weather.current.humidity}%, Rain: ${weather.current.rainfall}mm.
 Season: ${recommendation.details.season}.
-Status: ${recommendation.status}, Reason: ${recommendation.reason}.
+Status: ${recommendation.status}, Reason: ${getTranslation('en', recommendation.reasonKey)}.
 
 Respond ONLY in JSON: {"bestCrops": ["Crop1", "Crop2"], "reasoning": "Brief explanation in ${languageNames[language]}", "precautions": ["Tip1", "Tip2"]}`;
 
@@ -269,7 +337,7 @@ Respond ONLY in JSON: {"bestCrops": ["Crop1", "Crop2"], "reasoning": "Brief expl
                     ...recommendation,
                     aiAdvice: {
                         bestCrops: aiResult.bestCrops || [],
-                        reasoning: aiResult.reasoning || recommendation.reason,
+                        reasoning: aiResult.reasoning || getTranslation(language as Language, recommendation.reasonKey),
                         precautions: aiResult.precautions || []
                     }
                 };
@@ -294,7 +362,7 @@ Respond ONLY in JSON: {"bestCrops": ["Crop1", "Crop2"], "reasoning": "Brief expl
         ...recommendation,
         aiAdvice: {
             bestCrops: ['Consult local expert'],
-            reasoning: recommendation.reason,
+            reasoning: getTranslation(language as Language, recommendation.reasonKey),
             precautions: ['Check local weather alerts']
         }
     };
@@ -380,7 +448,7 @@ export async function getPersonalizedCropAdvisory(
     crop: string,
     stage: string,
     season: string,
-    actions: any[],
+    actions: DailyAction[],
     language: string = 'en'
 ): Promise<{ explanation: string }> {
     const languageNames: Record<string, string> = {
@@ -394,7 +462,7 @@ export async function getPersonalizedCropAdvisory(
         const message = `Provide a 1-2 sentence daily farming advice for TODAY ONLY.
 Context: Crop: ${crop}, Stage: ${stage}, Season: ${season}
 Weather: ${weather.current.condition}, Temp: ${weather.current.temperature}°C, Rain: ${weather.current.rainfall}mm.
-Actions: ${actions.map(a => a.label).join(', ')}.
+Actions: ${actions.map(a => getTranslation('en', a.labelKey, a.params)).join(', ')}.
 Respond in ${languageNames[language]}. Do not mention future days.`;
 
         const response = await callEdgeFunction('ai-chat', {
@@ -0,0 +1,337 @@
+/**
+ * Commodity Dictionary
+ *
+ * data.gov.in (Agmarknet) only matches its own commodity names, which are
+ * inconsistent ("Paddy(Dhan)(Common)", "Bhindi(Ladies Finger)"), while
+ * farmers type "dhan", "nellu" or "வெங்காயம்". Each entry carries the
+ * exact Agmarknet name used for filtering, display labels in every app
+ * language and the aliases people actually use (local names, Hindi/Tamil/
+ * Telugu script and their romanized spellings). `resolveCommodity` maps
+ * free text onto an entry, tolerating typos.
+ *
+ * This module has no imports so the edge functions can use it.
+ */
+
+export type CommodityLanguage = 'en' | 'hi' | 'ta' | 'te';
+
+export interface CommodityDefinition {
+    id: string;
+    agmarknetName: string;
+    labels: Record<CommodityLanguage, string>;
+    aliases: string[];
+}
+
+export interface CommodityMatch {
+    commodity: CommodityDefinition;
+    score: number;          // 1 = exact alias, lower = fuzzier
+}
+
+// Similarity below this is treated as no match
+export const MIN_COMMODITY_MATCH_SCORE = 0.75;
+
+// Prefix matches need at least this many characters ("on" is too vague)
+const MIN_PREFIX_LENGTH = 3;
+
+export const COMMODITIES: CommodityDefinition[] = [
+    {
+        id: 'paddy',
+        agmarknetName: 'Paddy(Dhan)(Common)',
+        labels: { en: 'Paddy', hi: 'धान', ta: 'நெல்', te: 'వరి' },
+        aliases: ['paddy', 'dhan', 'dhaan', 'nellu', 'nel', 'vari', 'vadlu'],
+    },
+    {
+        id: 'rice',
+        agmarknetName: 'Rice',
+        labels: { en: 'Rice', hi: 'चावल', ta: 'அரிசி', te: 'బియ్యం' },
+        aliases: ['rice', 'chawal', 'chaval', 'arisi', 'biyyam'],
+    },
+    {
+        id: 'wheat',
+        agmarknetName: 'Wheat',
+        labels: { en: 'Wheat', hi: 'गेहूं', ta: 'கோதுமை', te: 'గోధుమ' },
+        aliases: ['wheat', 'gehun', 'gehu', 'gehoon', 'godhumai', 'godhuma', 'godhumalu', 'गेहूँ'],
+    },
+    {
+        id: 'maize',
+        agmarknetName: 'Maize',
+        labels: { en: 'Maize', hi: 'मक्का', ta: 'மக்காச்சோளம்', te: 'మొక్కజొన్న' },
+        aliases: ['maize', 'corn', 'makka', 'makki', 'makkacholam', 'mokkajonna'],
+    },
+    {
+        id: 'jowar',
+        agmarknetName: 'Jowar(Sorghum)',
+        labels: { en: 'Jowar', hi: 'ज्वार', ta: 'சோளம்', te: 'జొన్న' },
+        aliases: ['jowar', 'sorghum', 'cholam', 'jonna', 'jonnalu'],
+    },
+    {
+        id: 'bajra',
+        agmarknetName: 'Bajra(Pearl Millet/Cumbu)',
+        labels: { en: 'Bajra', hi: 'बाजरा', ta: 'கம்பு', te: 'సజ్జలు' },
+        aliases: ['bajra', 'pearl millet', 'cumbu', 'kambu', 'sajjalu', 'sajja'],
+    },
+    {
+        id: 'ragi',
+        agmarknetName: 'Ragi (Finger Millet)',
+        labels: { en: 'Ragi', hi: 'रागी', ta: 'கேழ்வரகு', te: 'రాగులు' },
+        aliases: ['ragi', 'finger millet', 'mandua', 'kezhvaragu', 'kelvaragu', 'ragulu'],
+    },
+    {
+        id: 'tur',
+        agmarknetName: 'Arhar (Tur/Red Gram)(Whole)',
+        labels: { en: 'Tur (Red Gram)', hi: 'अरहर', ta: 'துவரை', te: 'కందులు' },
+        aliases: ['tur', 'toor', 'arhar', 'red gram', 'pigeon pea', 'thuvarai', 'thuvaram paruppu', 'kandulu', 'kandi', 'तुअर'],
+    },
+    {
+        id: 'urad',
+        agmarknetName: 'Black Gram (Urd Beans)(Whole)',
+        labels: { en: 'Urad (Black Gram)', hi: 'उड़द', ta: 'உளுந்து', te: 'మినుములు' },
+        aliases: ['urad', 'urd', 'black gram', 'ulundu', 'ulunthu', 'minumulu', 'minapa'],
+    },
+    {
+        id: 'moong',
+        agmarknetName: 'Green Gram (Moong)(Whole)',
+        labels: { en: 'Moong (Green Gram)', hi: 'मूंग', ta: 'பாசிப்பயறு', te: 'పెసలు' },
+        aliases: ['moong', 'mung', 'green gram', 'pasi payaru', 'pasipayaru', 'pesalu', 'pesarlu'],
+    },
+    {
+        id: 'chana',
+        agmarknetName: 'Bengal Gram(Gram)(Whole)',
+        labels: { en: 'Chana (Bengal Gram)', hi: 'चना', ta: 'கொண்டைக்கடலை', te: 'శనగలు' },
+        aliases: ['chana', 'gram', 'bengal gram', 'chickpea', 'kondaikadalai', 'kadalai', 'senagalu', 'shanagalu'],
+    },
+    {
+        id: 'groundnut',
+        agmarknetName: 'Groundnut',
+        labels: { en: 'Groundnut', hi: 'मूंगफली', ta: 'நிலக்கடலை', te: 'వేరుశెనగ' },
+        aliases: ['groundnut', 'peanut', 'moongphali', 'mungfali', 'nilakadalai', 'verkadalai', 'kadalai kai', 'verusenaga', 'palli', 'வேர்க்கடலை'],
+    },
+    {
+        id: 'soybean',
+        agmarknetName: 'Soyabean',
+        labels: { en: 'Soybean', hi: 'सोयाबीन', ta: 'சோயாபீன்', te: 'సోయాబీన్' },
+        aliases: ['soybean', 'soyabean', 'soya'],
+    },
+    {
+        id: 'cotton',
+        agmarknetName: 'Cotton',
+        labels: { en: 'Cotton', hi: 'कपास', ta: 'பருத்தி', te: 'పత్తి' },
+        aliases: ['cotton', 'kapas', 'paruthi', 'parutti', 'patti', 'pathi'],
+    },
+    {
+        id: 'sugarcane',
+        agmarknetName: 'Sugarcane',
+        labels: { en: 'Sugarcane', hi: 'गन्ना', ta: 'கரும்பு', te: 'చెరకు' },
+        aliases: ['sugarcane', 'ganna', 'karumbu', 'cheruku', 'cherakku'],
+    },
+    {
+        id: 'turmeric',
+        agmarknetName: 'Turmeric',
+        labels: { en: 'Turmeric', hi: 'हल्दी', ta: 'மஞ்சள்', te: 'పసుపు' },
+        aliases: ['turmeric', 'haldi', 'manjal', 'pasupu'],
+    },
+    {
+        id: 'coconut',
+        agmarknetName: 'Coconut',
+        labels: { en: 'Coconut', hi: 'नारियल', ta: 'தேங்காய்', te: 'కొబ్బరి' },
+        aliases: ['coconut', 'nariyal', 'thengai', 'thenkai', 'kobbari'],
+    },
+    {
+        id: 'onion',
+        agmarknetName: 'Onion',
+        labels: { en: 'Onion', hi: 'प्याज', ta: 'வெங்காயம்', te: 'ఉల్లిపాయ' },
+        aliases: ['onion', 'pyaz', 'pyaaz', 'kanda', 'vengayam', 'vengaayam', 'ullipaya', 'ullipayalu', 'ulligadda'],
+    },
+    {
+        id: 'tomato',
+        agmarknetName: 'Tomato',
+        labels: { en: 'Tomato', hi: 'टमाटर', ta: 'தக்காளி', te: 'టమాటా' },
+        aliases: ['tomato', 'tamatar', 'thakkali', 'takkali', 'tamata'],
+    },
+    {
+        id: 'potato',
+        agmarknetName: 'Potato',
+        labels: { en: 'Potato', hi: 'आलू', ta: 'உருளைக்கிழங்கு', te: 'బంగాళదుంప' },
+        aliases: ['potato', 'aloo', 'alu', 'urulaikizhangu', 'urulai', 'bangaladumpa', 'alugadda'],
+    },
+    {
+        id: 'brinjal',
+        agmarknetName: 'Brinjal',
+        labels: { en: 'Brinjal', hi: 'बैंगन', ta: 'கத்திரிக்காய்', te: 'వంకాయ' },
+        aliases: ['brinjal', 'eggplant', 'baingan', 'baigan', 'kathirikai', 'kathirikkai', 'vankaya'],
+    },
+    {
+        id: 'bhindi',
+        agmarknetName: 'Bhindi(Ladies Finger)',
+        labels: { en: 'Bhindi (Okra)', hi: 'भिंडी', ta: 'வெண்டைக்காய்', te: 'బెండకాయ' },
+        aliases: ['bhindi', 'bhendi', 'okra', 'ladies finger', 'lady finger', 'vendakkai', 'vendaikai', 'bendakaya'],
+    },
+    {
+        id: 'cabbage',
+        agmarknetName: 'Cabbage',
+        labels: { en: 'Cabbage', hi: 'पत्ता गोभी', ta: 'முட்டைக்கோஸ்', te: 'క్యాబేజీ' },
+        aliases: ['cabbage', 'patta gobhi', 'bandh gobhi', 'muttaikose', 'muttai kos'],
+    },
+    {
+        id: 'cauliflower',
+        agmarknetName: 'Cauliflower',
+        labels: { en: 'Cauliflower', hi: 'फूलगोभी', ta: 'காலிஃபிளவர்', te: 'కాలీఫ్లవర్' },
+        aliases: ['cauliflower', 'phool gobhi', 'phoolgobhi', 'gobi', 'gobhi'],
+    },
+    {
+        id: 'carrot',
+        agmarknetName: 'Carrot',
+        labels: { en: 'Carrot', hi: 'गाजर', ta: 'கேரட்', te: 'క్యారెట్' },
+        aliases: ['carrot', 'gajar'],
+    },
+    {
+        id: 'green-chilli',
+        agmarknetName: 'Green Chilli',
+        labels: { en: 'Green Chilli', hi: 'हरी मिर्च', ta: 'பச்சை மிளகாய்', te: 'పచ్చి మిర్చి' },
+        aliases: ['green chilli', 'green chili', 'hari mirch', 'pachai milagai', 'pachi mirchi'],
+    },
+    {
+        id: 'dry-chilli',
+        agmarknetName: 'Dry Chillies',
+        labels: { en: 'Dry Chilli', hi: 'लाल मिर्च', ta: 'மிளகாய் வற்றல்', te: 'ఎండు మిర్చి' },
+        aliases: ['dry chilli', 'dry chillies', 'red chilli', 'lal mirch', 'milagai vathal', 'vara milagai', 'endu mirchi', 'mirchi'],
+    },
+    {
+        id: 'garlic',
+        agmarknetName: 'Garlic',
+        labels: { en: 'Garlic', hi: 'लहसुन', ta: 'பூண்டு', te: 'వెల్లుల్లి' },
+        aliases: ['garlic', 'lahsun', 'lehsun', 'poondu', 'vellulli'],
+    },
+    {
+        id: 'ginger',
+        agmarknetName: 'Ginger(Green)',
+        labels: { en: 'Ginger', hi: 'अदरक', ta: 'இஞ்சி', te: 'అల్లం' },
+        aliases: ['ginger', 'adrak', 'inji', 'allam'],
+    },
+    {
+        id: 'banana',
+        agmarknetName: 'Banana',
+        labels: { en: 'Banana', hi: 'केला', ta: 'வாழைப்பழம்', te: 'అరటి' },
+        aliases: ['banana', 'kela', 'vazhai', 'vazhaipazham', 'arati', 'aratipandu'],
+    },
+    {
+        id: 'mango',
+        agmarknetName: 'Mango',
+        labels: { en: 'Mango', hi: 'आम', ta: 'மாம்பழம்', te: 'మామిడి' },
+        aliases: ['mango', 'aam', 'mampazham', 'maambazham', 'mamidi'],
+    },
+    {
+        id: 'tapioca',
+        agmarknetName: 'Tapioca',
+        labels: { en: 'Tapioca', hi: 'टैपिओका', ta: 'மரவள்ளிக்கிழங்கு', te: 'కర్రపెండలం' },
+        aliases: ['tapioca', 'cassava', 'kappa', 'maravalli', 'maravalli kizhangu', 'karrapendalam'],
+    },
+];
+
+// Agmarknet commodities without a dictionary entry whose names sit close
+// to one ("Sugar" is a prefix of "Sugarcane"). Typed exactly, they are
+// passed through as they are instead of resolving to the neighbour.
+const OTHER_AGMARKNET_NAMES = [
+    'Sugar',
+    'Gur(Jaggery)',
+    'Paddy(Dhan)(Basmati)',
+    'Wheat Atta',
+    'Rice Bran',
+    'Cotton Seed',
+    'Groundnut Seed',
+    'Groundnut pods (raw)',
+    'Soyabean Oil',
+    'Coconut Oil',
+    'Coconut Seed',
+    'Mustard Oil',
+    'Onion Green',
+    'Ginger(Dry)',
+    'Turmeric (raw)',
+    'Sweet Potato',
+    'Banana - Green',
+    'Mango (Raw-Ripe)',
+];
+
+/**
+ * Lower-case, drop punctuation and brackets, collapse spaces. Letters and
+ * combining marks of every script survive, so Tamil/Telugu/Devanagari
+ * input compares as typed.
+ */
+export function normalizeCommodityText(value: string): string {
+    return value
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one edit
+ * ("onoin" → "onion"), the most common typing slip
+ */
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+// Every normalized spelling an entry answers to
+const SEARCH_TERMS: Array<{ term: string; commodity: CommodityDefinition }> = COMMODITIES.flatMap((commodity) =>
+    Array.from(new Set([
+        commodity.agmarknetName,
+        ...Object.values(commodity.labels),
+        ...commodity.aliases,
+    ].map(normalizeCommodityText))).map((term) => ({ term, commodity }))
+);
+
+const OTHER_AGMARKNET_TERMS = new Set(OTHER_AGMARKNET_NAMES.map(normalizeCommodityText));
+
+function scoreTerm(input: string, term: string): number {
+    if (input === term) return 1;
+    if (input.length >= MIN_PREFIX_LENGTH && term.startsWith(input)) return 0.9;
+    const length = Math.max(input.length, term.length);
+    return length > 0 ? 1 - editDistance(input, term) / length : 0;
+}
+
+/**
+ * Best dictionary entry for free text (an alias in any language, a typo
+ * of one, or an Agmarknet record name), or null below
+ * MIN_COMMODITY_MATCH_SCORE. Exact names are tried before prefixes and
+ * typos, and an exact Agmarknet name outside the dictionary resolves to
+ * nothing rather than to a similar entry.
+ */
+export function resolveCommodity(input: string | undefined): CommodityMatch | null {
+    const text = normalizeCommodityText(input || '');
+    if (!text) return null;
+
+    const exact = SEARCH_TERMS.find(({ term }) => term === text);
+    if (exact) return { commodity: exact.commodity, score: 1 };
+    if (OTHER_AGMARKNET_TERMS.has(text)) return null;
+
+    let best: CommodityMatch | null = null;
+    for (const { term, commodity } of SEARCH_TERMS) {
+        const score = scoreTerm(text, term);
+        if (score >= MIN_COMMODITY_MATCH_SCORE && (!best || score > best.score)) {
+            best = { commodity, score };
+        }
+    }
+    return best;
+}
+
+/**
+ * The Agmarknet name to filter on for free text; unknown input passes
+ * through trimmed so new commodities still work
+ */
+export function toAgmarknetCommodity(input: string): string {
+    return resolveCommodity(input)?.commodity.agmarknetName || input.trim();
+}
@@ -1,4 +1,5 @@
 import { WeatherData } from './api';
+import type { TranslationParams } from '../i18n';
 
 export type CropType = string; // Allow free text input
 export type Season = 'Kharif' | 'Rabi' | 'Zaid' | 'Unknown';
@@ -6,8 +7,9 @@ export type CropStage = 'Sowing' | 'Vegetative' | 'Flowering' | 'Maturity' | 'Ha
 
 export interface DailyAction {
     type: 'SOW' | 'IRRIGATE' | 'FERTILIZE' | 'SPRAY' | 'HARVEST' | 'GENERAL' | 'ALERT';
-    label: string;
-    description: string;
+    labelKey: string;       // i18n keys under dashboard.calendar.actions
+    descriptionKey: string;
+    params?: TranslationParams;
     icon: string; // Lucide icon name
     priority: 'HIGH' | 'MEDIUM' | 'LOW';
 }
@@ -51,16 +53,17 @@ export function generateDailyActions(
         if (isRaining && current.rainfall > 5) { // Threshold lowered for safety
             actions.push({
                 type: 'ALERT',
-                label: 'Postpone Sowing',
-                description: `Rain detected (${current.rainfall}mm). Soil may be too wet for ${crop}.`,
+                labelKey: 'dashboard.calendar.actions.postponeSowing.label',
+                descriptionKey: 'dashboard.calendar.actions.postponeSowing.description',
+                params: { rainfall: current.rainfall, crop },
                 icon: 'CloudRain',
                 priority: 'HIGH'
             });
         } else if (current.rainfall < 2 && !isRaining) {
             actions.push({
                 type: 'SOW',
-                label: 'Good for Sowing',
-                description: 'Weather is clear. Good conditions to sow if soil moisture is optimal.',
+                labelKey: 'dashboard.calendar.actions.goodForSowing.label',
+                descriptionKey: 'dashboard.calendar.actions.goodForSowing.description',
                 icon: 'Sprout',
                 priority: 'HIGH'
             });
@@ -72,16 +75,17 @@ export function generateDailyActions(
         if (!isRaining && current.humidity < 60) {
             actions.push({
                 type: 'IRRIGATE',
-                label: 'Irrigate Today',
-                description: 'Dry conditions detected. Ensure crop has sufficient water.',
+                labelKey: 'dashboard.calendar.actions.irrigateToday.label',
+                descriptionKey: 'dashboard.calendar.actions.irrigateToday.description',
                 icon: 'Droplets',
                 priority: 'MEDIUM'
             });
         } else if (isRaining || current.rainfall > 5) {
             actions.push({
                 type: 'GENERAL',
-                label: 'Skip Irrigation',
-                description: `Rain detected. Natural moisture is sufficient for ${crop}.`,
+                labelKey: 'dashboard.calendar.actions.skipIrrigation.label',
+                descriptionKey: 'dashboard.calendar.actions.skipIrrigation.description',
+                params: { crop },
                 icon: 'CloudOff',
                 priority: 'LOW'
             });
@@ -90,16 +94,16 @@ export function generateDailyActions(
         if (isWindy || isRaining) {
             actions.push({
                 type: 'ALERT',
-                label: 'Do Not Spray/Fertilize',
-                description: 'Strong winds or rain will wash away inputs. Wait for calm weather.',
+                labelKey: 'dashboard.calendar.actions.doNotSpray.label',
+                descriptionKey: 'dashboard.calendar.actions.doNotSpray.description',
                 icon: 'Wind',
                 priority: 'HIGH'
             });
         } else if (stage === 'Vegetative') { // Only suggest fertilizer in vegetative usually
             actions.push({
                 type: 'FERTILIZE',
-                label: 'Safe to Fertilize',
-                description: 'Calm weather. Good time for nutrient application if scheduled.',
+                labelKey: 'dashboard.calendar.actions.safeToFertilize.label',
+                descriptionKey: 'dashboard.calendar.actions.safeToFertilize.description',
                 icon: 'FlaskConical',
                 priority: 'MEDIUM'
             });
@@ -111,16 +115,17 @@ export function generateDailyActions(
         if (isRaining) {
             actions.push({
                 type: 'ALERT',
-                label: 'Protect Crop',
-                description: `Rain risk! Cover ${crop} immediately or improve field drainage.`,
+                labelKey: 'dashboard.calendar.actions.protectCrop.label',
+                descriptionKey: 'dashboard.calendar.actions.protectCrop.description',
+                params: { crop },
                 icon: 'Umbrella',
                 priority: 'HIGH'
             });
         } else {
             actions.push({
                 type: 'HARVEST',
-                label: 'Harvest Preparation',
-                description: 'Dry weather safe for harvesting or drying.',
+                labelKey: 'dashboard.calendar.actions.harvestPreparation.label',
+                descriptionKey: 'dashboard.calendar.actions.harvestPreparation.description',
                 icon: 'Tractor',
                 priority: 'HIGH'
             });
@@ -131,8 +136,8 @@ export function generateDailyActions(
     if (current.temperature > 40) {
         actions.push({
             type: 'ALERT',
-            label: 'Heat Stress Alert',
-            description: 'Extreme heat. Mulch soil to retain moisture.',
+            labelKey: 'dashboard.calendar.actions.heatStress.label',
+            descriptionKey: 'dashboard.calendar.actions.heatStress.description',
             icon: 'ThermometerSun',
             priority: 'HIGH'
         });
@@ -141,8 +146,9 @@ export function generateDailyActions(
     if (actions.length === 0) {
         actions.push({
             type: 'GENERAL',
-            label: 'Monitor Field',
-            description: `Conditions are stable. Monitor ${crop} for pests.`,
+            labelKey: 'dashboard.calendar.actions.monitorField.label',
+            descriptionKey: 'dashboard.calendar.actions.monitorField.description',
+            params: { crop },
             icon: 'Eye',
             priority: 'LOW'
         });
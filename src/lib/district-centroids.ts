@@ -0,0 +1,221 @@
+/**
+ * District Centroids
+ *
+ * Approximate centre (district headquarters) of the districts farmers
+ * search from and the markets Agmarknet reports most often, so mandi
+ * distances work offline without a geocoding API. Keys are lower-case
+ * district names; common spellings, city names and big mandis that go by
+ * their own name map onto them through DISTRICT_ALIASES. Mandi towns away
+ * from their district headquarters have their own entry in
+ * MARKET_LOCATIONS, so two markets in one district are told apart.
+ *
+ * This module has no imports so the edge functions can use it.
+ */
+
+export interface DistrictCentroid {
+    lat: number;
+    lon: number;
+    state: string;
+}
+
+// Straight-line distance understates roads; this is a typical detour factor
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+export const DISTRICT_CENTROIDS: Record<string, DistrictCentroid> = {
+    // Tamil Nadu
+    ariyalur: { lat: 11.14, lon: 79.08, state: 'Tamil Nadu' },
+    chengalpattu: { lat: 12.69, lon: 79.98, state: 'Tamil Nadu' },
+    chennai: { lat: 13.08, lon: 80.27, state: 'Tamil Nadu' },
+    coimbatore: { lat: 11.02, lon: 76.96, state: 'Tamil Nadu' },
+    cuddalore: { lat: 11.75, lon: 79.77, state: 'Tamil Nadu' },
+    dharmapuri: { lat: 12.13, lon: 78.16, state: 'Tamil Nadu' },
+    dindigul: { lat: 10.36, lon: 77.98, state: 'Tamil Nadu' },
+    erode: { lat: 11.34, lon: 77.72, state: 'Tamil Nadu' },
+    kallakurichi: { lat: 11.74, lon: 78.96, state: 'Tamil Nadu' },
+    kancheepuram: { lat: 12.83, lon: 79.70, state: 'Tamil Nadu' },
+    kanniyakumari: { lat: 8.18, lon: 77.41, state: 'Tamil Nadu' },
+    karur: { lat: 10.96, lon: 78.08, state: 'Tamil Nadu' },
+    krishnagiri: { lat: 12.52, lon: 78.21, state: 'Tamil Nadu' },
+    madurai: { lat: 9.93, lon: 78.12, state: 'Tamil Nadu' },
+    mayiladuthurai: { lat: 11.10, lon: 79.65, state: 'Tamil Nadu' },
+    nagapattinam: { lat: 10.77, lon: 79.84, state: 'Tamil Nadu' },
+    namakkal: { lat: 11.22, lon: 78.17, state: 'Tamil Nadu' },
+    nilgiris: { lat: 11.41, lon: 76.70, state: 'Tamil Nadu' },
+    perambalur: { lat: 11.23, lon: 78.88, state: 'Tamil Nadu' },
+    pudukkottai: { lat: 10.38, lon: 78.82, state: 'Tamil Nadu' },
+    ramanathapuram: { lat: 9.37, lon: 78.83, state: 'Tamil Nadu' },
+    ranipet: { lat: 12.93, lon: 79.33, state: 'Tamil Nadu' },
+    salem: { lat: 11.66, lon: 78.15, state: 'Tamil Nadu' },
+    sivaganga: { lat: 9.85, lon: 78.48, state: 'Tamil Nadu' },
+    tenkasi: { lat: 8.96, lon: 77.30, state: 'Tamil Nadu' },
+    thanjavur: { lat: 10.79, lon: 79.14, state: 'Tamil Nadu' },
+    theni: { lat: 10.01, lon: 77.48, state: 'Tamil Nadu' },
+    thoothukudi: { lat: 8.76, lon: 78.13, state: 'Tamil Nadu' },
+    tiruchirappalli: { lat: 10.80, lon: 78.69, state: 'Tamil Nadu' },
+    tirunelveli: { lat: 8.71, lon: 77.76, state: 'Tamil Nadu' },
+    tirupathur: { lat: 12.50, lon: 78.57, state: 'Tamil Nadu' },
+    tiruppur: { lat: 11.11, lon: 77.34, state: 'Tamil Nadu' },
+    tiruvallur: { lat: 13.14, lon: 79.91, state: 'Tamil Nadu' },
+    tiruvannamalai: { lat: 12.23, lon: 79.07, state: 'Tamil Nadu' },
+    tiruvarur: { lat: 10.77, lon: 79.64, state: 'Tamil Nadu' },
+    vellore: { lat: 12.92, lon: 79.13, state: 'Tamil Nadu' },
+    viluppuram: { lat: 11.94, lon: 79.49, state: 'Tamil Nadu' },
+    virudhunagar: { lat: 9.58, lon: 77.96, state: 'Tamil Nadu' },
+
+    // Puducherry and Kerala
+    puducherry: { lat: 11.94, lon: 79.81, state: 'Puducherry' },
+    ernakulam: { lat: 9.98, lon: 76.28, state: 'Kerala' },
+    palakkad: { lat: 10.79, lon: 76.65, state: 'Kerala' },
+    thiruvananthapuram: { lat: 8.52, lon: 76.94, state: 'Kerala' },
+
+    // Karnataka
+    bengaluru: { lat: 12.97, lon: 77.59, state: 'Karnataka' },
+    kolar: { lat: 13.14, lon: 78.13, state: 'Karnataka' },
+    mysuru: { lat: 12.30, lon: 76.64, state: 'Karnataka' },
+    hubballi: { lat: 15.36, lon: 75.12, state: 'Karnataka' },
+
+    // Andhra Pradesh
+    anantapur: { lat: 14.68, lon: 77.60, state: 'Andhra Pradesh' },
+    chittoor: { lat: 13.22, lon: 79.10, state: 'Andhra Pradesh' },
+    guntur: { lat: 16.31, lon: 80.44, state: 'Andhra Pradesh' },
+    krishna: { lat: 16.51, lon: 80.65, state: 'Andhra Pradesh' },
+    kurnool: { lat: 15.83, lon: 78.04, state: 'Andhra Pradesh' },
+    nellore: { lat: 14.44, lon: 79.99, state: 'Andhra Pradesh' },
+
+    // Telangana
+    hyderabad: { lat: 17.39, lon: 78.49, state: 'Telangana' },
+    khammam: { lat: 17.25, lon: 80.15, state: 'Telangana' },
+    nizamabad: { lat: 18.67, lon: 78.10, state: 'Telangana' },
+    warangal: { lat: 17.97, lon: 79.59, state: 'Telangana' },
+
+    // Big terminal markets elsewhere
+    agra: { lat: 27.18, lon: 78.01, state: 'Uttar Pradesh' },
+    ahmedabad: { lat: 23.02, lon: 72.57, state: 'Gujarat' },
+    delhi: { lat: 28.70, lon: 77.10, state: 'Delhi' },
+    indore: { lat: 22.72, lon: 75.86, state: 'Madhya Pradesh' },
+    jaipur: { lat: 26.91, lon: 75.79, state: 'Rajasthan' },
+    kolkata: { lat: 22.57, lon: 88.36, state: 'West Bengal' },
+    lucknow: { lat: 26.85, lon: 80.95, state: 'Uttar Pradesh' },
+    mumbai: { lat: 19.08, lon: 72.88, state: 'Maharashtra' },
+    nagpur: { lat: 21.15, lon: 79.09, state: 'Maharashtra' },
+    nashik: { lat: 20.00, lon: 73.79, state: 'Maharashtra' },
+    pune: { lat: 18.52, lon: 73.86, state: 'Maharashtra' },
+    rajkot: { lat: 22.30, lon: 70.80, state: 'Gujarat' },
+};
+
+// Markets keyed by lower-case market (town) name, located where they are
+// rather than at their district's centroid
+export const MARKET_LOCATIONS: Record<string, DistrictCentroid> = {
+    koyambedu: { lat: 13.07, lon: 80.20, state: 'Tamil Nadu' },
+    attur: { lat: 11.60, lon: 78.60, state: 'Tamil Nadu' },
+    oddanchatram: { lat: 10.49, lon: 77.75, state: 'Tamil Nadu' },
+    pollachi: { lat: 10.66, lon: 77.01, state: 'Tamil Nadu' },
+    mettupalayam: { lat: 11.30, lon: 76.94, state: 'Tamil Nadu' },
+    kumbakonam: { lat: 10.96, lon: 79.38, state: 'Tamil Nadu' },
+    hosur: { lat: 12.74, lon: 77.83, state: 'Tamil Nadu' },
+    madanapalle: { lat: 13.55, lon: 78.50, state: 'Andhra Pradesh' },
+    tirupati: { lat: 13.63, lon: 79.42, state: 'Andhra Pradesh' },
+    lasalgaon: { lat: 20.15, lon: 74.23, state: 'Maharashtra' },
+    vashi: { lat: 19.08, lon: 73.00, state: 'Maharashtra' },
+    azadpur: { lat: 28.71, lon: 77.18, state: 'Delhi' },
+};
+
+export const DISTRICT_ALIASES: Record<string, string> = {
+    bangalore: 'bengaluru',
+    kanchipuram: 'kancheepuram',
+    kanyakumari: 'kanniyakumari',
+    nagercoil: 'kanniyakumari',
+    ooty: 'nilgiris',
+    'the nilgiris': 'nilgiris',
+    trichy: 'tiruchirappalli',
+    tiruchi: 'tiruchirappalli',
+    tuticorin: 'thoothukudi',
+    tirupur: 'tiruppur',
+    thiruvallur: 'tiruvallur',
+    thiruvarur: 'tiruvarur',
+    villupuram: 'viluppuram',
+    tanjore: 'thanjavur',
+    koyambedu: 'chennai',
+    hosur: 'krishnagiri',
+    pondicherry: 'puducherry',
+    kochi: 'ernakulam',
+    cochin: 'ernakulam',
+    trivandrum: 'thiruvananthapuram',
+    mysore: 'mysuru',
+    hubli: 'hubballi',
+    madanapalle: 'chittoor',
+    tirupati: 'chittoor',
+    vijayawada: 'krishna',
+    'new delhi': 'delhi',
+    azadpur: 'delhi',
+    lasalgaon: 'nashik',
+    bombay: 'mumbai',
+    vashi: 'mumbai',
+    calcutta: 'kolkata',
+};
+
+// Words Agmarknet adds to market names ("Salem(Uzhavar Sandhai )", "Kolar APMC")
+const MARKET_NOISE = /\b(apmc|mandi|market|yard|uzhavar sandhai|grain|vegetable|f&v)\b/g;
+
+function normalizePlace(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/\(.*?\)/g, ' ')
+        .replace(MARKET_NOISE, ' ')
+        .replace(/[^a-z\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * A typed district/market name in the form data.gov.in filters expect:
+ * its filters are exact and case-sensitive, so "  salem " becomes "Salem"
+ */
+export function toAgmarknetPlace(place: string): string {
+    return place
+        .trim()
+        .replace(/\s+/g, ' ')
+        .toLowerCase()
+        .replace(/(^|[\s(-])\p{L}/gu, (match) => match.toUpperCase());
+}
+
+// The whole normalised name, then each word ("Salem Uzhavar Sandhai" → salem)
+function placeCandidates(place: string | undefined): string[] {
+    const name = place ? normalizePlace(place) : '';
+    return name ? [name, ...name.split(' ')] : [];
+}
+
+/**
+ * Centroid for a district, city or market name, or null when unknown
+ */
+export function findDistrictCentroid(place: string | undefined): DistrictCentroid | null {
+    for (const candidate of placeCandidates(place)) {
+        const key = DISTRICT_ALIASES[candidate] || candidate;
+        if (DISTRICT_CENTROIDS[key]) return DISTRICT_CENTROIDS[key];
+    }
+    return null;
+}
+
+/**
+ * Location of a market listed in MARKET_LOCATIONS, or null
+ */
+export function findMarketLocation(market: string | undefined): DistrictCentroid | null {
+    for (const candidate of placeCandidates(market)) {
+        if (MARKET_LOCATIONS[candidate]) return MARKET_LOCATIONS[candidate];
+    }
+    return null;
+}
+
+/**
+ * Estimated road distance in km between two centroids (haversine
+ * distance times ROAD_DISTANCE_FACTOR)
+ */
+export function getRoadDistanceKm(from: DistrictCentroid, to: DistrictCentroid): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLon = toRadians(to.lon - from.lon);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+    const straightKm = 2 * 6371 * Math.asin(Math.sqrt(a));
+    return Math.round(straightKm * ROAD_DISTANCE_FACTOR);
+}
@@ -0,0 +1,260 @@
+/**
+ * Flood Risk Backtesting Harness
+ *
+ * Replays historical daily rainfall per district through the flood risk
+ * engine and scores each threshold configuration against known flood
+ * events, so agronomists can tune weights with evidence.
+ *
+ * REPLAY (per district, per day):
+ * - Current rainfall: that day's observed rainfall
+ * - Streak: consecutive rainy days ending that day
+ * - Forecast: the next `forecastDays` of observed rainfall (a perfect
+ *   forecast, so results are an upper bound on real-world skill)
+ * - Antecedent: decay-weighted rainfall of the previous 7 days
+ *
+ * SCORING:
+ * - An event is a HIT if an alarm (level >= alarmLevel) was raised on the
+ *   event day or within `leadWindowDays` before it
+ * - Lead time is measured from the first alarm in that window
+ * - An alarm day is FALSE if no event follows within `leadWindowDays`
+ */
+
+import {
+    calculateFloodRisk,
+    DEFAULT_FLOOD_RISK_CONFIG,
+    FloodRiskConfig,
+    FloodRiskLevel,
+} from './flood-risk';
+
+export interface HistoricalDay {
+    district: string;
+    date: string; // YYYY-MM-DD
+    rainfall: number;
+    floodEvent: boolean;
+}
+
+export interface BacktestOptions {
+    alarmLevel: Exclude<FloodRiskLevel, 'LOW'>;
+    leadWindowDays: number;
+    forecastDays: number;
+}
+
+export interface BacktestCandidate {
+    name: string;
+    config: FloodRiskConfig;
+}
+
+export interface ReplayedDay {
+    district: string;
+    date: string;
+    level: FloodRiskLevel;
+    score: number;
+    floodEvent: boolean;
+}
+
+export interface BacktestResult {
+    name: string;
+    events: number;
+    hits: number;
+    misses: number;
+    hitRate: number;            // 0-1
+    alarmDays: number;
+    falseAlarms: number;
+    falseAlarmRatio: number;    // 0-1, share of alarm days with no event following
+    meanLeadTimeDays: number | null;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+    alarmLevel: 'HIGH',
+    leadWindowDays: 3,
+    forecastDays: 5,
+};
+
+const LEVEL_RANK: Record<FloodRiskLevel, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+const CSV_COLUMNS = ['district', 'date', 'rainfall_mm'] as const;
+
+/**
+ * Parse a historical rainfall CSV.
+ *
+ * Required columns: district, date, rainfall_mm.
+ * Optional column: flood_event (1/true/yes marks a known flood day).
+ */
+export function parseHistoricalCsv(text: string): HistoricalDay[] {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    if (!headerLine) return [];
+
+    const headers = headerLine.split(',').map((h) => h.trim().toLowerCase());
+    const missing = CSV_COLUMNS.filter((column) => !headers.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+    }
+
+    const index = (column: string) => headers.indexOf(column);
+    const eventIndex = index('flood_event');
+
+    return lines.map((line, i) => {
+        const cells = line.split(',').map((c) => c.trim());
+        const rainfall = parseFloat(cells[index('rainfall_mm')]);
+
+        if (Number.isNaN(rainfall)) {
+            throw new Error(`Invalid rainfall on line ${i + 2}`);
+        }
+
+        return {
+            district: cells[index('district')],
+            date: cells[index('date')],
+            rainfall,
+            floodEvent: eventIndex >= 0 && ['1', 'true', 'yes'].includes((cells[eventIndex] || '').toLowerCase()),
+        };
+    });
+}
+
+function groupByDistrict(days: HistoricalDay[]): Map<string, HistoricalDay[]> {
+    const groups = new Map<string, HistoricalDay[]>();
+    for (const day of days) {
+        const key = day.district.toLowerCase();
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(day);
+    }
+    groups.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+    return groups;
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+/**
+ * Replay one district's history (sorted by date) through the engine
+ */
+export function replayDistrict(
+    history: HistoricalDay[],
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG,
+    options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): ReplayedDay[] {
+    let streak = 0;
+
+    return history.map((day, i) => {
+        streak = day.rainfall > 0 ? streak + 1 : 0;
+
+        const forecastRainfall = history
+            .slice(i + 1, i + 1 + options.forecastDays)
+            .map((d) => d.rainfall);
+
+        const antecedentRainfall = history
+            .slice(Math.max(0, i - 7), i)
+            .reverse()
+            .reduce((sum, d, daysAgo) => sum + d.rainfall * Math.pow(config.antecedentDecay, daysAgo), 0);
+
+        const result = calculateFloodRisk(
+            {
+                rainfall: day.rainfall,
+                consecutiveRainyDays: streak,
+                forecastRainfall,
+                antecedentRainfall,
+            },
+            config
+        );
+
+        return {
+            district: day.district,
+            date: day.date,
+            level: result.level,
+            score: result.score,
+            floodEvent: day.floodEvent,
+        };
+    });
+}
+
+/**
+ * Score one configuration across all districts
+ */
+export function evaluateCandidate(
+    days: HistoricalDay[],
+    candidate: BacktestCandidate,
+    options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestResult {
+    let events = 0;
+    let hits = 0;
+    let alarmDays = 0;
+    let falseAlarms = 0;
+    const leadTimes: number[] = [];
+
+    groupByDistrict(days).forEach((history) => {
+        const replayed = replayDistrict(history, candidate.config, options);
+        const isAlarm = (d: ReplayedDay) => LEVEL_RANK[d.level] >= LEVEL_RANK[options.alarmLevel];
+        const eventDates = replayed.filter((d) => d.floodEvent).map((d) => d.date);
+
+        // Events: hit if any alarm in [event - leadWindow, event]
+        for (const eventDate of eventDates) {
+            events++;
+            const alarmsBefore = replayed.filter((d) => {
+                const lead = daysBetween(d.date, eventDate);
+                return isAlarm(d) && lead >= 0 && lead <= options.leadWindowDays;
+            });
+            if (alarmsBefore.length > 0) {
+                hits++;
+                leadTimes.push(daysBetween(alarmsBefore[0].date, eventDate));
+            }
+        }
+
+        // Alarms: false if no event in [alarm, alarm + leadWindow]
+        for (const day of replayed.filter(isAlarm)) {
+            alarmDays++;
+            const followed = eventDates.some((eventDate) => {
+                const lead = daysBetween(day.date, eventDate);
+                return lead >= 0 && lead <= options.leadWindowDays;
+            });
+            if (!followed) falseAlarms++;
+        }
+    });
+
+    return {
+        name: candidate.name,
+        events,
+        hits,
+        misses: events - hits,
+        hitRate: events > 0 ? hits / events : 0,
+        alarmDays,
+        falseAlarms,
+        falseAlarmRatio: alarmDays > 0 ? falseAlarms / alarmDays : 0,
+        meanLeadTimeDays: leadTimes.length > 0
+            ? leadTimes.reduce((a, b) => a + b, 0) / leadTimes.length
+            : null,
+    };
+}
+
+/**
+ * Run every candidate configuration against the same history
+ */
+export function runBacktest(
+    days: HistoricalDay[],
+    candidates: BacktestCandidate[],
+    options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestResult[] {
+    return candidates.map((candidate) => evaluateCandidate(days, candidate, options));
+}
+
+/**
+ * Build candidates that vary the MEDIUM/HIGH thresholds of a base config
+ */
+export function buildThresholdCandidates(
+    highThresholds: number[],
+    mediumThresholds: number[],
+    base: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
+): BacktestCandidate[] {
+    const candidates: BacktestCandidate[] = [];
+
+    for (const medium of mediumThresholds) {
+        for (const high of highThresholds) {
+            if (medium >= high) continue;
+            candidates.push({
+                name: `MEDIUM ≥ ${medium}, HIGH ≥ ${high}`,
+                config: { ...base, thresholds: { medium, high } },
+            });
+        }
+    }
+
+    return candidates;
+}
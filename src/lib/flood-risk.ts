@@ -13,127 +13,592 @@
  * CALCULATION FACTORS:
  * 1. Current rainfall amount (in mm)
  * 2. Number of consecutive rainy days
- * 3. Historical flooding patterns (future enhancement)
+ * 3. Total forecast rainfall over the coming days
+ * 4. Antecedent precipitation index (rain already soaked into the soil)
+ * 5. River gauge / reservoir levels against their warning and danger marks
+ *    (catches upstream release floods that local rain alone misses)
+ * 6. Recent farmer flood reports in the district, counted once
+ *    enough of them cluster together (ground truth ahead of forecasts)
+ * 7. Field susceptibility (terrain, soil, drainage, nearness to water),
+ *    applied as multipliers on the weather score
+ *
+ * All weights and thresholds live in a typed FloodRiskConfig so that the
+ * Dashboard, Chat and any server-side evaluation share one formula.
  */
 
 export type FloodRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
 
+export type FloodRiskFactorId = 'rainfall' | 'streak' | 'forecast' | 'antecedent' | 'waterLevel' | 'reports';
+
+export type WaterLevelStatus = 'NORMAL' | 'WARNING' | 'DANGER';
+
+export type FloodReportSeverity = 'waterlogging' | 'flooding' | 'severe';
+
+export type FieldTerrain = 'low_lying' | 'plain' | 'upland';
+export type SoilTexture = 'clay' | 'loam' | 'sandy';
+export type DrainageQuality = 'poor' | 'moderate' | 'good';
+export type WaterProximity = 'near' | 'moderate' | 'far';
+
+/**
+ * Per-field attributes that make one farm flood sooner than its neighbour
+ */
+export interface FieldSusceptibility {
+    terrain: FieldTerrain;
+    soilTexture: SoilTexture;
+    drainage: DrainageQuality;
+    waterProximity: WaterProximity;
+}
+
+export type FieldAttribute = keyof FieldSusceptibility;
+
+/**
+ * A score band: once the measured value reaches `min`, the factor
+ * contributes `score` points. Bands are evaluated highest-first.
+ */
+export interface ScoreBand {
+    min: number;
+    score: number;
+}
+
+export interface FloodRiskConfig {
+    rainfallBands: ScoreBand[];   // current rainfall (mm)
+    streakBands: ScoreBand[];     // consecutive rainy days
+    forecastBands: ScoreBand[];   // total forecast rainfall (mm)
+    antecedentBands: ScoreBand[]; // 7-day antecedent precipitation index (mm)
+    antecedentDecay: number;      // daily decay applied to the index (0-1)
+    waterLevelScores: Record<WaterLevelStatus, number>; // worst nearby gauge status
+    reportScores: Record<FloodReportSeverity, number>;  // worst severity in a report cluster
+    reportClusterMin: number;     // distinct reporting farmers needed before reports count
+    reportWindowHours: number;    // how far back a report stays "recent"
+    fieldMultipliers: {
+        terrain: Record<FieldTerrain, number>;
+        soilTexture: Record<SoilTexture, number>;
+        drainage: Record<DrainageQuality, number>;
+        waterProximity: Record<WaterProximity, number>;
+    };
+    thresholds: {
+        medium: number;           // score at which risk becomes MEDIUM
+        high: number;             // score at which risk becomes HIGH
+    };
+    outlookWindowDays: number;    // rolling window for per-day accumulated rainfall
+}
+
+export interface FloodReportSignal {
+    severity: FloodReportSeverity;
+    reporter: string;            // stable id of the reporting farmer
+}
+
+export interface WaterLevelSignal {
+    stationId: string;
+    name: string;
+    level: number;
+    warningLevel: number;
+    dangerLevel: number;
+    status: WaterLevelStatus;
+}
+
+/**
+ * A flood alert raised directly by a gauge or by neighbours' reports, as
+ * i18n keys so the Dashboard and the scheduled evaluator word it alike
+ */
+export interface FloodSignalAlert {
+    id: string;
+    severity: 'medium' | 'high';
+    titleKey: string;
+    messageKey: string;
+    actionKey: string;
+    params: Record<string, string | number>;
+    dismissible: boolean;
+    cooldownHours?: number;      // 0 = never suppressed; unset = policy default
+}
+
+export interface FloodRiskInput {
+    rainfall: number;
+    consecutiveRainyDays: number;
+    forecastRainfall: number[];
+    antecedentRainfall?: number; // 7-day antecedent precipitation index (mm)
+    waterLevels?: Array<{ status: WaterLevelStatus }>;
+    floodReports?: FloodReportSignal[]; // recent reports in the district
+    field?: FieldSusceptibility;
+}
+
+/**
+ * Inputs beyond today's weather that shape both the current result and
+ * the per-day outlook
+ */
+export type FloodRiskContext = Omit<FloodRiskInput, 'rainfall' | 'consecutiveRainyDays' | 'forecastRainfall'>;
+
+/**
+ * Contribution of a single input to the total score,
+ * used to explain "why this level" in the UI.
+ */
+export interface FloodRiskFactor {
+    id: FloodRiskFactorId;
+    labelKey: string; // i18n key, e.g. 'dashboard.flood.factors.rainfall'
+    value: number;
+    unitKey: string; // i18n key, filled from `unitParams`
+    unitParams?: Record<string, string | number>;
+    score: number;
+    maxScore: number;
+}
+
+/**
+ * Multiplier applied for one field attribute; > 1 means the
+ * attribute raised the risk, < 1 means it lowered it.
+ */
+export interface FieldAdjustment {
+    attribute: FieldAttribute;
+    value: string;
+    labelKey: string; // i18n key from FIELD_VALUE_LABEL_KEYS
+    multiplier: number;
+}
+
 export interface FloodRiskResult {
     level: FloodRiskLevel;
     score: number; // 0-100
-    advice: string;
+    adviceKey: string; // i18n key, e.g. 'dashboard.flood.advice.high'
     color: string;
     bgColor: string;
+    factors: FloodRiskFactor[];
+    fieldAdjustments: FieldAdjustment[];
+}
+
+// i18n keys for each field attribute value
+export const FIELD_VALUE_LABEL_KEYS: {
+    [K in FieldAttribute]: Record<FieldSusceptibility[K], string>;
+} = {
+    terrain: {
+        low_lying: 'dashboard.field.values.terrain.low_lying',
+        plain: 'dashboard.field.values.terrain.plain',
+        upland: 'dashboard.field.values.terrain.upland',
+    },
+    soilTexture: {
+        clay: 'dashboard.field.values.soilTexture.clay',
+        loam: 'dashboard.field.values.soilTexture.loam',
+        sandy: 'dashboard.field.values.soilTexture.sandy',
+    },
+    drainage: {
+        poor: 'dashboard.field.values.drainage.poor',
+        moderate: 'dashboard.field.values.drainage.moderate',
+        good: 'dashboard.field.values.drainage.good',
+    },
+    waterProximity: {
+        near: 'dashboard.field.values.waterProximity.near',
+        moderate: 'dashboard.field.values.waterProximity.moderate',
+        far: 'dashboard.field.values.waterProximity.far',
+    },
+};
+
+/**
+ * Minimal forecast entry needed for the per-day outlook
+ * (structurally compatible with WeatherData['forecast'])
+ */
+export interface FloodOutlookInputDay {
+    date: string;
+    dayName: string;
+    rainfall: number;
+}
+
+export interface FloodOutlookDay {
+    date: string;
+    dayName: string;
+    rainfall: number;
+    accumulatedRainfall: number;
+    consecutiveRainyDays: number;
+    level: FloodRiskLevel;
+    score: number;
+}
+
+/**
+ * Default weights: rainfall up to 40 points, streak up to 30,
+ * forecast up to 30, antecedent rain up to 40, gauges up to 60,
+ * farmer reports up to 45 (total capped at 100). A gauge above danger
+ * level alone means HIGH. MEDIUM from 30, HIGH from 60.
+ */
+export const DEFAULT_FLOOD_RISK_CONFIG: FloodRiskConfig = {
+    rainfallBands: [
+        { min: 100, score: 40 },
+        { min: 50, score: 30 },
+        { min: 30, score: 20 },
+        { min: 10, score: 10 },
+    ],
+    streakBands: [
+        { min: 5, score: 30 },
+        { min: 3, score: 20 },
+        { min: 2, score: 10 },
+    ],
+    forecastBands: [
+        { min: 100, score: 30 },
+        { min: 50, score: 20 },
+        { min: 20, score: 10 },
+    ],
+    antecedentBands: [
+        { min: 120, score: 40 },
+        { min: 60, score: 30 },
+        { min: 30, score: 15 },
+    ],
+    antecedentDecay: 0.9,
+    waterLevelScores: { NORMAL: 0, WARNING: 30, DANGER: 60 },
+    reportScores: { waterlogging: 15, flooding: 30, severe: 45 },
+    reportClusterMin: 3,
+    reportWindowHours: 48,
+    fieldMultipliers: {
+        terrain: { low_lying: 1.3, plain: 1.0, upland: 0.8 },
+        soilTexture: { clay: 1.15, loam: 1.0, sandy: 0.9 },
+        drainage: { poor: 1.2, moderate: 1.0, good: 0.85 },
+        waterProximity: { near: 1.25, moderate: 1.05, far: 1.0 },
+    },
+    thresholds: {
+        medium: 30,
+        high: 60,
+    },
+    outlookWindowDays: 3,
+};
+
+/**
+ * Resolve the points for a value against a set of bands
+ */
+export function scoreFromBands(value: number, bands: ScoreBand[]): number {
+    const sorted = [...bands].sort((a, b) => b.min - a.min);
+    return sorted.find((band) => value >= band.min)?.score ?? 0;
+}
+
+function maxBandScore(bands: ScoreBand[]): number {
+    return bands.reduce((max, band) => Math.max(max, band.score), 0);
+}
+
+const REPORT_SEVERITY_RANK: Record<FloodReportSeverity, number> = { waterlogging: 0, flooding: 1, severe: 2 };
+
+/**
+ * Worst severity among a set of farmer reports, or null if there are none
+ */
+export function getWorstReportSeverity(
+    reports: Array<{ severity: FloodReportSeverity }>
+): FloodReportSeverity | null {
+    return reports.reduce<FloodReportSeverity | null>(
+        (worst, report) =>
+            worst === null || REPORT_SEVERITY_RANK[report.severity] > REPORT_SEVERITY_RANK[worst]
+                ? report.severity
+                : worst,
+        null
+    );
+}
+
+/**
+ * Distinct farmers behind a set of reports
+ */
+export function countReporters(reports: FloodReportSignal[]): number {
+    return new Set(reports.map((report) => report.reporter)).size;
+}
+
+/**
+ * A single report may be mistaken; reports from several farmers are a
+ * signal. One farmer filing several reports still counts once.
+ */
+export function isFloodReportCluster(
+    reports: FloodReportSignal[],
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
+): boolean {
+    return countReporters(reports) >= config.reportClusterMin;
+}
+
+/**
+ * Alerts that fire straight from the signals, whatever the rainfall:
+ * one per gauge at its warning or danger mark (upstream releases can
+ * flood fields without local rain), and one for a cluster of reports
+ */
+export function getFloodSignalAlerts(
+    waterLevels: WaterLevelSignal[],
+    floodReports: FloodReportSignal[]
+): FloodSignalAlert[] {
+    const alerts: FloodSignalAlert[] = waterLevels
+        .filter((reading) => reading.status !== 'NORMAL')
+        .map((reading) => {
+            const isDanger = reading.status === 'DANGER';
+            const status = isDanger ? 'danger' : 'warning';
+            return {
+                id: `water-level-${reading.stationId}`,
+                severity: isDanger ? 'high' : 'medium',
+                titleKey: `alerts.waterLevel.${status}.title`,
+                messageKey: `alerts.waterLevel.${status}.message`,
+                actionKey: `alerts.waterLevel.${status}.action`,
+                params: {
+                    name: reading.name,
+                    level: reading.level,
+                    mark: isDanger ? reading.dangerLevel : reading.warningLevel,
+                },
+                dismissible: !isDanger,
+                cooldownHours: isDanger ? 0 : undefined,
+            };
+        });
+
+    if (isFloodReportCluster(floodReports)) {
+        const isSevere = getWorstReportSeverity(floodReports) === 'severe';
+        alerts.push({
+            id: 'flood-reports-cluster',
+            severity: isSevere ? 'high' : 'medium',
+            titleKey: isSevere ? 'alerts.reports.severeTitle' : 'alerts.reports.title',
+            messageKey: 'alerts.reports.message',
+            actionKey: 'alerts.reports.action',
+            params: { count: countReporters(floodReports) },
+            dismissible: !isSevere,
+            cooldownHours: isSevere ? 0 : undefined,
+        });
+    }
+
+    return alerts;
+}
+
+/**
+ * Resolve the multiplier for each recorded field attribute
+ */
+export function getFieldAdjustments(
+    field: FieldSusceptibility,
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
+): FieldAdjustment[] {
+    const attributes: FieldAttribute[] = ['terrain', 'soilTexture', 'drainage', 'waterProximity'];
+
+    return attributes.map((attribute) => {
+        const value = field[attribute];
+        const multipliers = config.fieldMultipliers[attribute] as Record<string, number>;
+        const labelKeys = FIELD_VALUE_LABEL_KEYS[attribute] as Record<string, string>;
+        return {
+            attribute,
+            value,
+            labelKey: labelKeys[value],
+            multiplier: multipliers[value] ?? 1,
+        };
+    });
+}
+
+/**
+ * Map a total score to a risk level with its advice (i18n key) and colors
+ */
+export function getFloodRiskLevel(
+    score: number,
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
+): Pick<FloodRiskResult, 'level' | 'adviceKey' | 'color' | 'bgColor'> {
+    if (score >= config.thresholds.high) {
+        return {
+            level: 'HIGH',
+            adviceKey: 'dashboard.flood.advice.high',
+            color: 'text-red-700',
+            bgColor: 'bg-red-100',
+        };
+    }
+
+    if (score >= config.thresholds.medium) {
+        return {
+            level: 'MEDIUM',
+            adviceKey: 'dashboard.flood.advice.medium',
+            color: 'text-amber-700',
+            bgColor: 'bg-amber-100',
+        };
+    }
+
+    return {
+        level: 'LOW',
+        adviceKey: 'dashboard.flood.advice.low',
+        color: 'text-green-700',
+        bgColor: 'bg-green-100',
+    };
 }
 
 /**
  * Calculate flood risk based on rainfall and weather patterns
- * 
- * Rule-based logic:
- * - LOW:    Rainfall < 50mm OR less than 2 consecutive rainy days
- * - MEDIUM: Rainfall 50-100mm AND 2-4 consecutive rainy days
- * - HIGH:   Rainfall > 100mm OR more than 4 consecutive rainy days
- * 
- * @param rainfall - Current/recent rainfall in millimeters (mm)
- * @param consecutiveRainyDays - Number of consecutive days with rain
- * @returns FloodRiskResult with level, score, advice, and colors
+ *
+ * Each factor is scored against its bands in the config and the
+ * points are summed. If a field profile is given, the sum is scaled by
+ * the product of its attribute multipliers. The total is capped at 100.
+ * The breakdown is returned in `factors` and `fieldAdjustments` so the
+ * UI can show which inputs drove the level.
+ *
+ * @param input - Current rainfall, rainy-day streak, forecast rainfall and optional context
+ * @param config - Weights and thresholds (defaults to DEFAULT_FLOOD_RISK_CONFIG)
+ * @returns FloodRiskResult with level, score, advice key, colors and factors
  */
 export function calculateFloodRisk(
-    rainfall: number,
-    consecutiveRainyDays: number
+    input: FloodRiskInput,
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
 ): FloodRiskResult {
-    // Calculate base score from rainfall (0-60 points)
-    let rainfallScore = 0;
-    if (rainfall < 20) {
-        rainfallScore = 0;
-    } else if (rainfall < 50) {
-        rainfallScore = 15;
-    } else if (rainfall < 100) {
-        rainfallScore = 35;
-    } else if (rainfall < 150) {
-        rainfallScore = 50;
-    } else {
-        rainfallScore = 60;
+    const totalForecastRain = input.forecastRainfall.reduce((sum, r) => sum + r, 0);
+
+    const factors: FloodRiskFactor[] = [
+        {
+            id: 'rainfall',
+            labelKey: 'dashboard.flood.factors.rainfall',
+            value: input.rainfall,
+            unitKey: 'dashboard.flood.units.mm',
+            score: scoreFromBands(input.rainfall, config.rainfallBands),
+            maxScore: maxBandScore(config.rainfallBands),
+        },
+        {
+            id: 'streak',
+            labelKey: 'dashboard.flood.factors.streak',
+            value: input.consecutiveRainyDays,
+            unitKey: 'dashboard.flood.units.days',
+            score: scoreFromBands(input.consecutiveRainyDays, config.streakBands),
+            maxScore: maxBandScore(config.streakBands),
+        },
+        {
+            id: 'forecast',
+            labelKey: 'dashboard.flood.factors.forecast',
+            value: Math.round(totalForecastRain),
+            unitKey: 'dashboard.flood.units.mm',
+            score: scoreFromBands(totalForecastRain, config.forecastBands),
+            maxScore: maxBandScore(config.forecastBands),
+        },
+    ];
+
+    // Only scored when the archive has history; unknown is not the same as dry
+    if (input.antecedentRainfall !== undefined) {
+        factors.push({
+            id: 'antecedent',
+            labelKey: 'dashboard.flood.factors.antecedent',
+            value: Math.round(input.antecedentRainfall),
+            unitKey: 'dashboard.flood.units.mm',
+            score: scoreFromBands(input.antecedentRainfall, config.antecedentBands),
+            maxScore: maxBandScore(config.antecedentBands),
+        });
     }
 
-    // Calculate consecutive days score (0-40 points)
-    let daysScore = 0;
-    if (consecutiveRainyDays < 2) {
-        daysScore = 0;
-    } else if (consecutiveRainyDays < 3) {
-        daysScore = 10;
-    } else if (consecutiveRainyDays < 5) {
-        daysScore = 25;
-    } else {
-        daysScore = 40;
+    // Nearby gauges and reservoirs: score the worst status, count those at warning or above
+    if (input.waterLevels && input.waterLevels.length > 0) {
+        const statusScores = input.waterLevels.map((gauge) => config.waterLevelScores[gauge.status]);
+        factors.push({
+            id: 'waterLevel',
+            labelKey: 'dashboard.flood.factors.waterLevel',
+            value: input.waterLevels.filter((gauge) => gauge.status !== 'NORMAL').length,
+            unitKey: 'dashboard.flood.units.ofGauges',
+            unitParams: { total: input.waterLevels.length },
+            score: Math.max(...statusScores),
+            maxScore: Math.max(...Object.values(config.waterLevelScores)),
+        });
     }
 
-    // Total score
-    const totalScore = rainfallScore + daysScore;
-
-    // Determine risk level based on total score
-    let level: FloodRiskLevel;
-    let advice: string;
-    let color: string;
-    let bgColor: string;
-
-    if (totalScore < 30) {
-        // LOW RISK
-        level = 'LOW';
-        advice = 'Conditions are normal. Safe to proceed with regular farming activities.';
-        color = 'text-green-700';
-        bgColor = 'bg-green-100';
-    } else if (totalScore < 60) {
-        // MEDIUM RISK
-        level = 'MEDIUM';
-        advice = 'Moderate flood risk. Keep drainage clear and monitor weather updates.';
-        color = 'text-amber-700';
-        bgColor = 'bg-amber-100';
-    } else {
-        // HIGH RISK
-        level = 'HIGH';
-        advice = 'High flood risk! Protect crops, move equipment to higher ground, and stay safe.';
-        color = 'text-red-700';
-        bgColor = 'bg-red-100';
+    // Farmer reports: shown as soon as any exist, scored only once they cluster
+    if (input.floodReports && input.floodReports.length > 0) {
+        const worst = getWorstReportSeverity(input.floodReports);
+        factors.push({
+            id: 'reports',
+            labelKey: 'dashboard.flood.factors.reports',
+            value: countReporters(input.floodReports),
+            unitKey: 'dashboard.flood.units.farmers',
+            score: isFloodReportCluster(input.floodReports, config) && worst
+                ? config.reportScores[worst]
+                : 0,
+            maxScore: Math.max(...Object.values(config.reportScores)),
+        });
     }
 
+    const baseScore = factors.reduce((sum, factor) => sum + factor.score, 0);
+
+    const fieldAdjustments = input.field ? getFieldAdjustments(input.field, config) : [];
+    const fieldMultiplier = fieldAdjustments.reduce((product, adj) => product * adj.multiplier, 1);
+
+    const totalScore = Math.min(Math.round(baseScore * fieldMultiplier), 100);
+
     return {
-        level,
+        ...getFloodRiskLevel(totalScore, config),
         score: totalScore,
-        advice,
-        color,
-        bgColor,
+        factors,
+        fieldAdjustments,
     };
 }
 
 /**
- * Get flood safety tips based on risk level
+ * Calculate a day-by-day flood risk outlook across the forecast horizon
+ *
+ * For each forecast day the engine is re-run with:
+ * - that day's rainfall as the current rainfall
+ * - the rainy-day streak up to and including that day
+ * - rainfall accumulated over the rolling `outlookWindowDays` window
+ * - the antecedent index decayed by `antecedentDecay` per day ahead
+ * - the same field profile as today
+ *
+ * @param forecast - Daily forecast entries (date, day name, rainfall)
+ * @param context - Today's antecedent index and field profile, if known
+ * @param config - Weights and thresholds (defaults to DEFAULT_FLOOD_RISK_CONFIG)
+ * @returns One FloodOutlookDay per forecast entry
+ */
+export function calculateFloodOutlook(
+    forecast: FloodOutlookInputDay[],
+    context: FloodRiskContext = {},
+    config: FloodRiskConfig = DEFAULT_FLOOD_RISK_CONFIG
+): FloodOutlookDay[] {
+    const { antecedentRainfall } = context;
+
+    let streak = 0;
+
+    return forecast.map((day, index) => {
+        streak = day.rainfall > 0 ? streak + 1 : 0;
+
+        const window = forecast
+            .slice(Math.max(0, index - config.outlookWindowDays + 1), index + 1)
+            .map((d) => d.rainfall);
+
+        const result = calculateFloodRisk(
+            {
+                ...context,
+                rainfall: day.rainfall,
+                consecutiveRainyDays: streak,
+                forecastRainfall: window,
+                antecedentRainfall: antecedentRainfall !== undefined
+                    ? antecedentRainfall * Math.pow(config.antecedentDecay, index)
+                    : undefined,
+            },
+            config
+        );
+
+        return {
+            date: day.date,
+            dayName: day.dayName,
+            rainfall: day.rainfall,
+            accumulatedRainfall: window.reduce((sum, r) => sum + r, 0),
+            consecutiveRainyDays: streak,
+            level: result.level,
+            score: result.score,
+        };
+    });
+}
+
+/**
+ * Get flood safety tips (i18n keys) based on risk level
  */
 export function getFloodSafetyTips(level: FloodRiskLevel): string[] {
     const tips: Record<FloodRiskLevel, string[]> = {
-        LOW: [
-            'Continue regular farming activities',
-            'Check and maintain drainage systems',
-            'Monitor weather forecasts regularly',
-        ],
-        MEDIUM: [
-            'Clear all drainage channels',
-            'Move valuable equipment to higher ground',
-            'Prepare sandbags if available',
-            'Keep emergency supplies ready',
-            'Stay updated with local weather alerts',
-        ],
-        HIGH: [
-            'Move livestock to safe areas immediately',
-            'Do not enter flooded fields',
-            'Disconnect electrical equipment',
-            'Store harvested crops in elevated areas',
-            'Contact local authorities if needed',
-            'Avoid travel during heavy rainfall',
-        ],
+        LOW: ['continueFarming', 'maintainDrainage', 'monitorForecasts'],
+        MEDIUM: ['clearDrainage', 'moveEquipment', 'prepareSandbags', 'emergencySupplies', 'followAlerts'],
+        HIGH: ['moveLivestock', 'avoidFloodedFields', 'disconnectElectrical', 'elevateCrops', 'contactAuthorities', 'avoidTravel'],
+    };
+
+    return tips[level].map((tip) => `dashboard.flood.safetyTips.${tip}`);
+}
+
+export interface FloodChecklistItem {
+    id: string;
+    labelKey: string; // i18n key, e.g. 'dashboard.flood.checklistItems.drainage-cleared'
+}
+
+/**
+ * Interactive preparedness checklist for a risk level.
+ * Item ids are stable so progress can be persisted per user.
+ * LOW risk has nothing to prepare, so its list is empty.
+ */
+export function getFloodChecklist(level: FloodRiskLevel): FloodChecklistItem[] {
+    const item = (id: string): FloodChecklistItem => ({ id, labelKey: `dashboard.flood.checklistItems.${id}` });
+    const drainage = item('drainage-cleared');
+    const equipment = item('equipment-moved');
+    const livestock = item('livestock-moved');
+    const grain = item('grain-elevated');
+
+    const checklists: Record<FloodRiskLevel, FloodChecklistItem[]> = {
+        LOW: [],
+        MEDIUM: [drainage, equipment, grain, item('sandbags-ready'), item('emergency-kit')],
+        HIGH: [livestock, grain, drainage, equipment, item('power-disconnected'), item('contacts-ready')],
     };
 
-    return tips[level];
+    return checklists[level];
 }
 
 /**
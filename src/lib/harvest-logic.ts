@@ -2,7 +2,7 @@ import { WeatherData } from './api';
 
 export interface HarvestRecommendation {
     status: 'DELAY' | 'CAUTION' | 'HARVEST';
-    label: string;
+    labelKey: string; // i18n key, e.g. 'dashboard.harvest.heavyRain.label'
     color: 'red' | 'amber' | 'emerald';
     details: {
         rainfall: 'none' | 'moderate' | 'heavy';
@@ -10,7 +10,7 @@ export interface HarvestRecommendation {
         temperature: 'normal' | 'extreme';
         season: string;
     };
-    reason: string;
+    reasonKey: string; // i18n key
 }
 
 export function analyzeHarvestConditions(weather: WeatherData): HarvestRecommendation {
@@ -55,49 +55,49 @@ export function analyzeHarvestConditions(weather: WeatherData): HarvestRecommend
     if (rainfallStatus === 'heavy') {
         return {
             status: 'DELAY',
-            label: 'Do Not Harvest',
+            labelKey: 'dashboard.harvest.heavyRain.label',
             color: 'red',
             details: { rainfall: rainfallStatus, humidity: humidityStatus, temperature: tempStatus, season },
-            reason: 'Heavy rain detected. Harvesting now risks crop spoilage and fungal growth.'
+            reasonKey: 'dashboard.harvest.heavyRain.reason'
         };
     }
 
     if (rainfallStatus === 'moderate') {
         return {
             status: 'DELAY',
-            label: 'Delay Recommended',
+            labelKey: 'dashboard.harvest.lightRain.label',
             color: 'red',
             details: { rainfall: rainfallStatus, humidity: humidityStatus, temperature: tempStatus, season },
-            reason: 'Light to moderate rain detected. Wait for dry spell to prevent moisture issues.'
+            reasonKey: 'dashboard.harvest.lightRain.reason'
         };
     }
 
     if (humidityStatus === 'high') {
         return {
             status: 'CAUTION',
-            label: 'Harvest with Caution',
+            labelKey: 'dashboard.harvest.highHumidity.label',
             color: 'amber',
             details: { rainfall: rainfallStatus, humidity: humidityStatus, temperature: tempStatus, season },
-            reason: 'High humidity (>80%) detected. Ensure immediate drying or proper storage ventilation.'
+            reasonKey: 'dashboard.harvest.highHumidity.reason'
         };
     }
 
     if (tempStatus === 'extreme') {
         return {
             status: 'CAUTION',
-            label: 'Harvest Early Morning',
+            labelKey: 'dashboard.harvest.extremeTemperature.label',
             color: 'amber',
             details: { rainfall: rainfallStatus, humidity: humidityStatus, temperature: tempStatus, season },
-            reason: 'Extreme temperatures detected. Harvest during cooler hours to reduce crop stress.'
+            reasonKey: 'dashboard.harvest.extremeTemperature.reason'
         };
     }
 
     // Default: Good conditions
     return {
         status: 'HARVEST',
-        label: 'Good to Harvest',
+        labelKey: 'dashboard.harvest.goodConditions.label',
         color: 'emerald',
         details: { rainfall: rainfallStatus, humidity: humidityStatus, temperature: tempStatus, season },
-        reason: 'Weather conditions are dry and stable. Suitable for harvesting.'
+        reasonKey: 'dashboard.harvest.goodConditions.reason'
     };
 }
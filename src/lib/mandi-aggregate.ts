@@ -0,0 +1,116 @@
+/**
+ * Mandi Price Aggregation
+ *
+ * Commodity-wide or state-wide queries to `mandi-prices` return hundreds
+ * of rows, several per market. These helpers shape the full result set on
+ * the server before it is sent to the browser:
+ * - `latest`: one row per market (and variety), the most recent arrival
+ * - `state`: one row per state with average min/modal/max prices
+ * and sort it by price, arrival date or market name.
+ *
+ * Arrival dates must already be YYYY-MM-DD. This module has no imports
+ * so the edge function can use it.
+ */
+
+export type MandiAggregation = 'none' | 'latest' | 'state';
+
+export type MandiSortField = 'modalPrice' | 'arrivalDate' | 'market';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface MandiPriceRow {
+    commodity: string;
+    variety?: string;
+    market: string;
+    district?: string;
+    state?: string;
+    minPrice: number;
+    maxPrice: number;
+    modalPrice: number;
+    arrivalDate?: string;   // YYYY-MM-DD
+    marketCount?: number;   // set on state averages
+    quality?: 'ok' | 'repaired' | 'suspect';    // set by the quality check
+    qualityIssues?: string[];
+}
+
+export const MANDI_AGGREGATIONS: MandiAggregation[] = ['none', 'latest', 'state'];
+
+export const MANDI_SORT_FIELDS: MandiSortField[] = ['modalPrice', 'arrivalDate', 'market'];
+
+/**
+ * The most recent row for each commodity, market and variety
+ */
+export function latestPerMarket<T extends MandiPriceRow>(rows: T[]): T[] {
+    const latest = new Map<string, T>();
+    rows.forEach((row) => {
+        const key = `${row.commodity}|${row.market}|${row.variety || ''}`.toLowerCase();
+        const current = latest.get(key);
+        if (!current || (row.arrivalDate || '') > (current.arrivalDate || '')) {
+            latest.set(key, row);
+        }
+    });
+    return Array.from(latest.values());
+}
+
+/**
+ * One row per commodity and state averaging each market's latest prices,
+ * so a mandi reporting daily doesn't outweigh one reporting weekly.
+ * Prices flagged suspect by the quality check are left out.
+ * `market` holds the state name and `marketCount` how many were averaged.
+ */
+export function averageByState(rows: MandiPriceRow[]): MandiPriceRow[] {
+    const groups = new Map<string, MandiPriceRow[]>();
+    latestPerMarket(rows).forEach((row) => {
+        if (!(row.modalPrice > 0) || row.quality === 'suspect') return;
+        const key = `${row.commodity}|${row.state || ''}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(row);
+    });
+
+    const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+    return Array.from(groups.values()).map((group) => {
+        const markets = new Set(group.map((row) => row.market.toLowerCase()));
+        const state = group[0].state || 'Unknown';
+        return {
+            commodity: group[0].commodity,
+            market: state,
+            state,
+            minPrice: average(group.map((row) => row.minPrice)),
+            maxPrice: average(group.map((row) => row.maxPrice)),
+            modalPrice: average(group.map((row) => row.modalPrice)),
+            arrivalDate: group.map((row) => row.arrivalDate || '').sort().pop() || undefined,
+            marketCount: markets.size,
+        };
+    });
+}
+
+/**
+ * Copy of `rows` sorted by `field`; ties keep their original order
+ */
+export function sortMandiPrices<T extends MandiPriceRow>(rows: T[], field: MandiSortField, order: SortOrder): T[] {
+    const direction = order === 'asc' ? 1 : -1;
+    const compare = (a: T, b: T): number => {
+        if (field === 'modalPrice') return a.modalPrice - b.modalPrice;
+        if (field === 'arrivalDate') return (a.arrivalDate || '').localeCompare(b.arrivalDate || '');
+        return a.market.localeCompare(b.market);
+    };
+    return [...rows].sort((a, b) => compare(a, b) * direction);
+}
+
+/**
+ * Apply an aggregation mode, then the sort if one was asked for
+ */
+export function shapeMandiPrices(
+    rows: MandiPriceRow[],
+    aggregate: MandiAggregation,
+    sortBy?: MandiSortField,
+    sortOrder: SortOrder = 'desc'
+): MandiPriceRow[] {
+    const shaped = aggregate === 'latest'
+        ? latestPerMarket(rows)
+        : aggregate === 'state'
+            ? averageByState(rows)
+            : rows;
+    return sortBy ? sortMandiPrices(shaped, sortBy, sortOrder) : shaped;
+}
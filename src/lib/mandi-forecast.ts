@@ -0,0 +1,266 @@
+/**
+ * Mandi Price Forecasting
+ *
+ * Projects the modal price of one commodity at one market 2–4 weeks ahead
+ * from the history the `mandi-prices` edge function archives, so farmers
+ * can judge whether to sell now or wait. The model is deliberately simple
+ * and explainable:
+ *
+ * 1. Seasonal baseline: with close to a year of history, each calendar
+ *    month gets an index (its mean modal price / the overall mean). Prices
+ *    are divided by it before fitting and multiplied back afterwards.
+ * 2. Trend: the deseasonalized level is the moving average of the last
+ *    `movingAverageDays`, and the slope is a least-squares fit over the
+ *    last `trendDays`.
+ * 3. Confidence band: the spread of recent prices around that line,
+ *    widened the further ahead the forecast goes.
+ *
+ * `backtestForecast` replays the model over the market's stored history to
+ * measure its error; a forecast is only shown once that backtest passes
+ * `isForecastReliable`. This module has no imports so the edge function
+ * can use it.
+ */
+
+export interface PricePoint {
+    date: string;           // YYYY-MM-DD
+    modalPrice: number;     // ₹ per quintal
+}
+
+export interface ForecastPoint {
+    date: string;
+    price: number;
+    lower: number;
+    upper: number;
+}
+
+export interface PriceForecast {
+    points: ForecastPoint[];    // one per day after the last observation, through asOfDate + horizon
+    lastObservedDate: string;
+    asOfDate: string;           // the day the horizon is counted from
+    trendPerWeek: number;       // ₹ per quintal, deseasonalized
+    seasonal: boolean;          // false until there is ~a year of history
+}
+
+export interface ForecastOptions {
+    horizonDays: number;
+    movingAverageDays: number;
+    trendDays: number;
+    bandZ: number;              // band half-width in standard deviations
+    maxStaleDays: number;       // no forecast once the last price is older than this
+    asOf?: string;              // YYYY-MM-DD, defaults to today
+}
+
+export type ForecastOutlook = 'rising' | 'falling' | 'steady';
+
+export interface BacktestResult {
+    samples: number;            // forecast/actual pairs compared
+    meanAbsolutePercentError: number;
+    bias: number;               // mean signed % error; > 0 means over-forecast
+    coverage: number;           // share of actual prices inside the band
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+    horizonDays: 28,
+    movingAverageDays: 14,
+    trendDays: 42,
+    bandZ: 1.28,                // ~80% band
+    maxStaleDays: 7,
+};
+
+// Trading days needed in total and inside the trend window
+export const MIN_FORECAST_POINTS = 10;
+const MIN_TREND_POINTS = 5;
+
+// History span before month-of-year indexes are trusted
+const SEASONAL_MIN_SPAN_DAYS = 330;
+const MIN_MONTH_POINTS = 3;
+
+// A forecast is shown only after this many forecast/actual pairs, and
+// only while its typical error stays small enough to act on
+export const MIN_BACKTEST_SAMPLES = 10;
+export const MAX_FORECAST_ERROR_PERCENT = 15;
+
+// Floor on the band so a flat history doesn't claim certainty
+const MIN_BAND_FRACTION = 0.02;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: string): number {
+    return Math.round(Date.parse(date) / DAY_MS);
+}
+
+function fromDay(day: number): string {
+    return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function monthOf(day: number): number {
+    return new Date(day * DAY_MS).getUTCMonth();
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Month-of-year price index (1 = an average month), or null when the
+ * history is too short to say anything about seasons
+ */
+export function getSeasonalIndex(points: PricePoint[]): number[] | null {
+    if (points.length === 0) return null;
+    const days = points.map((point) => toDay(point.date));
+    if (Math.max(...days) - Math.min(...days) < SEASONAL_MIN_SPAN_DAYS) return null;
+
+    const overall = mean(points.map((point) => point.modalPrice));
+    const byMonth: number[][] = Array.from({ length: 12 }, () => []);
+    points.forEach((point, index) => byMonth[monthOf(days[index])].push(point.modalPrice));
+
+    return byMonth.map((prices) => (prices.length >= MIN_MONTH_POINTS ? mean(prices) / overall : 1));
+}
+
+/**
+ * Daily forecast after the last observation, oldest history first in
+ * `points`, running `horizonDays` past `asOf` so the horizon counts from
+ * today rather than from the last trading day. Null when there is too
+ * little history, or when the last price is more than `maxStaleDays`
+ * before `asOf`.
+ */
+export function forecastPrices(
+    points: PricePoint[],
+    options: Partial<ForecastOptions> = {}
+): PriceForecast | null {
+    const { horizonDays, movingAverageDays, trendDays, bandZ, maxStaleDays, asOf } = { ...DEFAULT_FORECAST_OPTIONS, ...options };
+    if (points.length < MIN_FORECAST_POINTS) return null;
+
+    const season = getSeasonalIndex(points);
+    const factor = (day: number) => (season ? season[monthOf(day)] : 1);
+
+    const series = points
+        .map((point) => ({ day: toDay(point.date), price: point.modalPrice }))
+        .sort((a, b) => a.day - b.day)
+        .map(({ day, price }) => ({ day, value: price / factor(day) }));
+    const lastDay = series[series.length - 1].day;
+    const asOfDay = asOf ? toDay(asOf) : Math.floor(Date.now() / DAY_MS);
+    if (asOfDay - lastDay > maxStaleDays) return null;
+
+    const recent = series.filter(({ day }) => day > lastDay - trendDays);
+    if (recent.length < MIN_TREND_POINTS) return null;
+
+    // Least-squares slope over the trend window
+    const meanDay = mean(recent.map(({ day }) => day));
+    const meanValue = mean(recent.map(({ value }) => value));
+    const spread = recent.reduce((sum, { day }) => sum + (day - meanDay) ** 2, 0);
+    const slope = spread > 0
+        ? recent.reduce((sum, { day, value }) => sum + (day - meanDay) * (value - meanValue), 0) / spread
+        : 0;
+
+    // Moving-average level, anchored at the middle of its window
+    const window = series.filter(({ day }) => day > lastDay - movingAverageDays);
+    const averaged = window.length > 0 ? window : recent;
+    const level = mean(averaged.map(({ value }) => value));
+    const center = mean(averaged.map(({ day }) => day));
+
+    const residuals = recent.map(({ day, value }) => value - (level + slope * (day - center)));
+    const sigma = Math.max(
+        Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(1, residuals.length - 2)),
+        level * MIN_BAND_FRACTION
+    );
+
+    const forecast: ForecastPoint[] = [];
+    const lastForecastDay = Math.max(asOfDay, lastDay) + horizonDays;
+    for (let ahead = 1; ahead <= lastForecastDay - lastDay; ahead++) {
+        const day = lastDay + ahead;
+        const price = (level + slope * (day - center)) * factor(day);
+        const width = bandZ * sigma * Math.sqrt(1 + ahead / movingAverageDays) * factor(day);
+        forecast.push({
+            date: fromDay(day),
+            price: Math.max(0, Math.round(price)),
+            lower: Math.max(0, Math.round(price - width)),
+            upper: Math.round(price + width),
+        });
+    }
+
+    return {
+        points: forecast,
+        lastObservedDate: fromDay(lastDay),
+        asOfDate: fromDay(asOfDay),
+        trendPerWeek: Math.round(slope * 7),
+        seasonal: season !== null,
+    };
+}
+
+/** The forecast `daysAhead` days after its `asOfDate`, if it reaches that far */
+export function getForecastPoint(forecast: PriceForecast, daysAhead: number): ForecastPoint | undefined {
+    const date = fromDay(toDay(forecast.asOfDate) + daysAhead);
+    return forecast.points.find((point) => point.date === date);
+}
+
+/**
+ * Whether waiting `daysAhead` looks worth it: rising when even the low end
+ * of the band beats today's price, falling when even the high end is below it
+ */
+export function getForecastOutlook(forecast: PriceForecast, currentPrice: number, daysAhead: number): ForecastOutlook {
+    const point = getForecastPoint(forecast, daysAhead) || forecast.points[forecast.points.length - 1];
+    if (!point) return 'steady';
+    if (point.lower > currentPrice) return 'rising';
+    if (point.upper < currentPrice) return 'falling';
+    return 'steady';
+}
+
+/**
+ * Replay the forecast over stored history: every `stepDays`, fit on the
+ * prices up to that day and score the forecast against the prices that
+ * followed within the horizon. Null when there is nothing to compare.
+ */
+export function backtestForecast(
+    points: PricePoint[],
+    options: Partial<ForecastOptions> & { stepDays?: number } = {}
+): BacktestResult | null {
+    const { stepDays = 7, ...forecastOptions } = options;
+    const horizonDays = forecastOptions.horizonDays ?? DEFAULT_FORECAST_OPTIONS.horizonDays;
+    const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+
+    let samples = 0;
+    let absoluteError = 0;
+    let signedError = 0;
+    let covered = 0;
+    let nextCutoff = -Infinity;
+
+    for (let index = MIN_FORECAST_POINTS - 1; index < sorted.length - 1; index++) {
+        const cutoff = toDay(sorted[index].date);
+        if (cutoff < nextCutoff) continue;
+        nextCutoff = cutoff + stepDays;
+
+        const forecast = forecastPrices(sorted.slice(0, index + 1), { ...forecastOptions, asOf: sorted[index].date });
+        if (!forecast) continue;
+
+        const byDate = new Map(forecast.points.map((point) => [point.date, point]));
+        sorted.slice(index + 1).forEach((actual) => {
+            const predicted = byDate.get(actual.date);
+            if (!predicted || toDay(actual.date) - cutoff > horizonDays || !(actual.modalPrice > 0)) return;
+
+            const error = (predicted.price - actual.modalPrice) / actual.modalPrice;
+            samples++;
+            absoluteError += Math.abs(error);
+            signedError += error;
+            if (actual.modalPrice >= predicted.lower && actual.modalPrice <= predicted.upper) covered++;
+        });
+    }
+
+    if (samples === 0) return null;
+
+    return {
+        samples,
+        meanAbsolutePercentError: Math.round((absoluteError / samples) * 1000) / 10,
+        bias: Math.round((signedError / samples) * 1000) / 10,
+        coverage: Math.round((covered / samples) * 100) / 100,
+    };
+}
+
+/**
+ * Whether a market's backtest supports showing its forecast
+ */
+export function isForecastReliable(backtest: BacktestResult | null): backtest is BacktestResult {
+    return !!backtest &&
+        backtest.samples >= MIN_BACKTEST_SAMPLES &&
+        backtest.meanAbsolutePercentError <= MAX_FORECAST_ERROR_PERCENT;
+}
@@ -0,0 +1,172 @@
+/**
+ * Mandi Price History
+ *
+ * The `mandi-prices` edge function stores every live record it fetches in
+ * `mandi_price_history`, one row per commodity, market, variety and
+ * arrival date. The Dashboard reads a 30 or 90-day window back to draw the
+ * min/modal/max trend and to tell the farmer whether today's modal price
+ * is good compared with the recent past.
+ *
+ * This module has no imports so the edge function can use it.
+ */
+
+export type TrendWindow = 30 | 90;
+
+export const TREND_WINDOWS: TrendWindow[] = [30, 90];
+
+// Fewer trading days than this is not enough to call a price good or low
+export const MIN_HISTORY_POINTS = 5;
+
+// How far from the window average (as a fraction) counts as good / low
+export const PRICE_VERDICT_MARGIN = 0.05;
+
+export type PriceVerdict = 'good' | 'fair' | 'low';
+
+export interface MandiPriceRecord {
+    commodity: string;
+    variety?: string;
+    market: string;
+    district?: string;
+    state?: string;
+    minPrice: number;       // ₹ per quintal
+    maxPrice: number;
+    modalPrice: number;
+    arrivalDate?: string;   // DD/MM/YYYY from data.gov.in, or YYYY-MM-DD
+}
+
+export interface MandiPriceHistoryRow {
+    commodity: string;
+    variety: string;
+    market: string;
+    district: string | null;
+    state: string | null;
+    min_price: number;
+    max_price: number;
+    modal_price: number;
+    arrival_date: string;   // YYYY-MM-DD
+}
+
+export interface PriceHistoryPoint {
+    date: string;           // YYYY-MM-DD
+    minPrice: number;
+    maxPrice: number;
+    modalPrice: number;
+}
+
+export interface PriceHistorySummary {
+    days: number;
+    average: number;        // mean modal price over the window
+    low: number;            // lowest modal price
+    high: number;           // highest modal price
+    changePercent: number;  // current price vs the average
+    verdict: PriceVerdict;
+}
+
+/**
+ * Arrival date as YYYY-MM-DD. Agmarknet sends DD/MM/YYYY; ISO dates pass
+ * through. Null when the value is missing or not a real date.
+ */
+export function toIsoDate(value: string | undefined): string | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+
+    let year: number, month: number, day: number;
+    const dmy = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(trimmed);
+    const ymd = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+    if (dmy) {
+        [day, month, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    } else if (ymd) {
+        [year, month, day] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+    } else {
+        return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Rows to upsert for a batch of fetched records. Records without a usable
+ * date or price are skipped, and duplicates within the batch collapse to
+ * the last one so a single upsert never touches the same row twice.
+ */
+export function toHistoryRows(records: MandiPriceRecord[]): MandiPriceHistoryRow[] {
+    const rows = new Map<string, MandiPriceHistoryRow>();
+
+    records.forEach((record) => {
+        const arrivalDate = toIsoDate(record.arrivalDate);
+        if (!arrivalDate || !record.commodity || !record.market || !(record.modalPrice > 0)) return;
+
+        const row: MandiPriceHistoryRow = {
+            commodity: record.commodity.trim(),
+            variety: record.variety?.trim() || 'Standard',
+            market: record.market.trim(),
+            district: record.district?.trim() || null,
+            state: record.state?.trim() || null,
+            min_price: record.minPrice,
+            max_price: record.maxPrice,
+            modal_price: record.modalPrice,
+            arrival_date: arrivalDate,
+        };
+        rows.set(`${row.commodity}|${row.market}|${row.variety}|${row.arrival_date}`, row);
+    });
+
+    return Array.from(rows.values());
+}
+
+/**
+ * One point per arrival date, oldest first. When several varieties share
+ * a date the band spans all of them and the modal price is their mean.
+ */
+export function aggregateDailyPrices(
+    rows: Array<Pick<MandiPriceHistoryRow, 'arrival_date' | 'min_price' | 'max_price' | 'modal_price'>>
+): PriceHistoryPoint[] {
+    const byDate = new Map<string, { min: number; max: number; modalTotal: number; count: number }>();
+
+    rows.forEach((row) => {
+        const min = Number(row.min_price);
+        const max = Number(row.max_price);
+        const modal = Number(row.modal_price);
+        const day = byDate.get(row.arrival_date);
+        if (day) {
+            day.min = Math.min(day.min, min);
+            day.max = Math.max(day.max, max);
+            day.modalTotal += modal;
+            day.count++;
+        } else {
+            byDate.set(row.arrival_date, { min, max, modalTotal: modal, count: 1 });
+        }
+    });
+
+    return Array.from(byDate.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, day]) => ({
+            date,
+            minPrice: day.min,
+            maxPrice: day.max,
+            modalPrice: Math.round(day.modalTotal / day.count),
+        }));
+}
+
+/**
+ * How `currentPrice` compares with the window: above the average by more
+ * than PRICE_VERDICT_MARGIN is good, below it by as much is low. Null when
+ * there are fewer than MIN_HISTORY_POINTS trading days to compare with.
+ */
+export function summarizePriceHistory(points: PriceHistoryPoint[], currentPrice: number): PriceHistorySummary | null {
+    if (points.length < MIN_HISTORY_POINTS || !(currentPrice > 0)) return null;
+
+    const modals = points.map((point) => point.modalPrice);
+    const average = modals.reduce((sum, price) => sum + price, 0) / modals.length;
+    const change = (currentPrice - average) / average;
+
+    return {
+        days: points.length,
+        average: Math.round(average),
+        low: Math.min(...modals),
+        high: Math.max(...modals),
+        changePercent: Math.round(change * 100),
+        verdict: change >= PRICE_VERDICT_MARGIN ? 'good' : change <= -PRICE_VERDICT_MARGIN ? 'low' : 'fair',
+    };
+}
@@ -0,0 +1,199 @@
+/**
+ * Mandi Price Data Quality
+ *
+ * Raw Agmarknet records sometimes have min > max, a zero modal price or a
+ * price entered in the wrong unit (₹/kg instead of ₹/quintal, a ten-fold
+ * error). The `mandi-prices` edge function runs every record through
+ * `assessPriceQuality` before it reaches the browser or the history table:
+ *
+ * - Records with no usable price are dropped.
+ * - Fixable mistakes are repaired (swapped min/max, a missing modal
+ *   price taken from the min–max midpoint) and marked `repaired`.
+ * - A ten-fold unit slip is only scaled back against the market's own
+ *   price history; against other markets or the batch it may be a real
+ *   price difference, so the record is left as is and marked `suspect`.
+ * - Prices far from the recent median for the commodity (the market's
+ *   own history, else other markets in history, else the same batch)
+ *   are kept but marked `suspect` so the UI can grey them out.
+ *
+ * This module has no imports so the edge function can use it.
+ */
+
+export type PriceQuality = 'ok' | 'repaired' | 'suspect';
+
+export type QualityIssue =
+    | 'swapped_min_max'
+    | 'missing_modal'
+    | 'missing_min_max'
+    | 'unit_error'
+    | 'modal_out_of_range'
+    | 'outlier';
+
+export interface QualityCheckedPrice {
+    commodity: string;
+    market: string;
+    minPrice: number;
+    maxPrice: number;
+    modalPrice: number;
+    quality?: PriceQuality;
+    qualityIssues?: QualityIssue[];
+}
+
+export interface ReferencePrice {
+    commodity: string;
+    market: string;
+    modalPrice: number;
+}
+
+// Price samples needed before a median is trusted as a reference
+export const MIN_REFERENCE_SAMPLES = 5;
+
+// A modal price 7–13× (or 1/13–1/7) the reference is read as a unit slip
+const UNIT_ERROR_RANGE: [number, number] = [7, 13];
+
+// Outliers: beyond this many robust standard deviations AND this far
+// (as a fraction) from the median, so stable prices don't flag small moves
+const OUTLIER_Z = 3.5;
+const OUTLIER_MIN_DEVIATION = 0.25;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+interface Reference {
+    median: number;
+    spread: number;     // 1.4826 × median absolute deviation ≈ standard deviation
+}
+
+function toReference(prices: number[]): Reference | null {
+    const valid = prices.filter((price) => price > 0);
+    if (valid.length < MIN_REFERENCE_SAMPLES) return null;
+    const middle = median(valid);
+    return { median: middle, spread: 1.4826 * median(valid.map((price) => Math.abs(price - middle))) };
+}
+
+function groupPrices(rows: ReferencePrice[], keyOf: (row: ReferencePrice) => string): Map<string, number[]> {
+    const groups = new Map<string, number[]>();
+    rows.forEach((row) => {
+        const key = keyOf(row);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(Number(row.modalPrice));
+    });
+    return groups;
+}
+
+const commodityKey = (row: { commodity: string }) => row.commodity.trim().toLowerCase();
+const marketKey = (row: { commodity: string; market: string }) => `${commodityKey(row)}|${row.market.trim().toLowerCase()}`;
+
+/**
+ * Repair what can be repaired in one record; null when it has no usable
+ * price at all. The ten-fold check needs a reference median, and only
+ * rescales when `canRescale` (the median is the market's own history);
+ * otherwise a slip marks the record suspect.
+ */
+export function repairPriceRecord<T extends QualityCheckedPrice>(
+    record: T,
+    referenceMedian?: number,
+    canRescale = false
+): T | null {
+    let { minPrice, maxPrice, modalPrice } = record;
+    const issues: QualityIssue[] = [];
+    const valid = (price: number) => Number.isFinite(price) && price > 0;
+
+    if (!valid(modalPrice) && !valid(minPrice) && !valid(maxPrice)) return null;
+
+    if (valid(minPrice) && valid(maxPrice) && minPrice > maxPrice) {
+        [minPrice, maxPrice] = [maxPrice, minPrice];
+        issues.push('swapped_min_max');
+    }
+
+    if (!valid(modalPrice)) {
+        if (!valid(minPrice) || !valid(maxPrice)) return null;
+        modalPrice = Math.round((minPrice + maxPrice) / 2);
+        issues.push('missing_modal');
+    }
+
+    if (!valid(minPrice) || !valid(maxPrice)) {
+        minPrice = valid(minPrice) ? minPrice : modalPrice;
+        maxPrice = valid(maxPrice) ? maxPrice : modalPrice;
+        issues.push('missing_min_max');
+    }
+
+    // Ten-fold slip: the whole record is scaled, so scale it back when the
+    // reference is the market's own history, else leave it for a person
+    let unitSlip = false;
+    if (referenceMedian && referenceMedian > 0) {
+        const ratio = modalPrice / referenceMedian;
+        const scale = ratio >= UNIT_ERROR_RANGE[0] && ratio <= UNIT_ERROR_RANGE[1]
+            ? 0.1
+            : ratio >= 1 / UNIT_ERROR_RANGE[1] && ratio <= 1 / UNIT_ERROR_RANGE[0]
+                ? 10
+                : 1;
+        if (scale !== 1) {
+            issues.push('unit_error');
+            if (canRescale) {
+                minPrice = Math.round(minPrice * scale);
+                maxPrice = Math.round(maxPrice * scale);
+                modalPrice = Math.round(modalPrice * scale);
+            } else {
+                unitSlip = true;
+            }
+        }
+    }
+
+    const outOfRange = modalPrice < minPrice || modalPrice > maxPrice;
+
+    return {
+        ...record,
+        minPrice,
+        maxPrice,
+        modalPrice,
+        quality: unitSlip || outOfRange ? 'suspect' : issues.length > 0 ? 'repaired' : 'ok',
+        qualityIssues: outOfRange ? [...issues, 'modal_out_of_range'] : issues,
+    };
+}
+
+/**
+ * True when `price` is far outside the reference distribution
+ */
+export function isPriceOutlier(price: number, reference: { median: number; spread: number }): boolean {
+    const deviation = Math.abs(price - reference.median);
+    if (deviation < reference.median * OUTLIER_MIN_DEVIATION) return false;
+    return reference.spread === 0 || deviation / reference.spread > OUTLIER_Z;
+}
+
+/**
+ * Validate a batch: drop unusable records, repair fixable ones and flag
+ * outliers against `history` (recent stored prices). Returns the kept
+ * records with `quality` set and how many were dropped.
+ */
+export function assessPriceQuality<T extends QualityCheckedPrice>(
+    records: T[],
+    history: ReferencePrice[] = []
+): { records: T[]; dropped: number } {
+    const byMarket = groupPrices(history, marketKey);
+    const byCommodity = groupPrices(history, commodityKey);
+    const batchByCommodity = groupPrices(records, commodityKey);
+
+    const fallbackReferenceFor = (record: T): Reference | null =>
+        toReference(byCommodity.get(commodityKey(record)) || []) ||
+        toReference(batchByCommodity.get(commodityKey(record)) || []);
+
+    const kept: T[] = [];
+    records.forEach((record) => {
+        const ownHistory = toReference(byMarket.get(marketKey(record)) || []);
+        const reference = ownHistory || fallbackReferenceFor(record);
+        const repaired = repairPriceRecord(record, reference?.median, !!ownHistory);
+        if (!repaired) return;
+
+        if (reference && repaired.quality !== 'suspect' && isPriceOutlier(repaired.modalPrice, reference)) {
+            repaired.quality = 'suspect';
+            repaired.qualityIssues = [...(repaired.qualityIssues || []), 'outlier'];
+        }
+        kept.push(repaired);
+    });
+
+    return { records: kept, dropped: records.length - kept.length };
+}
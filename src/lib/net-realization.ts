@@ -0,0 +1,111 @@
+/**
+ * Net Realization
+ *
+ * The best modal price is not the best deal if the mandi is 200 km away.
+ * This ranks markets by the rupees a farmer actually takes home for a
+ * load: modal price × quantity, minus transport (₹ per km per quintal over
+ * the estimated road distance) and minus the mandi fee and commission
+ * agent's cut, both charged as a percentage of the sale.
+ *
+ * Distances come from the static market and district centroid tables, so
+ * ranking works offline.
+ */
+
+import { DistrictCentroid, findDistrictCentroid, findMarketLocation, getRoadDistanceKm } from './district-centroids';
+
+export interface TransportSettings {
+    quantityQuintals: number;
+    ratePerKmPerQuintal: number;    // ₹
+    marketFeePercent: number;       // APMC market fee
+    commissionPercent: number;      // commission agent (arhtiya)
+}
+
+export interface MarketQuote {
+    commodity: string;
+    variety?: string;
+    market: string;
+    district?: string;
+    modalPrice: number;             // ₹ per quintal
+    quality?: 'ok' | 'repaired' | 'suspect';
+}
+
+export interface NetRealization<T extends MarketQuote = MarketQuote> {
+    quote: T;
+    distanceKm: number;
+    grossValue: number;
+    transportCost: number;
+    fees: number;
+    netValue: number;               // ₹ in hand for the whole load
+    netPerQuintal: number;
+}
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+    quantityQuintals: 10,
+    ratePerKmPerQuintal: 1,
+    marketFeePercent: 1,
+    commissionPercent: 2,
+};
+
+/**
+ * Market location: the market itself if it can be placed (its own entry,
+ * or a market named after its town), else its district's centroid
+ */
+function locateMarket(quote: MarketQuote): DistrictCentroid | null {
+    return findMarketLocation(quote.market) ||
+        findDistrictCentroid(quote.market) ||
+        findDistrictCentroid(quote.district);
+}
+
+/**
+ * Net ₹ in hand for selling the whole quantity at one market
+ */
+export function calculateNetRealization<T extends MarketQuote>(
+    quote: T,
+    distanceKm: number,
+    settings: TransportSettings
+): NetRealization<T> {
+    const quantity = Math.max(0, settings.quantityQuintals);
+    const grossValue = quote.modalPrice * quantity;
+    const transportCost = distanceKm * settings.ratePerKmPerQuintal * quantity;
+    const fees = grossValue * (settings.marketFeePercent + settings.commissionPercent) / 100;
+    const netValue = grossValue - transportCost - fees;
+
+    return {
+        quote,
+        distanceKm,
+        grossValue: Math.round(grossValue),
+        transportCost: Math.round(transportCost),
+        fees: Math.round(fees),
+        netValue: Math.round(netValue),
+        netPerQuintal: quantity > 0 ? Math.round(netValue / quantity) : 0,
+    };
+}
+
+/**
+ * Markets ranked by net ₹ in hand from the farmer's `origin` (district or
+ * city). Markets that can't be placed on the centroid table, and prices
+ * flagged suspect, are returned in `unranked`; everything is unranked when the origin is unknown.
+ */
+export function rankByNetRealization<T extends MarketQuote>(
+    quotes: T[],
+    origin: string | undefined,
+    settings: TransportSettings = DEFAULT_TRANSPORT_SETTINGS
+): { ranked: NetRealization<T>[]; unranked: T[] } {
+    const home = findDistrictCentroid(origin);
+    if (!home) return { ranked: [], unranked: quotes };
+
+    const ranked: NetRealization<T>[] = [];
+    const unranked: T[] = [];
+
+    quotes.forEach((quote) => {
+        const location = quote.modalPrice > 0 && quote.quality !== 'suspect' ? locateMarket(quote) : null;
+        if (!location) {
+            unranked.push(quote);
+            return;
+        }
+        ranked.push(calculateNetRealization(quote, getRoadDistanceKm(home, location), settings));
+    });
+
+    ranked.sort((a, b) => b.netValue - a.netValue);
+    return { ranked, unranked };
+}
@@ -0,0 +1,86 @@
+/**
+ * Mandi Price Watches
+ *
+ * A watch says "tell me when <commodity> at <market> goes above/below
+ * ₹<threshold>/quintal". The scheduled `price-watcher` edge function
+ * checks each watch against the `mandi-prices` function and stores a
+ * `price` alert when the modal price CROSSES the threshold: it must meet
+ * the condition now and not have met it at the previous check, so a
+ * price that stays above the line alerts once rather than every run.
+ *
+ * This module has no imports so the edge function can use it.
+ */
+
+export type PriceWatchDirection = 'above' | 'below';
+
+// Stored price alerts use `price-watch-<watch id>` as their alert id
+export const PRICE_WATCH_ALERT_PREFIX = 'price-watch-';
+
+export interface PriceWatchCondition {
+    commodity: string;
+    market: string;
+    direction: PriceWatchDirection;
+    threshold: number;      // ₹ per quintal
+}
+
+export interface PriceQuote {
+    commodity: string;
+    market: string;
+    district?: string;
+    modalPrice: number;     // ₹ per quintal
+    arrivalDate?: string;
+    quality?: 'ok' | 'repaired' | 'suspect';
+    qualityIssues?: string[];
+}
+
+function normalize(value: string | undefined): string {
+    return (value || '').trim().toLowerCase();
+}
+
+/**
+ * True when `price` is on the watched side of the threshold
+ */
+export function isThresholdMet(direction: PriceWatchDirection, threshold: number, price: number): boolean {
+    return direction === 'above' ? price > threshold : price < threshold;
+}
+
+/**
+ * The quote a watch is judged on: matching commodity and market (or the
+ * market's district), taking the most favourable modal price for the
+ * watched direction. Prices flagged suspect, or rescaled from a unit
+ * slip, never trigger a watch.
+ * Null when no mandi reported the commodity.
+ */
+export function findWatchQuote(watch: PriceWatchCondition, quotes: PriceQuote[]): PriceQuote | null {
+    const commodity = normalize(watch.commodity);
+    const market = normalize(watch.market);
+
+    const matching = quotes.filter((quote) =>
+        quote.modalPrice > 0 &&
+        quote.quality !== 'suspect' &&
+        !quote.qualityIssues?.includes('unit_error') &&
+        normalize(quote.commodity).includes(commodity) &&
+        (normalize(quote.market).includes(market) || normalize(quote.district) === market)
+    );
+
+    if (matching.length === 0) return null;
+
+    return matching.reduce((best, quote) =>
+        (watch.direction === 'above' ? quote.modalPrice > best.modalPrice : quote.modalPrice < best.modalPrice)
+            ? quote
+            : best
+    );
+}
+
+/**
+ * True when the price moved across the threshold since the previous check
+ * (the first check counts as a crossing if the condition already holds)
+ */
+export function hasCrossedThreshold(
+    watch: PriceWatchCondition,
+    price: number,
+    previousPrice: number | null
+): boolean {
+    if (!isThresholdMet(watch.direction, watch.threshold, price)) return false;
+    return previousPrice === null || !isThresholdMet(watch.direction, watch.threshold, previousPrice);
+}
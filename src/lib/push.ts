@@ -0,0 +1,99 @@
+/**
+ * Web Push helpers
+ *
+ * Registers `public/sw.js` and manages the browser's push subscription.
+ * The subscription itself is stored per user by `usePushNotifications`;
+ * the `push-sender` edge function delivers to it.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export interface PushSubscriptionKeys {
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+/**
+ * True when the browser supports Web Push and a VAPID key is configured
+ */
+export function isPushSupported(): boolean {
+    return typeof window !== 'undefined'
+        && 'serviceWorker' in navigator
+        && 'PushManager' in window
+        && 'Notification' in window
+        && !!vapidPublicKey;
+}
+
+// VAPID keys are URL-safe base64; PushManager wants raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+    const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+    const raw = atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) {
+        bytes[i] = raw.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function toKeys(subscription: PushSubscription): PushSubscriptionKeys {
+    const json = subscription.toJSON();
+    return {
+        endpoint: subscription.endpoint,
+        p256dh: json.keys?.p256dh || '',
+        auth: json.keys?.auth || '',
+    };
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    return navigator.serviceWorker.ready;
+}
+
+/**
+ * The browser's current push subscription, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscriptionKeys | null> {
+    if (!isPushSupported()) return null;
+    const registration = await getRegistration();
+    const subscription = await registration.pushManager.getSubscription();
+    return subscription ? toKeys(subscription) : null;
+}
+
+/**
+ * Ask for notification permission and subscribe this browser
+ */
+export async function subscribeToPush(): Promise<PushSubscriptionKeys> {
+    if (!isPushSupported()) {
+        throw new Error('Push notifications are not supported in this browser');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+        throw new Error('Notification permission was not granted');
+    }
+
+    const registration = await getRegistration();
+    const existing = await registration.pushManager.getSubscription();
+    const subscription = existing || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(vapidPublicKey!),
+    });
+
+    return toKeys(subscription);
+}
+
+/**
+ * Unsubscribe this browser; returns the endpoint that was removed
+ */
+export async function unsubscribeFromPush(): Promise<string | null> {
+    if (!isPushSupported()) return null;
+    const registration = await getRegistration();
+    const subscription = await registration.pushManager.getSubscription();
+    if (!subscription) return null;
+
+    await subscription.unsubscribe();
+    return subscription.endpoint;
+}
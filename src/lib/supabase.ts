@@ -29,6 +29,42 @@ export interface UserPreferences {
     updated_at: string;
 }
 
+export interface FieldProfile {
+    id: string;
+    user_id: string;
+    terrain: 'low_lying' | 'plain' | 'upland';
+    soil_texture: 'clay' | 'loam' | 'sandy';
+    drainage: 'poor' | 'moderate' | 'good';
+    water_proximity: 'near' | 'moderate' | 'far';
+    created_at: string;
+    updated_at: string;
+}
+
+export interface FloodChecklist {
+    id: string;
+    user_id: string;
+    location: string;
+    risk_level: 'LOW' | 'MEDIUM' | 'HIGH';
+    completed_items: string[];
+    episode_started_at: string;
+    updated_at: string;
+}
+
+// A row of the `flood_report_feed` view: no user id, coordinates rounded
+export interface FloodReport {
+    id: string;
+    district: string;
+    severity: 'waterlogging' | 'flooding' | 'severe';
+    description: string | null;
+    photo_path: string | null;  // object in the private photo bucket
+    photo_url?: string | null;  // signed URL, added after fetching
+    latitude: number | null;
+    longitude: number | null;
+    created_at: string;
+    reporter: string;           // stable per farmer and district
+    is_own: boolean;
+}
+
 export interface Alert {
     id: string;
     user_id: string;
@@ -38,6 +74,72 @@ export interface Alert {
     severity: 'low' | 'medium' | 'high' | 'critical';
     is_read: boolean;
     is_dismissed: boolean;
+    alert_key: string | null;
+    alert_type: 'WEATHER' | 'HARVEST' | 'IRRIGATE' | 'DISEASE' | 'FLOOD' | 'PRICE' | 'GENERAL' | null;
+    location: string | null;
+    action: string | null;
+    resolved_at: string | null; // set when the alert's condition cleared
+    created_at: string;
+}
+
+export interface NotificationPreferences {
+    id: string;
+    user_id: string;
+    phone_number: string | null; // E.164, e.g. +919876543210
+    phone_verified_at: string | null; // set by the phone-verification edge function
+    sms_enabled: boolean;
+    whatsapp_enabled: boolean;
+    muted_alert_types: NonNullable<Alert['alert_type']>[];
+    min_severity: 'low' | 'medium' | 'high' | 'critical';
+    quiet_hours_start: string | null; // 'HH:MM:SS', user's time zone
+    quiet_hours_end: string | null;
+    time_zone: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface AlertDelivery {
+    id: string;
+    alert_id: string;
+    user_id: string;
+    channel: 'sms' | 'whatsapp';
+    provider: string;
+    recipient: string;
+    message: string;
+    status: 'queued' | 'sent' | 'failed' | 'suppressed'; // suppressed: held back by quiet hours
+    provider_message_id: string | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PriceWatch {
+    id: string;
+    user_id: string;
+    commodity: string;
+    market: string; // lower-cased market or district
+    direction: 'above' | 'below';
+    threshold: number; // ₹ per quintal
+    is_active: boolean;
+    last_price: number | null;
+    last_checked_at: string | null;
+    last_triggered_at: string | null;
+    created_at: string;
+}
+
+export interface MandiPriceHistory {
+    id: string;
+    commodity: string;
+    variety: string;
+    market: string;
+    district: string | null;
+    state: string | null;
+    min_price: number; // ₹ per quintal
+    max_price: number;
+    modal_price: number;
+    arrival_date: string; // YYYY-MM-DD
+    source: string;
+    fetched_at: string;
     created_at: string;
 }
 
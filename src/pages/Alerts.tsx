@@ -0,0 +1,258 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+    Bell, AlertTriangle, Droplets, ThermometerSun, Leaf, Bug, Waves,
+    CheckCheck, ChevronRight, Loader2, Inbox, BellRing, BellOff, IndianRupee
+} from 'lucide-react';
+import { DashboardLayout } from '../components/layout/Layout';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Select } from '../components/ui/Select';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useAlertHistory } from '../hooks/useAlerts';
+import { usePushNotifications } from '../hooks/usePushNotifications';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import { AlertPreferencesCard, NotificationChannelsCard } from '../components/alerts';
+import { cn, formatDate, formatTime } from '../lib/utils';
+import type { Alert } from '../lib/supabase';
+import { getAlertTarget, getStoredAlertType } from '../lib/alert-rules';
+import type { AlertType } from '../lib/alerts-engine';
+
+const typeIcons: Record<AlertType, typeof Bell> = {
+    WEATHER: ThermometerSun,
+    HARVEST: Leaf,
+    IRRIGATE: Droplets,
+    DISEASE: Bug,
+    FLOOD: Waves,
+    PRICE: IndianRupee,
+    GENERAL: AlertTriangle,
+};
+
+const typeLabels: Record<AlertType, string> = {
+    WEATHER: 'Weather',
+    HARVEST: 'Harvest',
+    IRRIGATE: 'Irrigation',
+    DISEASE: 'Disease',
+    FLOOD: 'Flood',
+    PRICE: 'Price',
+    GENERAL: 'General',
+};
+
+const severityColors: Record<Alert['severity'], string> = {
+    critical: 'bg-red-50 border-red-200 text-red-800',
+    high: 'bg-red-50 border-red-200 text-red-800',
+    medium: 'bg-amber-50 border-amber-200 text-amber-800',
+    low: 'bg-emerald-50 border-emerald-200 text-emerald-800',
+};
+
+function getAlertType(alert: Alert): AlertType {
+    return getStoredAlertType(alert.alert_type, alert.type);
+}
+
+export function Alerts() {
+    const { t } = useLanguage();
+    const { alerts, isLoading, markRead, isMarking } = useAlertHistory();
+    const push = usePushNotifications();
+    const {
+        preferences,
+        alertPreferences,
+        savePreferences,
+        isSaving,
+        sendVerificationCode,
+        isSendingCode,
+        verifyPhone,
+        isVerifying,
+        saveAlertPreferences,
+        isSavingAlertPreferences,
+    } = useNotificationPreferences();
+
+    const [typeFilter, setTypeFilter] = useState<AlertType | 'ALL'>('ALL');
+    const [severityFilter, setSeverityFilter] = useState<Alert['severity'] | 'ALL'>('ALL');
+
+    const filtered = useMemo(
+        () => alerts.filter((alert) =>
+            (typeFilter === 'ALL' || getAlertType(alert) === typeFilter) &&
+            (severityFilter === 'ALL' || alert.severity === severityFilter)
+        ),
+        [alerts, typeFilter, severityFilter]
+    );
+
+    // Group by calendar day, newest first (alerts already arrive sorted)
+    const groups = useMemo(() => {
+        const byDay = new Map<string, Alert[]>();
+        filtered.forEach((alert) => {
+            const day = formatDate(alert.created_at);
+            if (!byDay.has(day)) byDay.set(day, []);
+            byDay.get(day)!.push(alert);
+        });
+        return Array.from(byDay.entries());
+    }, [filtered]);
+
+    const unreadIds = filtered.filter((alert) => !alert.is_read).map((alert) => alert.id);
+
+    return (
+        <DashboardLayout>
+            <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4"
+            >
+                <div>
+                    <h1 className="text-2xl md:text-3xl font-bold text-slate-800 flex items-center gap-2">
+                        <Bell className="w-7 h-7 text-amber-500" />
+                        {t('alerts.title')}
+                    </h1>
+                    <p className="text-slate-500 mt-1">{t('alerts.subtitle')}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {push.isSupported && (
+                        <Button
+                            variant={push.isSubscribed ? 'ghost' : 'primary'}
+                            size="sm"
+                            onClick={() => (push.isSubscribed ? push.unsubscribe() : push.subscribe()).catch(() => {})}
+                            disabled={push.isLoading || push.isUpdating || (!push.isSubscribed && push.permission === 'denied')}
+                            title={push.permission === 'denied' ? t('alerts.push.blocked') : undefined}
+                        >
+                            {push.isSubscribed
+                                ? <BellOff className="w-4 h-4 mr-2" />
+                                : <BellRing className="w-4 h-4 mr-2" />}
+                            {push.isSubscribed ? t('alerts.push.disable') : t('alerts.push.enable')}
+                        </Button>
+                    )}
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => markRead(unreadIds)}
+                        disabled={unreadIds.length === 0 || isMarking}
+                    >
+                        <CheckCheck className="w-4 h-4 mr-2" />
+                        {t('alerts.markAllRead')}
+                    </Button>
+                </div>
+            </motion.div>
+
+            <div className="mb-6 grid gap-6 lg:grid-cols-2 items-start">
+                <AlertPreferencesCard
+                    preferences={alertPreferences}
+                    isSaving={isSavingAlertPreferences}
+                    onSave={saveAlertPreferences}
+                />
+                <NotificationChannelsCard
+                    preferences={preferences}
+                    isSaving={isSaving}
+                    onSave={savePreferences}
+                    isSendingCode={isSendingCode}
+                    onSendCode={sendVerificationCode}
+                    isVerifying={isVerifying}
+                    onVerify={verifyPhone}
+                />
+            </div>
+
+            {/* Filters */}
+            <div className="grid grid-cols-2 gap-3 mb-6 max-w-md">
+                <Select
+                    label="Type"
+                    value={typeFilter}
+                    onChange={(e) => setTypeFilter(e.target.value as AlertType | 'ALL')}
+                    options={[
+                        { value: 'ALL', label: 'All types' },
+                        ...(Object.keys(typeLabels) as AlertType[]).map((type) => ({
+                            value: type,
+                            label: typeLabels[type],
+                        })),
+                    ]}
+                />
+                <Select
+                    label="Severity"
+                    value={severityFilter}
+                    onChange={(e) => setSeverityFilter(e.target.value as Alert['severity'] | 'ALL')}
+                    options={[
+                        { value: 'ALL', label: 'All severities' },
+                        { value: 'critical', label: 'Critical' },
+                        { value: 'high', label: 'High' },
+                        { value: 'medium', label: 'Medium' },
+                        { value: 'low', label: 'Low' },
+                    ]}
+                />
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <Loader2 className="w-8 h-8 text-slate-400 animate-spin" />
+                </div>
+            ) : groups.length === 0 ? (
+                <Card className="border-0 shadow-lg">
+                    <CardContent className="py-12 text-center">
+                        <Inbox className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+                        <p className="text-slate-500">{t('alerts.empty')}</p>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-6">
+                    {groups.map(([day, dayAlerts]) => (
+                        <section key={day}>
+                            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-widest pl-1 mb-3">
+                                {day}
+                            </h2>
+                            <div className="space-y-3">
+                                {dayAlerts.map((alert) => {
+                                    const Icon = typeIcons[getAlertType(alert)];
+                                    return (
+                                        <div
+                                            key={alert.id}
+                                            className={cn(
+                                                'relative rounded-xl border p-4 shadow-sm',
+                                                severityColors[alert.severity],
+                                                (alert.is_read || alert.resolved_at) && 'opacity-70'
+                                            )}
+                                        >
+                                            <div className="flex items-start gap-4">
+                                                <div className="p-2 rounded-lg bg-white/40">
+                                                    <Icon className="w-5 h-5" />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="flex items-center gap-2">
+                                                        {!alert.is_read && (
+                                                            <span className="w-2 h-2 rounded-full bg-red-500 flex-shrink-0" />
+                                                        )}
+                                                        <h4 className="font-bold text-base leading-tight">{alert.title}</h4>
+                                                    </div>
+                                                    <p className="text-sm opacity-90 mt-1">{alert.message}</p>
+                                                    <div className="flex flex-wrap items-center gap-3 mt-3 text-xs">
+                                                        <span className="opacity-70">
+                                                            {formatTime(alert.created_at)}
+                                                            {alert.location && ` · ${alert.location}`}
+                                                            {alert.is_dismissed && ' · Dismissed'}
+                                                            {alert.resolved_at && ' · Resolved'}
+                                                        </span>
+                                                        {!alert.is_read && (
+                                                            <button
+                                                                onClick={() => markRead([alert.id])}
+                                                                className="font-semibold underline underline-offset-2"
+                                                            >
+                                                                {t('alerts.markRead')}
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                                <Link
+                                                    to={getAlertTarget(getAlertType(alert), alert.type)}
+                                                    onClick={() => !alert.is_read && markRead([alert.id])}
+                                                    className="p-2 rounded-lg hover:bg-white/50 transition-colors"
+                                                    aria-label="Open related card"
+                                                >
+                                                    <ChevronRight className="w-5 h-5" />
+                                                </Link>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+            )}
+        </DashboardLayout>
+    );
+}
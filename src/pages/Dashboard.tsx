@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MessageSquare, Cloud, TrendingUp, AlertTriangle, MapPin, Search, Loader2, Sparkles, X, CloudRain, Thermometer, Droplets, Wind, Shield, CheckCircle, Info } from 'lucide-react';
@@ -8,18 +8,31 @@ import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { WeatherCard } from '../components/weather/WeatherCard';
 import { FloodRiskCard } from '../components/flood/FloodRiskCard';
+import { FieldProfileCard } from '../components/flood/FieldProfileCard';
+import { FloodReportsCard } from '../components/flood/FloodReportsCard';
 import { MandiPriceCard } from '../components/mandi/MandiPriceCard';
 import { AlertBanner } from '../components/alerts/AlertBanner';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useLocation } from '../contexts/LocationContext';
 import { useFloodRisk } from '../hooks/useFloodRisk';
-import { fetchWeatherData, fetchMandiPrices, getHarvestAdvisory, WeatherData, MandiPrice, HarvestAdvisoryResult } from '../lib/api';
+import { useFieldProfile } from '../hooks/useFieldProfile';
+import { useFloodChecklist } from '../hooks/useFloodChecklist';
+import { useFloodReports } from '../hooks/useFloodReports';
+import { useAlerts, usePriceAlerts, fromSmartAlert } from '../hooks/useAlerts';
+import { buildAlertKey } from '../lib/alert-keys';
+import { usePriceWatches } from '../hooks/usePriceWatches';
+import { useNotificationPreferences } from '../hooks/useNotificationPreferences';
+import { fetchWeatherData, fetchMandiPrices, fetchWaterLevels, getHarvestAdvisory, WeatherData, MandiPrice, HarvestAdvisoryResult, WaterLevelReading } from '../lib/api';
 import { HarvestRecommendationCard } from '../components/dashboard/HarvestRecommendationCard';
 import { CropCalendarCard } from '../components/dashboard/CropCalendarCard';
 import { SmartAlerts } from '../components/dashboard/SmartAlerts';
 import { CropStage } from '../lib/crop-calendar-logic';
-import { generateSmartAlerts, SmartAlert } from '../lib/alerts-engine';
+import { generateSmartAlerts, rankAlerts, SmartAlert } from '../lib/alerts-engine';
+import { applyAlertPolicy } from '../lib/alert-policy';
+import { passesAlertFilters } from '../lib/alert-preferences';
+import { PRICE_WATCH_ALERT_PREFIX } from '../lib/price-watch';
+import { isFloodReportCluster } from '../lib/flood-risk';
 
 // Results Popup Modal Component
 function ResultsPopup({
@@ -37,6 +50,8 @@ function ResultsPopup({
     floodRisk: any;
     isLoading: boolean;
 }) {
+    const { t } = useLanguage();
+
     if (!isOpen) return null;
 
     const riskColors = {
@@ -180,7 +195,7 @@ function ResultsPopup({
                                     floodRisk.level === 'MEDIUM' ? 'bg-amber-100 text-amber-700' :
                                         'bg-red-100 text-red-700'
                                     }`}>
-                                    <p className="text-sm font-medium">{floodRisk.advice}</p>
+                                    <p className="text-sm font-medium">{t(floodRisk.adviceKey)}</p>
                                 </div>
                             </div>
 
@@ -227,11 +242,11 @@ function ResultsPopup({
 }
 
 export function Dashboard() {
-    const { t } = useLanguage();
+    const { t, language } = useLanguage();
     const { user, preferences, updatePreferences } = useAuth();
 
     // Global location context - sync with Chat page
-    const { setLocation: setGlobalLocation } = useLocation();
+    const { setLocation: setGlobalLocation, publishFloodRisk } = useLocation();
 
     // ============================================
     // SINGLE SOURCE OF TRUTH: selectedLocation
@@ -251,8 +266,15 @@ export function Dashboard() {
     // Mandi state - STRICTLY tied to selectedLocation
     const [mandiPrices, setMandiPrices] = useState<MandiPrice[]>([]);
     const [mandiLastUpdated, setMandiLastUpdated] = useState<string>('');
+    // Matching records at data.gov.in, and whether the fetch stopped short of them
+    const [mandiTotal, setMandiTotal] = useState<{ totalRecords?: number; truncated?: boolean }>({});
     const [isLoadingMandi, setIsLoadingMandi] = useState(false);
 
+    // River gauge / reservoir readings - STRICTLY tied to selectedLocation
+    const [waterLevels, setWaterLevels] = useState<WaterLevelReading[]>([]);
+    const waterLevelLocation = useRef<string | null>(null);
+    const [loadedWaterLevelLocation, setLoadedWaterLevelLocation] = useState<string | null>(null);
+
     // Harvest Advisory State
     const [harvestAdvisory, setHarvestAdvisory] = useState<HarvestAdvisoryResult | null>(null);
     const [isLoadingAdvisory, setIsLoadingAdvisory] = useState(false);
@@ -285,17 +307,52 @@ export function Dashboard() {
     // Results Popup state
     const [showResultsPopup, setShowResultsPopup] = useState(false);
 
+    // Field susceptibility profile (per user) scales the weather-based score
+    const { field, saveProfile, isSaving: isSavingField, isLoading: isFieldLoading } = useFieldProfile();
+
+    // Crowdsourced flood reports for selectedLocation (recent window only)
+    const {
+        reports: floodReports,
+        summary: floodReportSummary,
+        submitReport: submitFloodReport,
+        isSubmitting: isSubmittingReport,
+        isLoading: isFloodReportsLoading,
+        canReport: canFileFloodReport,
+    } = useFloodReports(selectedLocation);
+
     // ============================================
     // FLOOD RISK: Calculated ONLY from weatherData of selectedLocation
     // ============================================
     const floodRisk = useFloodRisk(
         weatherData?.current?.rainfall || 0,
         weatherData?.consecutiveRainyDays || 0,
-        weatherData?.forecast?.map((d) => d.rainfall) || []
+        weatherData?.forecast || [],
+        {
+            antecedentRainfall: weatherData?.antecedentPrecipitation?.days7,
+            waterLevels,
+            floodReports,
+            field,
+        }
     );
 
+    // Preparedness checklist for the current flood episode (persisted per user).
+    // The level only counts once every risk input for the location has loaded.
+    const isFloodRiskReady = !!weatherData &&
+        loadedWaterLevelLocation === selectedLocation &&
+        !isFloodReportsLoading &&
+        !isFieldLoading;
+    const floodChecklist = useFloodChecklist(selectedLocation, floodRisk.level, isFloodRiskReady);
+
+    // Share the complete result with Chat instead of letting it recompute
+    useEffect(() => {
+        if (selectedLocation && isFloodRiskReady) publishFloodRisk(selectedLocation, floodRisk);
+    }, [selectedLocation, isFloodRiskReady, floodRisk, publishFloodRisk]);
+
     // Calculate Smart Alerts (Proactive) - Now safely AFTER floodRisk definition
     const [smartAlerts, setSmartAlerts] = useState<SmartAlert[]>([]);
+    // Weather the current smartAlerts were generated from (guards the policy
+    // effects below against alerts left over from the previous location)
+    const [smartAlertsWeather, setSmartAlertsWeather] = useState<WeatherData | null>(null);
 
     useEffect(() => {
         if (weatherData) {
@@ -303,13 +360,31 @@ export function Dashboard() {
                 weatherData,
                 selectedCrop || null,
                 selectedStage || null,
-                floodRisk.level
+                floodRisk.level,
+                waterLevels,
+                floodReports,
+                // Uncapped: the policy layer must see every firing alert to resolve correctly
+                { limit: Infinity, language }
             );
             setSmartAlerts(generatedAlerts);
+            setSmartAlertsWeather(weatherData);
         }
-    }, [weatherData, selectedCrop, selectedStage, floodRisk]);
+    }, [weatherData, selectedCrop, selectedStage, floodRisk, waterLevels, floodReports, language]);
+
+    // Persisted read/dismiss state for today's alerts at selectedLocation
+    const alertLocation = hasSearched ? selectedLocation : null;
+    const {
+        dismissedIds,
+        history: alertHistory,
+        isHistoryLoaded,
+        syncAlerts,
+        dismissAlert,
+        resolveAlerts,
+        reopenAlerts,
+    } = useAlerts(alertLocation);
 
     const handleDismissSmartAlert = (id: string) => {
+        dismissAlert(id);
         setSmartAlerts(prev => prev.filter(a => a.id !== id));
     };
 
@@ -319,27 +394,122 @@ export function Dashboard() {
 
         if (floodRisk.level === 'HIGH') {
             return [{
-                id: 'flood-warning',
+                id: 'navbar-flood-warning',
                 type: 'flood' as const,
-                title: `⚠️ High Flood Risk in ${selectedLocation}`,
-                message: floodRisk.advice,
+                title: t('alerts.floodBanner.high', { location: selectedLocation }),
+                message: t(floodRisk.adviceKey),
                 severity: 'high' as const,
+                cooldownHours: 0,
             }];
         } else if (floodRisk.level === 'MEDIUM') {
             return [{
-                id: 'flood-caution',
+                id: 'navbar-flood-caution',
                 type: 'flood' as const,
-                title: `🌧️ Moderate Flood Risk in ${selectedLocation}`,
-                message: 'Monitor weather conditions closely.',
+                title: t('alerts.floodBanner.medium', { location: selectedLocation }),
+                message: t('alerts.floodBanner.mediumMessage'),
                 severity: 'medium' as const,
             }];
         }
         return [];
-    }, [floodRisk, selectedLocation, hasSearched]);
+    }, [floodRisk, selectedLocation, hasSearched, t]);
+
+    // Policy layer: suppress repeats in cooldown, escalate persisting
+    // conditions and resolve stored alerts whose condition cleared.
+    // Price watch alerts share the location key but aren't evaluated
+    // here, so they must never be resolved as "not firing".
+    const alertLocationKey = alertLocation?.trim().toLowerCase() || '';
+    const alertDecision = useMemo(
+        () => applyAlertPolicy(
+            [...smartAlerts, ...navbarAlerts],
+            alertHistory,
+            {
+                keyFor: (id) => buildAlertKey(id, alertLocationKey),
+                resolvableIds: (id) => !id.startsWith(PRICE_WATCH_ALERT_PREFIX),
+            }
+        ),
+        [smartAlerts, navbarAlerts, alertHistory, alertLocationKey]
+    );
+
+    // Only alert types / severities the user subscribed to (HIGH flood always).
+    // Cooldown only keeps repeats out of storage and notifications: alerts
+    // in cooldown are still firing, so they stay on screen.
+    const { alertPreferences, isLoading: isPreferencesLoading } = useNotificationPreferences();
+    type DecidedAlert = typeof alertDecision.active[number];
+    const isSubscribed = useCallback(
+        (a: DecidedAlert) => passesAlertFilters(
+            { type: 'dismissible' in a ? a.type : 'FLOOD', severity: a.severity },
+            alertPreferences
+        ),
+        [alertPreferences]
+    );
+    const subscribedAlerts = useMemo(
+        () => alertDecision.active.filter(isSubscribed),
+        [alertDecision, isSubscribed]
+    );
+    const displayedAlerts = useMemo(
+        () => [...alertDecision.active, ...alertDecision.suppressed].filter(isSubscribed),
+        [alertDecision, isSubscribed]
+    );
+
+    // Re-ranked after the policy layer, which can escalate severity;
+    // SmartAlerts collapses whatever exceeds the daily budget
+    const visibleSmartAlerts = useMemo(
+        () => rankAlerts(
+            displayedAlerts
+                .filter((a): a is SmartAlert => 'dismissible' in a)
+                .filter(a => !dismissedIds.has(a.id)),
+            selectedCrop ? selectedStage || null : null
+        ),
+        [displayedAlerts, dismissedIds, selectedCrop, selectedStage]
+    );
+
+    const visibleNavbarAlerts = useMemo(
+        () => displayedAlerts
+            .filter((a): a is typeof navbarAlerts[number] => !('dismissible' in a))
+            .filter(a => !dismissedIds.has(a.id)),
+        [displayedAlerts, dismissedIds]
+    );
+
+    // Price watch alerts (stored by the scheduled price-watcher) share the banner
+    const { alerts: priceAlerts, dismissPriceAlert } = usePriceAlerts();
+    const { watches: priceWatches, addWatch, removeWatch, isSaving: isSavingWatch } = usePriceWatches();
+
+    const bannerAlerts = useMemo(
+        () => [
+            ...visibleNavbarAlerts,
+            ...priceAlerts
+                .filter(a => passesAlertFilters({ type: 'PRICE', severity: a.severity }, alertPreferences))
+                .map(a => ({ id: a.id, type: a.type, title: a.title, message: a.message, severity: a.severity })),
+        ],
+        [visibleNavbarAlerts, priceAlerts, alertPreferences]
+    );
 
     const dismissNavbarAlert = useCallback((id: string) => {
-        // Alerts are derived from state, so we'd need to track dismissed IDs
-    }, []);
+        if (priceAlerts.some(a => a.id === id)) {
+            dismissPriceAlert(id);
+        } else {
+            dismissAlert(id);
+        }
+    }, [priceAlerts, dismissPriceAlert, dismissAlert]);
+
+    // Store each subscribed alert once per day (only those not stored yet,
+    // since storing refreshes the history the decision depends on)
+    useEffect(() => {
+        if (!weatherData || smartAlertsWeather !== weatherData || !isHistoryLoaded || isPreferencesLoading) return;
+        const storedKeys = new Set(alertHistory.map(entry => entry.key));
+        const unstored = subscribedAlerts.filter(a => !storedKeys.has(buildAlertKey(a.id, alertLocationKey)));
+        if (unstored.length === 0) return;
+        syncAlerts(unstored.map(a =>
+            'dismissible' in a ? fromSmartAlert(a, language) : { ...a, alertType: 'FLOOD' as const }
+        ));
+    }, [weatherData, smartAlertsWeather, isHistoryLoaded, isPreferencesLoading, subscribedAlerts, alertHistory, alertLocationKey, syncAlerts, language]);
+
+    // Auto-resolve cleared conditions (and reopen ones firing again today)
+    useEffect(() => {
+        if (!weatherData || smartAlertsWeather !== weatherData || !isHistoryLoaded) return;
+        resolveAlerts(alertDecision.resolveKeys);
+        reopenAlerts(alertDecision.reopenKeys);
+    }, [weatherData, smartAlertsWeather, isHistoryLoaded, alertDecision, resolveAlerts, reopenAlerts]);
 
     // ============================================
     // WEATHER FETCH: Uses ONLY selectedLocation
@@ -364,6 +534,26 @@ export function Dashboard() {
         }
     }, []);
 
+    // ============================================
+    // WATER LEVEL FETCH: Gauges/reservoirs for the searched location
+    // Failures just mean no gauge signal - never block the search
+    // Old readings are cleared at once and late responses for a location
+    // no longer selected are dropped, so the new location's weather never
+    // scores against the previous location's gauges
+    // ============================================
+    const loadWaterLevels = useCallback(async (location: string) => {
+        waterLevelLocation.current = location;
+        setWaterLevels([]);
+        try {
+            const data = await fetchWaterLevels(location);
+            if (waterLevelLocation.current === location) setWaterLevels(data.readings);
+        } catch (error) {
+            console.error('Failed to fetch water levels for:', location, error);
+        } finally {
+            if (waterLevelLocation.current === location) setLoadedWaterLevelLocation(location);
+        }
+    }, []);
+
     // ============================================
     // MANDI FETCH: Uses selectedLocation as district filter
     // NO FALLBACKS - if no data found, show message
@@ -374,7 +564,12 @@ export function Dashboard() {
 
         setIsLoadingMandi(true);
         try {
-            const data = await fetchMandiPrices(commodity, searchMarket);
+            // One row per market, best price first
+            const data = await fetchMandiPrices(commodity, searchMarket, {
+                aggregate: 'latest',
+                sortBy: 'modalPrice',
+                sortOrder: 'desc',
+            });
 
             // Don't use fallback data - if no results, show empty
             if (data.prices.length === 0) {
@@ -384,6 +579,7 @@ export function Dashboard() {
                 setMandiPrices(data.prices);
                 setMandiLastUpdated(data.lastUpdated);
             }
+            setMandiTotal({ totalRecords: data.totalRecords, truncated: data.truncated });
         } catch (error) {
             console.error('Failed to fetch mandi prices:', error);
             setMandiPrices([]);
@@ -421,6 +617,7 @@ export function Dashboard() {
             setSelectedLocation(trimmedInput);
             setWeatherData(weatherResult);
             setGlobalLocation(trimmedInput); // SYNC with global LocationContext for Chat page
+            loadWaterLevels(trimmedInput);
 
             // 2. Fetch Mandi Data
             setIsLoadingMandi(true);
@@ -428,6 +625,7 @@ export function Dashboard() {
                 const mandiData = await fetchMandiPrices(undefined, trimmedInput); // Fetch all for the location
                 setMandiPrices(mandiData.prices);
                 setMandiLastUpdated(mandiData.lastUpdated);
+                setMandiTotal({ totalRecords: mandiData.totalRecords, truncated: mandiData.truncated });
             } catch (err) {
                 console.error('Mandi fetch error:', err);
                 setMandiPrices([]); // Clear on error
@@ -471,7 +669,7 @@ export function Dashboard() {
         } finally {
             setIsSearching(false);
         }
-    }, [locationInput, updatePreferences, preferences?.language, setGlobalLocation]);
+    }, [locationInput, updatePreferences, preferences?.language, setGlobalLocation, loadWaterLevels]);
 
     // ============================================
     // QUICK LOCATION SELECT: Also uses search logic
@@ -495,6 +693,7 @@ export function Dashboard() {
             setSelectedLocation(city);
             setWeatherData(weatherResult);
             setGlobalLocation(city); // SYNC with global LocationContext for Chat page
+            loadWaterLevels(city);
 
             // 2. Fetch Mandi Data
             setIsLoadingMandi(true);
@@ -502,6 +701,7 @@ export function Dashboard() {
                 const mandiData = await fetchMandiPrices(undefined, city); // Fetch all for the location
                 setMandiPrices(mandiData.prices);
                 setMandiLastUpdated(mandiData.lastUpdated);
+                setMandiTotal({ totalRecords: mandiData.totalRecords, truncated: mandiData.truncated });
             } catch (err) {
                 console.error('Mandi fetch error:', err);
                 setMandiPrices([]); // Clear on error
@@ -532,7 +732,7 @@ export function Dashboard() {
         } finally {
             setIsSearching(false);
         }
-    }, [setGlobalLocation, preferences?.language]);
+    }, [setGlobalLocation, preferences?.language, loadWaterLevels]);
 
     // Handle Enter key press
     const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -542,6 +742,14 @@ export function Dashboard() {
     };
 
     // Quick actions
+    // Deep links from the notification center (e.g. /dashboard#flood)
+    useEffect(() => {
+        const { hash } = window.location;
+        if (hash) {
+            document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+        }
+    }, []);
+
     const quickActions = [
         {
             icon: MessageSquare,
@@ -685,8 +893,12 @@ export function Dashboard() {
             </motion.div>
 
             {/* Alerts */}
-            {navbarAlerts.length > 0 && (
-                <AlertBanner alerts={navbarAlerts} onDismiss={dismissNavbarAlert} />
+            {bannerAlerts.length > 0 && (
+                <AlertBanner
+                    alerts={bannerAlerts}
+                    onDismiss={dismissNavbarAlert}
+                    floodPreparedPercent={floodChecklist.preparedPercent}
+                />
             )}
 
             {/* Harvest Recommendation Card */}
@@ -792,23 +1004,52 @@ export function Dashboard() {
                         <FloodRiskCard
                             level={floodRisk.level}
                             score={floodRisk.score}
-                            advice={floodRisk.advice}
+                            adviceKey={floodRisk.adviceKey}
                             tips={floodRisk.tips}
                             trend={floodRisk.trend}
                             rainfall={weatherData?.current?.rainfall || 0}
                             consecutiveRainyDays={weatherData?.consecutiveRainyDays || 0}
+                            factors={floodRisk.factors}
+                            outlook={floodRisk.outlook}
+                            fieldAdjustments={floodRisk.fieldAdjustments}
+                            checklist={{
+                                items: floodChecklist.items,
+                                completed: floodChecklist.completed,
+                                preparedPercent: floodChecklist.preparedPercent,
+                                onToggle: floodChecklist.toggleItem,
+                            }}
                             location={selectedLocation || undefined}
                         />
                     )}
+                    <div className="mt-6">
+                        <FieldProfileCard
+                            field={field}
+                            isSaving={isSavingField}
+                            onSave={saveProfile}
+                        />
+                    </div>
+                    {hasSearched && (
+                        <div className="mt-6">
+                            <FloodReportsCard
+                                reports={floodReports}
+                                summary={floodReportSummary}
+                                isCluster={isFloodReportCluster(floodReports)}
+                                isSubmitting={isSubmittingReport}
+                                canReport={canFileFloodReport}
+                                onSubmit={submitFloodReport}
+                                location={selectedLocation || undefined}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 <div id="mandi" className="lg:col-span-2">
                     <div className="grid lg:grid-cols-2 gap-6">
                         {/* Crop Calendar - Full Height/Featured */}
-                        <div className="space-y-6">
+                        <div id="calendar" className="space-y-6">
                             {/* Proactive Smart Alerts */}
                             <SmartAlerts
-                                alerts={smartAlerts}
+                                alerts={visibleSmartAlerts}
                                 onDismiss={handleDismissSmartAlert}
                                 weatherUnavailable={hasSearched && !weatherData}
                             />
@@ -828,9 +1069,15 @@ export function Dashboard() {
                             <MandiPriceCard
                                 prices={mandiPrices}
                                 lastUpdated={mandiLastUpdated}
+                                totalRecords={mandiTotal.totalRecords}
+                                truncated={mandiTotal.truncated}
                                 isLoading={isLoadingMandi}
                                 onSearch={loadMandiPrices}
                                 location={selectedLocation || undefined}
+                                watches={priceWatches}
+                                onAddWatch={addWatch}
+                                onRemoveWatch={removeWatch}
+                                isSavingWatch={isSavingWatch}
                             />
                         </div>
                     </div>
@@ -0,0 +1,233 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { FlaskConical, Upload, Play, AlertTriangle, Target } from 'lucide-react';
+import { DashboardLayout } from '../components/layout/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+    parseHistoricalCsv,
+    runBacktest,
+    buildThresholdCandidates,
+    BacktestOptions,
+    BacktestResult,
+    DEFAULT_BACKTEST_OPTIONS,
+} from '../lib/flood-backtest';
+
+const SAMPLE_CSV = `district,date,rainfall_mm,flood_event
+Chennai,2023-12-01,12,0
+Chennai,2023-12-02,48,0
+Chennai,2023-12-03,180,0
+Chennai,2023-12-04,240,1
+Chennai,2023-12-05,35,1
+Chennai,2023-12-06,4,0`;
+
+function parseNumberList(value: string): number[] {
+    return value
+        .split(',')
+        .map((v) => parseFloat(v.trim()))
+        .filter((n) => !Number.isNaN(n));
+}
+
+function formatPercent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
+
+export function FloodBacktest() {
+    const { t } = useLanguage();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [csvText, setCsvText] = useState(SAMPLE_CSV);
+    const [alarmLevel, setAlarmLevel] = useState<BacktestOptions['alarmLevel']>(DEFAULT_BACKTEST_OPTIONS.alarmLevel);
+    const [leadWindowDays, setLeadWindowDays] = useState(String(DEFAULT_BACKTEST_OPTIONS.leadWindowDays));
+    const [mediumThresholds, setMediumThresholds] = useState('20, 30, 40');
+    const [highThresholds, setHighThresholds] = useState('50, 60, 70');
+    const [results, setResults] = useState<BacktestResult[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load CSV from a file
+    const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setCsvText(await file.text());
+        setResults([]);
+        setError(null);
+    }, []);
+
+    const handleRun = useCallback(() => {
+        setError(null);
+
+        try {
+            const days = parseHistoricalCsv(csvText);
+            if (days.length === 0) {
+                setError('No rows found in CSV');
+                return;
+            }
+
+            const candidates = buildThresholdCandidates(
+                parseNumberList(highThresholds),
+                parseNumberList(mediumThresholds)
+            );
+            if (candidates.length === 0) {
+                setError('Enter at least one MEDIUM threshold below a HIGH threshold');
+                return;
+            }
+
+            const ranked = runBacktest(days, candidates, {
+                ...DEFAULT_BACKTEST_OPTIONS,
+                alarmLevel,
+                leadWindowDays: parseInt(leadWindowDays, 10) || DEFAULT_BACKTEST_OPTIONS.leadWindowDays,
+            }).sort((a, b) => b.hitRate - a.hitRate || a.falseAlarmRatio - b.falseAlarmRatio);
+
+            setResults(ranked);
+        } catch (err) {
+            setResults([]);
+            setError(err instanceof Error ? err.message : 'Backtest failed');
+        }
+    }, [csvText, alarmLevel, leadWindowDays, mediumThresholds, highThresholds]);
+
+    return (
+        <DashboardLayout>
+            <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6"
+            >
+                <h1 className="text-2xl md:text-3xl font-bold text-slate-800 flex items-center gap-2">
+                    <FlaskConical className="w-7 h-7 text-indigo-500" />
+                    {t('backtest.title')}
+                </h1>
+                <p className="text-slate-500 mt-1">{t('backtest.subtitle')}</p>
+            </motion.div>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+                {/* Input */}
+                <Card className="border-0 shadow-lg">
+                    <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                            <span className="text-slate-800">Historical Data</span>
+                            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+                                <Upload className="w-4 h-4 mr-2" />
+                                Upload CSV
+                            </Button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".csv,text/csv"
+                                onChange={handleFileSelect}
+                                className="hidden"
+                            />
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <p className="text-xs text-slate-500">
+                            Columns: <code>district, date, rainfall_mm, flood_event</code> (1 marks a known flood day)
+                        </p>
+                        <textarea
+                            value={csvText}
+                            onChange={(e) => setCsvText(e.target.value)}
+                            rows={10}
+                            className="w-full px-4 py-3 rounded-xl border border-slate-200 font-mono text-xs focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 outline-none"
+                        />
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <Select
+                                label="Alarm at level"
+                                value={alarmLevel}
+                                onChange={(e) => setAlarmLevel(e.target.value as BacktestOptions['alarmLevel'])}
+                                options={[
+                                    { value: 'HIGH', label: 'HIGH' },
+                                    { value: 'MEDIUM', label: 'MEDIUM or above' },
+                                ]}
+                            />
+                            <Input
+                                label="Lead window (days)"
+                                type="number"
+                                min={0}
+                                value={leadWindowDays}
+                                onChange={(e) => setLeadWindowDays(e.target.value)}
+                            />
+                            <Input
+                                label="MEDIUM thresholds"
+                                value={mediumThresholds}
+                                onChange={(e) => setMediumThresholds(e.target.value)}
+                            />
+                            <Input
+                                label="HIGH thresholds"
+                                value={highThresholds}
+                                onChange={(e) => setHighThresholds(e.target.value)}
+                            />
+                        </div>
+
+                        {error && (
+                            <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700 flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                {error}
+                            </div>
+                        )}
+
+                        <Button
+                            onClick={handleRun}
+                            className="w-full bg-gradient-to-r from-indigo-500 to-violet-600 text-white"
+                        >
+                            <Play className="w-4 h-4 mr-2" />
+                            {t('backtest.run')}
+                        </Button>
+                    </CardContent>
+                </Card>
+
+                {/* Results */}
+                <Card className="border-0 shadow-lg">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Target className="w-5 h-5 text-indigo-500" />
+                            <span className="text-slate-800">{t('backtest.results')}</span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {results.length === 0 ? (
+                            <p className="text-slate-500 text-sm py-8 text-center">
+                                Run a backtest to compare threshold configurations
+                            </p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                                            <th className="py-2 pr-2">Configuration</th>
+                                            <th className="py-2 px-2">Hit rate</th>
+                                            <th className="py-2 px-2">False alarms</th>
+                                            <th className="py-2 pl-2">Lead time</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {results.map((result) => (
+                                            <tr key={result.name} className="border-b border-slate-50">
+                                                <td className="py-2 pr-2 font-medium text-slate-700">{result.name}</td>
+                                                <td className="py-2 px-2">
+                                                    {formatPercent(result.hitRate)}
+                                                    <span className="text-xs text-slate-400"> ({result.hits}/{result.events})</span>
+                                                </td>
+                                                <td className="py-2 px-2">
+                                                    {result.falseAlarms}
+                                                    <span className="text-xs text-slate-400"> ({formatPercent(result.falseAlarmRatio)} of {result.alarmDays})</span>
+                                                </td>
+                                                <td className="py-2 pl-2">
+                                                    {result.meanLeadTimeDays !== null
+                                                        ? `${result.meanLeadTimeDays.toFixed(1)} d`
+                                                        : '—'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </DashboardLayout>
+    );
+}
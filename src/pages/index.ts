@@ -4,3 +4,5 @@ export { Signup } from './Signup';
 export { Dashboard } from './Dashboard';
 export { Chat } from './Chat';
 export { DiseaseDetection } from './DiseaseDetection';
+export { FloodBacktest } from './FloodBacktest';
+export { Alerts } from './Alerts';
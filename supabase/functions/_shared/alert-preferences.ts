@@ -0,0 +1,38 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+    AlertPreferences,
+    AlertPreferencesRow,
+    toAlertPreferences,
+} from '../../../src/lib/alert-preferences.ts';
+
+/**
+ * Alert subscription preferences per user
+ *
+ * Users without a `notification_preferences` row get the defaults
+ * (every type, every severity, no quiet hours).
+ */
+
+const PREFERENCE_COLUMNS = 'user_id, muted_alert_types, min_severity, quiet_hours_start, quiet_hours_end, time_zone';
+
+export async function loadAlertPreferences(
+    supabase: SupabaseClient,
+    userIds: string[]
+): Promise<Map<string, AlertPreferences>> {
+    const preferences = new Map<string, AlertPreferences>();
+    if (userIds.length === 0) return preferences;
+
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .select(PREFERENCE_COLUMNS)
+        .in('user_id', userIds);
+
+    if (error) throw error;
+
+    ((data || []) as (AlertPreferencesRow & { user_id: string })[]).forEach((row) => {
+        preferences.set(row.user_id, toAlertPreferences(row));
+    });
+    userIds.forEach((id) => {
+        if (!preferences.has(id)) preferences.set(id, toAlertPreferences(null));
+    });
+    return preferences;
+}
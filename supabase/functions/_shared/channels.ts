@@ -0,0 +1,150 @@
+/**
+ * Outbound message channels
+ *
+ * Each channel delivers one short text to one phone number and reports
+ * whether the provider accepted it. Used by `alert-messenger` (which
+ * records the outcome in `alert_deliveries`) and `phone-verification`.
+ *
+ * Select a provider per channel:
+ * - SMS_PROVIDER      'twilio': TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN,
+ *                               TWILIO_FROM_NUMBER
+ *                     'local':  see below
+ * - WHATSAPP_PROVIDER 'meta':   WhatsApp Cloud API; WHATSAPP_PHONE_NUMBER_ID,
+ *                               WHATSAPP_ACCESS_TOKEN and an approved
+ *                               WHATSAPP_TEMPLATE (default agrishield_alert)
+ *                               with a single body parameter
+ *                     'local':  see below
+ *
+ * The 'local' provider appends each message as a JSON line to
+ * MESSAGE_LOG_FILE, or logs it to the console when that is unset.
+ * For local testing without a gateway account.
+ */
+
+export type MessageChannel = 'sms' | 'whatsapp';
+
+export interface OutboundMessage {
+    to: string;         // E.164 phone number
+    text: string;
+    language: string;   // app language code (en, hi, ta, te)
+}
+
+export interface SendResult {
+    status: 'sent' | 'failed';
+    providerMessageId?: string;
+    error?: string;
+}
+
+export interface NotificationChannel {
+    channel: MessageChannel;
+    provider: string;
+    send(message: OutboundMessage): Promise<SendResult>;
+}
+
+export function createTwilioSmsChannel(accountSid: string, authToken: string, from: string): NotificationChannel {
+    return {
+        channel: 'sms',
+        provider: 'twilio',
+        async send({ to, text }) {
+            const response = await fetch(
+                `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+                {
+                    method: 'POST',
+                    headers: {
+                        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                    },
+                    body: new URLSearchParams({ To: to, From: from, Body: text }),
+                }
+            );
+
+            const data = await response.json();
+            if (!response.ok) {
+                return { status: 'failed', error: data.message || `Twilio returned ${response.status}` };
+            }
+            return { status: 'sent', providerMessageId: data.sid };
+        },
+    };
+}
+
+export function createWhatsAppCloudChannel(phoneNumberId: string, accessToken: string, template: string): NotificationChannel {
+    return {
+        channel: 'whatsapp',
+        provider: 'meta',
+        async send({ to, text, language }) {
+            // Business-initiated messages must use a pre-approved template
+            const response = await fetch(`https://graph.facebook.com/v19.0/${phoneNumberId}/messages`, {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    messaging_product: 'whatsapp',
+                    to: to.replace(/^\+/, ''),
+                    type: 'template',
+                    template: {
+                        name: template,
+                        language: { code: language },
+                        components: [{ type: 'body', parameters: [{ type: 'text', text }] }],
+                    },
+                }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                return { status: 'failed', error: data.error?.message || `WhatsApp returned ${response.status}` };
+            }
+            return { status: 'sent', providerMessageId: data.messages?.[0]?.id };
+        },
+    };
+}
+
+export function createLocalChannel(channel: MessageChannel, logFile?: string): NotificationChannel {
+    return {
+        channel,
+        provider: 'local',
+        async send(message) {
+            const entry = { channel, ...message, sentAt: new Date().toISOString() };
+            if (logFile) {
+                await Deno.writeTextFile(logFile, JSON.stringify(entry) + '\n', { append: true });
+            } else {
+                console.log(`[${channel} local]`, entry);
+            }
+            return { status: 'sent', providerMessageId: crypto.randomUUID() };
+        },
+    };
+}
+
+/**
+ * Resolve the configured provider for a channel, or null if none is configured
+ */
+export function getNotificationChannel(channel: MessageChannel): NotificationChannel | null {
+    const provider = Deno.env.get(channel === 'sms' ? 'SMS_PROVIDER' : 'WHATSAPP_PROVIDER');
+
+    if (provider === 'local') {
+        return createLocalChannel(channel, Deno.env.get('MESSAGE_LOG_FILE'));
+    }
+
+    if (channel === 'sms' && provider === 'twilio') {
+        const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+        const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+        const from = Deno.env.get('TWILIO_FROM_NUMBER');
+        if (!accountSid || !authToken || !from) {
+            console.error('SMS_PROVIDER is twilio but Twilio credentials are not set');
+            return null;
+        }
+        return createTwilioSmsChannel(accountSid, authToken, from);
+    }
+
+    if (channel === 'whatsapp' && provider === 'meta') {
+        const phoneNumberId = Deno.env.get('WHATSAPP_PHONE_NUMBER_ID');
+        const accessToken = Deno.env.get('WHATSAPP_ACCESS_TOKEN');
+        if (!phoneNumberId || !accessToken) {
+            console.error('WHATSAPP_PROVIDER is meta but WhatsApp credentials are not set');
+            return null;
+        }
+        return createWhatsAppCloudChannel(phoneNumberId, accessToken, Deno.env.get('WHATSAPP_TEMPLATE') || 'agrishield_alert');
+    }
+
+    return null;
+}
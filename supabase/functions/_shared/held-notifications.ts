@@ -0,0 +1,26 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+/**
+ * Notifications held back by quiet hours
+ *
+ * push-sender and alert-messenger hold an alert that arrives during the
+ * user's quiet hours; notification-release sends it once they are over.
+ */
+
+export type HoldingSender = 'push-sender' | 'alert-messenger';
+
+export async function holdNotification(
+    supabase: SupabaseClient,
+    alert: { id: string; user_id: string },
+    sender: HoldingSender
+): Promise<void> {
+    // Held once per sender; a repeated trigger call changes nothing
+    const { error } = await supabase
+        .from('held_notifications')
+        .upsert(
+            { alert_id: alert.id, user_id: alert.user_id, sender },
+            { onConflict: 'alert_id,sender', ignoreDuplicates: true }
+        );
+
+    if (error) throw error;
+}
@@ -0,0 +1,28 @@
+/**
+ * App translations for edge functions
+ *
+ * Reads the same bundles as the frontend (`src/i18n`) so server-side alerts
+ * and messages use the farmer's language.
+ */
+
+import en from '../../../src/i18n/en.json' with { type: 'json' };
+import hi from '../../../src/i18n/hi.json' with { type: 'json' };
+import ta from '../../../src/i18n/ta.json' with { type: 'json' };
+import te from '../../../src/i18n/te.json' with { type: 'json' };
+
+const bundles: Record<string, unknown> = { en, hi, ta, te };
+
+/**
+ * Resolve a dotted i18n key, falling back to English, then to the key.
+ * `{name}` placeholders are filled from `params`.
+ */
+export function translate(language: string, key: string, params: Record<string, string | number> = {}): string {
+    const lookup = (bundle: unknown) =>
+        key.split('.').reduce<unknown>(
+            (value, part) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined),
+            bundle
+        );
+    const value = lookup(bundles[language]) ?? lookup(en);
+    if (typeof value !== 'string') return key;
+    return value.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,363 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+    calculateFloodRisk,
+    DEFAULT_FLOOD_RISK_CONFIG,
+    FieldSusceptibility,
+    getFloodSignalAlerts,
+} from '../../../src/lib/flood-risk.ts';
+import {
+    AlertFacts,
+    AlertRule,
+    AlertSeverity,
+    AlertType,
+    DEFAULT_ALERT_RULES,
+    evaluateRule,
+    RuleNode,
+} from '../../../src/lib/alert-rules.ts';
+import { AlertHistoryEntry, applyAlertPolicy } from '../../../src/lib/alert-policy.ts';
+import { passesAlertFilters } from '../../../src/lib/alert-preferences.ts';
+import { getDateKey } from '../../../src/lib/alert-keys.ts';
+import { translate } from '../_shared/i18n.ts';
+import { loadAlertPreferences } from '../_shared/alert-preferences.ts';
+
+/**
+ * Scheduled alert evaluation
+ *
+ * Runs from pg_cron (see migrations) so farmers get alerts without the
+ * Dashboard open. For every `user_preferences` row it:
+ * 1. Groups users by district and fetches weather, gauges and farmer
+ *    reports once per district (via the weather-api / water-levels functions)
+ * 2. Runs the shared flood engine with each user's field profile
+ * 3. Evaluates the default Smart Alert rules (crop and stage live in the
+ *    browser, so crop-specific rules don't fire here) plus the gauge and
+ *    neighbour-report alerts the Dashboard raises
+ * 4. Applies the alert policy (cooldowns, escalation, auto-resolve) against
+ *    the user's recent alerts for the district
+ * 5. Drops alert types / severities the user unsubscribed from
+ * 6. Upserts rows into `alerts` with the same per-day key the Dashboard
+ *    uses, so an alert is stored once a day whoever generates it first
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stored alerts the policy looks back over (cooldowns, escalation)
+const POLICY_LOOKBACK_DAYS = 7;
+
+const typeMap: Record<AlertType, 'flood' | 'weather' | 'price' | 'general'> = {
+    FLOOD: 'flood',
+    WEATHER: 'weather',
+    PRICE: 'price',
+    HARVEST: 'general',
+    IRRIGATE: 'general',
+    DISEASE: 'general',
+    GENERAL: 'general',
+};
+
+interface PreferenceRow {
+    user_id: string;
+    district: string;
+    language: string | null;
+}
+
+// One alert to run through the policy, from a rule or a flood signal
+interface CandidateAlert {
+    id: string;
+    type: AlertType;
+    severity: AlertSeverity;
+    cooldownHours?: number;
+    titleKey: string;
+    messageKey: string;
+    actionKey?: string;
+    params?: Record<string, string | number>;
+}
+
+interface FieldProfileRow {
+    user_id: string;
+    terrain: FieldSusceptibility['terrain'];
+    soil_texture: FieldSusceptibility['soilTexture'];
+    drainage: FieldSusceptibility['drainage'];
+    water_proximity: FieldSusceptibility['waterProximity'];
+}
+
+/**
+ * Weather, gauges and farmer reports for one district (shared by its users)
+ */
+async function loadDistrictContext(supabase: SupabaseClient, district: string) {
+    const { data: weather, error } = await supabase.functions.invoke('weather-api', {
+        body: { location: district },
+    });
+
+    // Never alert on generated weather
+    if (error || !weather || weather.isMock) {
+        return null;
+    }
+
+    const { data: levels, error: levelsError } = await supabase.functions.invoke('water-levels', {
+        body: { district },
+    });
+
+    const since = new Date(Date.now() - DEFAULT_FLOOD_RISK_CONFIG.reportWindowHours * 60 * 60 * 1000);
+    const { data: reports, error: reportsError } = await supabase
+        .from('flood_reports')
+        .select('severity, reporter:user_id')
+        .eq('district', district)
+        .gte('created_at', since.toISOString());
+
+    return {
+        weather,
+        waterLevels: levels?.readings || [],
+        floodReports: reports || [],
+        // A failed fetch must not resolve the alerts it would have raised
+        waterLevelsLoaded: !levelsError && !!levels,
+        floodReportsLoaded: !reportsError,
+    };
+}
+
+function usesFact(node: RuleNode, facts: string[]): boolean {
+    if ('fact' in node) return facts.includes(node.fact);
+    return [...(node.all || []), ...(node.any || [])].some((child) => usesFact(child, facts));
+}
+
+// Only rules this function can evaluate may auto-resolve stored alerts
+const RESOLVABLE_RULE_IDS = new Set(
+    DEFAULT_ALERT_RULES
+        .filter((rule: AlertRule) => !usesFact(rule.when, ['crop', 'stage']))
+        .map((rule: AlertRule) => rule.id)
+);
+
+/**
+ * Recent stored alerts per user and district, for the policy layer
+ */
+async function loadAlertHistory(supabase: SupabaseClient, userIds: string[]) {
+    const since = new Date(Date.now() - POLICY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const { data } = await supabase
+        .from('alerts')
+        .select('user_id, alert_key, location, severity, created_at, resolved_at')
+        .in('user_id', userIds)
+        .gte('created_at', since.toISOString());
+
+    const history = new Map<string, AlertHistoryEntry[]>();
+    (data || []).forEach((row) => {
+        if (!row.alert_key || !row.location) return;
+        const key = `${row.user_id}:${row.location}`;
+        if (!history.has(key)) history.set(key, []);
+        history.get(key)!.push({
+            id: row.alert_key.split(':').pop()!,
+            key: row.alert_key,
+            severity: row.severity,
+            createdAt: row.created_at,
+            resolvedAt: row.resolved_at,
+        });
+    });
+    return history;
+}
+
+async function setResolvedAt(supabase: SupabaseClient, userId: string, keys: string[], resolvedAt: string | null) {
+    if (keys.length === 0) return;
+    const { error } = await supabase
+        .from('alerts')
+        .update({ resolved_at: resolvedAt })
+        .eq('user_id', userId)
+        .in('alert_key', keys);
+
+    if (error) throw error;
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Only the scheduler (service role) may run a full evaluation
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+        const now = new Date();
+        const dateKey = getDateKey(now);
+
+        const { data: preferences, error: prefError } = await supabase
+            .from('user_preferences')
+            .select('user_id, district, language');
+
+        if (prefError) throw prefError;
+
+        const rows = (preferences || []) as PreferenceRow[];
+        const userIds = rows.map((row) => row.user_id);
+
+        // Group users by district so each district is fetched once
+        const byDistrict = new Map<string, PreferenceRow[]>();
+        rows.forEach((row) => {
+            const district = row.district?.trim().toLowerCase();
+            if (!district) return;
+            if (!byDistrict.has(district)) byDistrict.set(district, []);
+            byDistrict.get(district)!.push(row);
+        });
+
+        const { data: profiles } = await supabase
+            .from('field_profiles')
+            .select('user_id, terrain, soil_texture, drainage, water_proximity')
+            .in('user_id', userIds);
+
+        const fields = new Map<string, FieldSusceptibility>(
+            ((profiles || []) as FieldProfileRow[]).map((p) => [p.user_id, {
+                terrain: p.terrain,
+                soilTexture: p.soil_texture,
+                drainage: p.drainage,
+                waterProximity: p.water_proximity,
+            }])
+        );
+
+        const alertHistory = await loadAlertHistory(supabase, userIds);
+        const alertPreferences = await loadAlertPreferences(supabase, userIds);
+
+        const alertRows: Record<string, unknown>[] = [];
+        let resolved = 0;
+        const skippedDistricts: string[] = [];
+
+        for (const [district, users] of byDistrict) {
+            const context = await loadDistrictContext(supabase, district);
+            if (!context) {
+                skippedDistricts.push(district);
+                continue;
+            }
+
+            const { weather, waterLevels, floodReports, waterLevelsLoaded, floodReportsLoaded } = context;
+
+            // Gauge and report alerts are the same for every user in the district
+            const signalAlerts = getFloodSignalAlerts(waterLevels, floodReports)
+                .map((signal): CandidateAlert => ({ ...signal, type: 'FLOOD' }));
+
+            const resolvableIds = (id: string) =>
+                RESOLVABLE_RULE_IDS.has(id) ||
+                (waterLevelsLoaded && id.startsWith('water-level-')) ||
+                (floodReportsLoaded && id === 'flood-reports-cluster');
+
+            for (const user of users) {
+                const floodRisk = calculateFloodRisk({
+                    rainfall: weather.current.rainfall,
+                    consecutiveRainyDays: weather.consecutiveRainyDays,
+                    forecastRainfall: weather.forecast.map((d: { rainfall: number }) => d.rainfall),
+                    antecedentRainfall: weather.antecedentPrecipitation?.days7,
+                    waterLevels,
+                    floodReports,
+                    field: fields.get(user.user_id),
+                });
+
+                const facts: AlertFacts = {
+                    rainfall: weather.current.rainfall,
+                    humidity: weather.current.humidity,
+                    temperature: weather.current.temperature,
+                    windSpeed: weather.current.windSpeed,
+                    condition: weather.current.condition,
+                    crop: null,
+                    stage: null,
+                    floodRiskLevel: floodRisk.level,
+                };
+
+                const language = user.language || 'en';
+
+                const ruleAlerts: CandidateAlert[] = DEFAULT_ALERT_RULES
+                    .filter((rule) => rule.enabled !== false && evaluateRule(rule, facts).matched)
+                    .map((rule) => ({
+                        id: rule.id,
+                        type: rule.type,
+                        severity: rule.severity,
+                        cooldownHours: rule.cooldownHours ?? 0,
+                        titleKey: rule.titleKey,
+                        messageKey: rule.messageKey,
+                        actionKey: rule.actionKey,
+                    }));
+
+                const decision = applyAlertPolicy(
+                    [...ruleAlerts, ...signalAlerts],
+                    alertHistory.get(`${user.user_id}:${district}`) || [],
+                    {
+                        now,
+                        keyFor: (id) => `${dateKey}:${district}:${id}`,
+                        resolvableIds,
+                    }
+                );
+
+                const subscription = alertPreferences.get(user.user_id)!;
+
+                for (const { id, type, severity, escalation, titleKey, messageKey, actionKey, params } of decision.active) {
+                    if (!passesAlertFilters({ type, severity }, subscription)) continue;
+
+                    const persisted = escalation
+                        ? ` ${translate(language, 'alerts.policy.persisted', { days: escalation.days })}`
+                        : '';
+
+                    alertRows.push({
+                        user_id: user.user_id,
+                        alert_key: `${dateKey}:${district}:${id}`,
+                        alert_type: type,
+                        type: typeMap[type],
+                        title: translate(language, titleKey, params),
+                        message: translate(language, messageKey, params) + persisted,
+                        severity: severity === 'info' ? 'low' : severity,
+                        action: actionKey ? translate(language, actionKey, params) : null,
+                        location: district,
+                    });
+                }
+
+                await setResolvedAt(supabase, user.user_id, decision.resolveKeys, now.toISOString());
+                await setResolvedAt(supabase, user.user_id, decision.reopenKeys, null);
+                resolved += decision.resolveKeys.length;
+            }
+        }
+
+        // ignoreDuplicates: alerts already stored today (e.g. by the Dashboard) keep their state
+        let created = 0;
+        if (alertRows.length > 0) {
+            const { data: inserted, error: insertError } = await supabase
+                .from('alerts')
+                .upsert(alertRows, { onConflict: 'user_id,alert_key', ignoreDuplicates: true })
+                .select('id');
+
+            if (insertError) throw insertError;
+            created = inserted?.length || 0;
+        }
+
+        console.log(`Evaluated ${rows.length} users in ${byDistrict.size} districts, created ${created} alerts, resolved ${resolved}`);
+
+        return new Response(
+            JSON.stringify({
+                users: rows.length,
+                districts: byDistrict.size,
+                skippedDistricts,
+                alertsCreated: created,
+                alertsResolved: resolved,
+                evaluatedAt: now.toISOString(),
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Alert evaluation error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to evaluate alerts', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
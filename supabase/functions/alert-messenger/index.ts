@@ -0,0 +1,305 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { AlertType, DEFAULT_ALERT_RULES, getStoredAlertType } from '../../../src/lib/alert-rules.ts';
+import { getBaseAlertId } from '../../../src/lib/alert-policy.ts';
+import { CommodityLanguage, resolveCommodity } from '../../../src/lib/commodities.ts';
+import { PRICE_WATCH_ALERT_PREFIX } from '../../../src/lib/price-watch.ts';
+import {
+    FilterableAlert,
+    passesAlertFilters,
+    shouldDeliver,
+    toAlertPreferences,
+} from '../../../src/lib/alert-preferences.ts';
+import { translate } from '../_shared/i18n.ts';
+import { getNotificationChannel, MessageChannel } from '../_shared/channels.ts';
+import { holdNotification } from '../_shared/held-notifications.ts';
+import { buildAlertMessage } from './templates.ts';
+
+/**
+ * SMS and WhatsApp delivery for stored alerts
+ *
+ * Called by the `alerts_message_high_severity` database trigger (see
+ * migrations) with the inserted alert row as `{ record }`. Sends a short
+ * text in the farmer's language to each channel they enabled in
+ * `notification_preferences`, and records every attempt in
+ * `alert_deliveries` (queued, then sent or failed). Only numbers verified
+ * through `phone-verification` are messaged, and each user gets at most
+ * MAX_MESSAGES_PER_DAY messages. Muted types and the minimum severity skip
+ * the alert. During quiet hours the alert is held and notification-release
+ * sends it once they end (HIGH flood alerts ignore quiet hours); past the
+ * daily limit the attempt is recorded as `suppressed` instead.
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Price alerts are sent whatever their severity (the user asked for them)
+const MESSAGE_SEVERITIES = ['high', 'critical'];
+
+// SMS and WhatsApp messages one user can receive in 24 hours
+const MAX_MESSAGES_PER_DAY = 10;
+
+interface AlertRecord {
+    id: string;
+    user_id: string;
+    type: string;
+    alert_type: AlertType | null;
+    alert_key: string | null;
+    title: string;
+    message: string;
+    action: string | null;
+    severity: string;
+    is_dismissed: boolean;
+}
+
+/**
+ * Title and detail in the user's language, built only from translation
+ * keys: users can insert alert rows themselves, so a row's stored text is
+ * never sent. Declarative rules use their own keys, price alerts are
+ * rebuilt from the user's watch, gauge and report alerts get a fixed text
+ * and anything else a generic one. Null for a price alert whose watch
+ * isn't the user's.
+ */
+async function localizeAlert(
+    supabase: SupabaseClient,
+    alert: AlertRecord,
+    language: string
+): Promise<{ title: string; detail: string } | null> {
+    const alertId = getBaseAlertId(alert.alert_key?.split(':').pop() || '');
+    const rule = DEFAULT_ALERT_RULES.find((r) => r.id === alertId);
+    const isDanger = alert.severity === 'high' || alert.severity === 'critical';
+
+    if (rule) {
+        return {
+            title: translate(language, rule.titleKey),
+            detail: translate(language, rule.actionKey || rule.messageKey),
+        };
+    }
+
+    if (alertId.startsWith(PRICE_WATCH_ALERT_PREFIX)) {
+        const { data: watch } = await supabase
+            .from('price_watches')
+            .select('commodity, market, direction, threshold, last_price')
+            .eq('id', alertId.slice(PRICE_WATCH_ALERT_PREFIX.length))
+            .eq('user_id', alert.user_id)
+            .maybeSingle();
+
+        if (!watch) return null;
+
+        const commodity = resolveCommodity(watch.commodity)?.commodity;
+        const params = {
+            commodity: commodity?.labels[language as CommodityLanguage] || commodity?.labels.en || watch.commodity,
+            market: watch.market,
+            threshold: Number(watch.threshold).toLocaleString('en-IN'),
+            price: Number(watch.last_price).toLocaleString('en-IN'),
+        };
+        return {
+            title: translate(language, `alerts.price.${watch.direction}`, params),
+            detail: translate(language, 'alerts.price.message', params),
+        };
+    }
+
+    if (alertId.startsWith('water-level-')) {
+        const status = isDanger ? 'danger' : 'warning';
+        return {
+            title: translate(language, `alerts.sms.waterLevel.${status}`),
+            detail: translate(language, `alerts.waterLevel.${status}.action`),
+        };
+    }
+
+    if (alertId === 'flood-reports-cluster') {
+        return {
+            title: translate(language, 'alerts.sms.reports'),
+            detail: translate(language, 'alerts.reports.action'),
+        };
+    }
+
+    return {
+        title: translate(language, 'alerts.sms.generic'),
+        detail: translate(language, 'alerts.sms.openApp'),
+    };
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Only the database trigger (service role) may send messages
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const { record } = await req.json() as { record?: AlertRecord };
+
+        if (!record?.user_id) {
+            return new Response(
+                JSON.stringify({ error: 'Alert record is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if ((!MESSAGE_SEVERITIES.includes(record.severity) && record.type !== 'price') || record.is_dismissed) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'severity' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+        const [{ data: preferences, error: prefError }, { data: userPreferences }] = await Promise.all([
+            supabase
+                .from('notification_preferences')
+                .select('phone_number, phone_verified_at, sms_enabled, whatsapp_enabled, muted_alert_types, min_severity, quiet_hours_start, quiet_hours_end, time_zone')
+                .eq('user_id', record.user_id)
+                .maybeSingle(),
+            supabase
+                .from('user_preferences')
+                .select('language')
+                .eq('user_id', record.user_id)
+                .maybeSingle(),
+        ]);
+
+        if (prefError) throw prefError;
+
+        const channels: MessageChannel[] = [];
+        if (preferences?.sms_enabled) channels.push('sms');
+        if (preferences?.whatsapp_enabled) channels.push('whatsapp');
+
+        // The trigger keeps channels off until the number is verified;
+        // check again so an unverified number is never messaged
+        if (!preferences?.phone_number || !preferences.phone_verified_at || channels.length === 0) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'no channels' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const subscription = toAlertPreferences(preferences);
+        const alert: FilterableAlert = {
+            type: getStoredAlertType(record.alert_type, record.type),
+            severity: record.severity as FilterableAlert['severity'],
+        };
+
+        if (!passesAlertFilters(alert, subscription)) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'preferences' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Same answer for SMS and WhatsApp once the filters passed
+        if (!shouldDeliver(alert, subscription, 'sms')) {
+            await holdNotification(supabase, record, 'alert-messenger');
+            return new Response(
+                JSON.stringify({ sent: 0, held: 'quiet hours' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const language = userPreferences?.language || 'en';
+        const localized = await localizeAlert(supabase, record, language);
+
+        if (!localized) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'unknown price watch' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const text = buildAlertMessage(language, localized.title, localized.detail);
+
+        const { count: sentToday, error: countError } = await supabase
+            .from('alert_deliveries')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', record.user_id)
+            .in('status', ['queued', 'sent'])
+            .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+        if (countError) throw countError;
+        let remaining = MAX_MESSAGES_PER_DAY - (sentToday || 0);
+
+        const results = [];
+        for (const channelName of channels) {
+            const channel = getNotificationChannel(channelName);
+            if (!channel) {
+                console.error(`No provider configured for ${channelName}`);
+                continue;
+            }
+
+            const overLimit = remaining <= 0;
+            if (!overLimit) remaining--;
+
+            const { data: delivery, error: queueError } = await supabase
+                .from('alert_deliveries')
+                .insert({
+                    alert_id: record.id,
+                    user_id: record.user_id,
+                    channel: channel.channel,
+                    provider: channel.provider,
+                    recipient: preferences.phone_number,
+                    message: text,
+                    ...(overLimit ? { status: 'suppressed', error: 'Daily message limit' } : {}),
+                })
+                .select('id')
+                .single();
+
+            if (queueError) throw queueError;
+
+            if (overLimit) {
+                results.push({ channel: channel.channel, provider: channel.provider, status: 'suppressed' });
+                continue;
+            }
+
+            const result = await channel.send({ to: preferences.phone_number, text, language })
+                .catch((error) => ({ status: 'failed' as const, providerMessageId: undefined, error: error.message }));
+
+            await supabase
+                .from('alert_deliveries')
+                .update({
+                    status: result.status,
+                    provider_message_id: result.providerMessageId ?? null,
+                    error: result.error ?? null,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', delivery.id);
+
+            results.push({ channel: channel.channel, provider: channel.provider, status: result.status });
+        }
+
+        console.log(`Messaged alert ${record.id}:`, results);
+
+        return new Response(
+            JSON.stringify({
+                sent: results.filter((r) => r.status === 'sent').length,
+                deliveries: results,
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Alert messaging error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to send alert messages', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
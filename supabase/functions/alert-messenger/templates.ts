@@ -0,0 +1,78 @@
+/**
+ * Short alert texts for SMS and WhatsApp
+ *
+ * The `alerts.sms.template` translation holds `{title}` and `{detail}`
+ * placeholders. Filled messages are cut to one SMS segment, shortening the
+ * detail first and then the title, so the whole alert reads on a feature
+ * phone screen and is billed as a single message. Text that fits the GSM
+ * 7-bit alphabet gets SMS_MAX_LENGTH characters; anything else (Hindi,
+ * Tamil, Telugu, ₹) is sent as UCS-2 and gets SMS_MAX_LENGTH_UNICODE.
+ */
+
+import { translate } from '../_shared/i18n.ts';
+
+export const SMS_MAX_LENGTH = 160;
+export const SMS_MAX_LENGTH_UNICODE = 70;
+
+// GSM 03.38 basic alphabet, and the extension table (two septets each)
+const GSM_BASIC = new Set(Array.from(
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+));
+const GSM_EXTENSION = new Set(Array.from('^{}\\[~]|€\f'));
+
+interface Encoding {
+    maxLength: number;
+    ellipsis: string;
+    length: (text: string) => number;
+}
+
+const GSM: Encoding = {
+    maxLength: SMS_MAX_LENGTH,
+    ellipsis: '...',
+    length: (text) => Array.from(text).reduce((total, char) => total + (GSM_EXTENSION.has(char) ? 2 : 1), 0),
+};
+
+// UCS-2 counts UTF-16 units, so a character outside the BMP takes two
+const UCS2: Encoding = {
+    maxLength: SMS_MAX_LENGTH_UNICODE,
+    ellipsis: '…',
+    length: (text) => text.length,
+};
+
+function isGsmText(text: string): boolean {
+    return Array.from(text).every((char) => GSM_BASIC.has(char) || GSM_EXTENSION.has(char));
+}
+
+function truncate(text: string, max: number, encoding: Encoding): string {
+    if (encoding.length(text) <= max) return text;
+    const budget = max - encoding.length(encoding.ellipsis);
+    if (budget <= 0) return '';
+
+    // Drop whole characters until the rest and the ellipsis fit
+    const chars = Array.from(text);
+    while (chars.length > 0 && encoding.length(chars.join('')) > budget) chars.pop();
+    return chars.join('').trimEnd() + encoding.ellipsis;
+}
+
+function fill(template: string, title: string, detail: string): string {
+    return template.replace('{title}', title).replace('{detail}', detail).trim();
+}
+
+/**
+ * Localized alert text that fits in a single SMS segment
+ */
+export function buildAlertMessage(language: string, title: string, detail: string): string {
+    const template = translate(language, 'alerts.sms.template');
+    const cleanTitle = title.trim();
+    const cleanDetail = detail.trim();
+
+    const encoding = isGsmText(fill(template, cleanTitle, cleanDetail)) ? GSM : UCS2;
+    const available = encoding.maxLength - encoding.length(fill(template, '', ''));
+
+    // The title only shrinks if it can't fit on its own
+    const fittedTitle = truncate(cleanTitle, available, encoding);
+    const fittedDetail = truncate(cleanDetail, available - encoding.length(fittedTitle), encoding);
+
+    return truncate(fill(template, fittedTitle, fittedDetail), encoding.maxLength, encoding);
+}
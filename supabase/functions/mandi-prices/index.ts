@@ -1,10 +1,103 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { MandiPriceRecord, toHistoryRows, toIsoDate } from '../../../src/lib/mandi-history.ts';
+import {
+    MANDI_AGGREGATIONS,
+    MANDI_SORT_FIELDS,
+    MandiAggregation,
+    MandiPriceRow,
+    MandiSortField,
+    shapeMandiPrices,
+    SortOrder,
+} from '../../../src/lib/mandi-aggregate.ts';
+import { toAgmarknetCommodity } from '../../../src/lib/commodities.ts';
+import { assessPriceQuality, ReferencePrice } from '../../../src/lib/mandi-quality.ts';
+import { toAgmarknetPlace } from '../../../src/lib/district-centroids.ts';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const RESOURCE_URL = 'https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070';
+
+// data.gov.in page size, and how many records one request may page through
+const PAGE_SIZE = 100;
+const DEFAULT_MAX_RECORDS = 1000;
+const MAX_RECORDS_LIMIT = 5000;
+
+// Stored prices the quality check compares new records with
+const QUALITY_LOOKBACK_DAYS = 30;
+
+type FilterField = 'district' | 'market' | 'state';
+
+/**
+ * One data.gov.in record in the app's shape, arrival date as YYYY-MM-DD
+ */
+function toMandiPrice(record: Record<string, string | undefined>): MandiPriceRow {
+    const arrivalDate = record.arrival_date || record.Arrival_Date;
+    return {
+        commodity: record.commodity || record.Commodity || '',
+        variety: record.variety || record.Variety || 'Standard',
+        market: record.market || record.Market || '',
+        district: record.district || record.District,
+        state: record.state || record.State,
+        minPrice: parseFloat(record.min_price || record.Min_Price || '0'),
+        maxPrice: parseFloat(record.max_price || record.Max_Price || '0'),
+        modalPrice: parseFloat(record.modal_price || record.Modal_Price || '0'),
+        arrivalDate: toIsoDate(arrivalDate) || new Date().toISOString().split('T')[0],
+    };
+}
+
+/**
+ * Page through every record matching the filters, up to `maxRecords`.
+ * Null when the first page fails; a later failure keeps the pages so far.
+ */
+async function fetchAllRecords(
+    apiKey: string,
+    filterField: FilterField,
+    location: string | undefined,
+    commodity: string | undefined,
+    maxRecords: number
+): Promise<{ records: MandiPriceRow[]; total: number } | null> {
+    const records: MandiPriceRow[] = [];
+    let total = 0;
+
+    console.log(`Fetching mandi prices by ${filterField}:`, location || 'all', commodity || 'all commodities');
+
+    for (let offset = 0; offset < maxRecords; offset += PAGE_SIZE) {
+        const params = new URLSearchParams({
+            'api-key': apiKey,
+            format: 'json',
+            offset: String(offset),
+            limit: String(Math.min(PAGE_SIZE, maxRecords - offset)),
+        });
+        if (location) {
+            params.append(`filters[${filterField}]`, location);
+        }
+        if (commodity) {
+            params.append('filters[commodity]', commodity);
+        }
+
+        const response = await fetch(`${RESOURCE_URL}?${params.toString()}`);
+
+        if (!response.ok) {
+            console.error('Mandi API error:', response.status, await response.text());
+            if (offset === 0) return null;
+            break;
+        }
+
+        const data = await response.json();
+        const page = data.records || [];
+        total = Number(data.total) || total;
+        records.push(...page.map(toMandiPrice));
+
+        if (page.length < PAGE_SIZE || records.length >= total) break;
+    }
+
+    return { records, total: Math.max(total, records.length) };
+}
+
 Deno.serve(async (req: Request) => {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
@@ -14,106 +107,101 @@ Deno.serve(async (req: Request) => {
     try {
         // Accept both 'state' (legacy) and 'location' (new) parameters
         // Also accept 'district' and 'market' for more specific filtering
-        const { state, location, district, market, commodity } = await req.json();
+        const {
+            state,
+            location,
+            district,
+            market,
+            commodity: commodityInput,
+            aggregate,
+            sortBy,
+            sortOrder,
+            maxRecords,
+        } = await req.json();
 
         const apiKey = Deno.env.get('MANDI_API_KEY');
 
+        // data.gov.in only matches its own names: resolve "dhan" or "வெங்காயம்"
+        // to the Agmarknet commodity and fix the case of typed places
+        const commodity = commodityInput ? toAgmarknetCommodity(commodityInput) : undefined;
+
         // Determine the search location - prioritize specific params over legacy 'state'
-        const searchLocation = district || market || location || state;
+        const rawLocation = district || market || location || state;
+        const searchLocation = rawLocation ? toAgmarknetPlace(rawLocation) : undefined;
+
+        // Result shaping; unknown values fall back to the raw, unsorted records
+        const aggregation: MandiAggregation = MANDI_AGGREGATIONS.includes(aggregate) ? aggregate : 'none';
+        const sortField: MandiSortField | undefined = MANDI_SORT_FIELDS.includes(sortBy) ? sortBy : undefined;
+        const order: SortOrder = sortOrder === 'asc' ? 'asc' : 'desc';
+        const recordLimit = Math.min(Math.max(Number(maxRecords) || DEFAULT_MAX_RECORDS, PAGE_SIZE), MAX_RECORDS_LIMIT);
 
         if (!apiKey) {
             console.log('No MANDI_API_KEY found, returning mock data');
+            const mock = getMockMandiPrices(searchLocation);
             return new Response(
-                JSON.stringify(getMockMandiPrices(searchLocation)),
+                JSON.stringify({ ...mock, prices: shapeMandiPrices(mock.prices, aggregation, sortField, order) }),
                 { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
 
-        // Fetch from data.gov.in API
-        const baseUrl = 'https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070';
-        const params = new URLSearchParams({
-            'api-key': apiKey,
-            format: 'json',
-            limit: '50',
-        });
-
-        // Add filters based on the location type
-        // The data.gov.in API supports: state, district, market, commodity
-        if (searchLocation) {
-            // First try to filter by district (most common use case for city names like Dharmapuri)
-            params.append('filters[district]', searchLocation);
+        // District first (city names like Dharmapuri), then market, then
+        // state for state-wide queries
+        const filterFields: FilterField[] = searchLocation ? ['district', 'market', 'state'] : ['district'];
+        let result: { records: MandiPriceRow[]; total: number } | null = null;
+        for (const field of filterFields) {
+            const attempt = await fetchAllRecords(apiKey, field, searchLocation, commodity, recordLimit);
+            if (!attempt) break;
+            result = attempt;
+            if (attempt.records.length > 0) break;
         }
-        if (commodity) {
-            params.append('filters[commodity]', commodity);
-        }
-
-        const url = `${baseUrl}?${params.toString()}`;
-        console.log('Fetching mandi prices from:', url);
 
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            console.error('Mandi API error:', response.status, await response.text());
+        if (!result) {
+            const mock = getMockMandiPrices(searchLocation);
             return new Response(
-                JSON.stringify(getMockMandiPrices(searchLocation)),
+                JSON.stringify({ ...mock, prices: shapeMandiPrices(mock.prices, aggregation, sortField, order) }),
                 { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
 
-        const data = await response.json();
+        const supabase = getServiceClient();
 
-        // Process the response
-        let prices = (data.records || []).map((record: any) => ({
-            commodity: record.commodity || record.Commodity,
-            variety: record.variety || record.Variety || 'Standard',
-            market: record.market || record.Market,
-            district: record.district || record.District,
-            state: record.state || record.State,
-            minPrice: parseFloat(record.min_price || record.Min_Price || 0),
-            maxPrice: parseFloat(record.max_price || record.Max_Price || 0),
-            modalPrice: parseFloat(record.modal_price || record.Modal_Price || 0),
-            arrivalDate: record.arrival_date || record.Arrival_Date || new Date().toISOString().split('T')[0],
-        }));
-
-        // If no results with district filter, try market filter as fallback
-        if (prices.length === 0 && searchLocation) {
-            console.log('No results with district filter, trying market filter...');
-            const marketParams = new URLSearchParams({
-                'api-key': apiKey,
-                format: 'json',
-                limit: '50',
-            });
-            marketParams.append('filters[market]', searchLocation);
-            if (commodity) {
-                marketParams.append('filters[commodity]', commodity);
+        // Drop or repair broken records and flag outliers against recent
+        // history. A history failure only weakens the outlier check.
+        let history: ReferencePrice[] = [];
+        if (supabase && result.records.length > 0) {
+            try {
+                history = await loadRecentPrices(supabase, result.records);
+            } catch (historyError) {
+                console.error('Mandi price history error:', historyError);
             }
+        }
+        const { records: prices, dropped } = assessPriceQuality(result.records, history);
 
-            const marketUrl = `${baseUrl}?${marketParams.toString()}`;
-            console.log('Retrying with market filter:', marketUrl);
-
-            const marketResponse = await fetch(marketUrl);
-            if (marketResponse.ok) {
-                const marketData = await marketResponse.json();
-                prices = (marketData.records || []).map((record: any) => ({
-                    commodity: record.commodity || record.Commodity,
-                    variety: record.variety || record.Variety || 'Standard',
-                    market: record.market || record.Market,
-                    district: record.district || record.District,
-                    state: record.state || record.State,
-                    minPrice: parseFloat(record.min_price || record.Min_Price || 0),
-                    maxPrice: parseFloat(record.max_price || record.Max_Price || 0),
-                    modalPrice: parseFloat(record.modal_price || record.Modal_Price || 0),
-                    arrivalDate: record.arrival_date || record.Arrival_Date || new Date().toISOString().split('T')[0],
-                }));
+        // Keep every live record for price trends, except suspect ones that
+        // would skew them. Archive failures must never block the price response.
+        if (supabase && prices.length > 0) {
+            try {
+                await recordPriceHistory(supabase, prices.filter((price) => price.quality !== 'suspect'));
+            } catch (archiveError) {
+                console.error('Mandi price archive error:', archiveError);
             }
         }
 
         return new Response(
             JSON.stringify({
-                prices: prices.length > 0 ? prices : getMockMandiPrices(searchLocation).prices,
+                prices: shapeMandiPrices(
+                    prices.length > 0 ? prices : getMockMandiPrices(searchLocation).prices,
+                    aggregation,
+                    sortField,
+                    order
+                ),
                 lastUpdated: new Date().toISOString(),
                 source: prices.length > 0 ? 'data.gov.in' : 'Mock Data',
-                totalRecords: data.total || prices.length,
+                totalRecords: result.total,
+                fetchedRecords: result.records.length,
+                droppedRecords: dropped,
+                truncated: result.total > result.records.length,
+                aggregate: aggregation,
                 searchedLocation: searchLocation,
             }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -128,6 +216,64 @@ Deno.serve(async (req: Request) => {
     }
 });
 
+/**
+ * Service-role client for the price history table, or null when the
+ * credentials are not configured (history is then skipped)
+ */
+function getServiceClient(): SupabaseClient | null {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        console.log('No Supabase service credentials, skipping mandi price history');
+        return null;
+    }
+
+    return createClient(supabaseUrl, serviceRoleKey);
+}
+
+/**
+ * Recent stored modal prices for the commodities in a batch
+ */
+async function loadRecentPrices(supabase: SupabaseClient, prices: MandiPriceRow[]): Promise<ReferencePrice[]> {
+    const commodities = Array.from(new Set(prices.map((price) => price.commodity)));
+    const since = new Date(Date.now() - QUALITY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+        .from('mandi_price_history')
+        .select('commodity, market, modal_price')
+        .in('commodity', commodities)
+        .gte('arrival_date', since.toISOString().split('T')[0]);
+
+    if (error) throw error;
+
+    return (data || []).map((row) => ({
+        commodity: row.commodity,
+        market: row.market,
+        modalPrice: Number(row.modal_price),
+    }));
+}
+
+/**
+ * Upsert fetched records into `mandi_price_history`. A record re-fetched
+ * for the same commodity, market, variety and arrival date updates its
+ * row, so history holds one price per trading day.
+ */
+async function recordPriceHistory(supabase: SupabaseClient, prices: MandiPriceRecord[]) {
+    const rows = toHistoryRows(prices);
+    if (rows.length === 0) return;
+
+    const fetchedAt = new Date().toISOString();
+    const { error } = await supabase
+        .from('mandi_price_history')
+        .upsert(
+            rows.map((row) => ({ ...row, source: 'data.gov.in', fetched_at: fetchedAt })),
+            { onConflict: 'commodity,market,variety,arrival_date' }
+        );
+
+    if (error) throw error;
+}
+
 function getMockMandiPrices(location?: string) {
     const state = location || 'Tamil Nadu';
 
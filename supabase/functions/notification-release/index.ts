@@ -0,0 +1,128 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { isInQuietHours } from '../../../src/lib/alert-preferences.ts';
+import { loadAlertPreferences } from '../_shared/alert-preferences.ts';
+import { HoldingSender } from '../_shared/held-notifications.ts';
+
+/**
+ * Release of notifications held back by quiet hours
+ *
+ * Runs from pg_cron every 15 minutes (see migrations). For every
+ * `held_notifications` row whose user is out of quiet hours it deletes the
+ * row and calls the sender that held it (push-sender or alert-messenger)
+ * with the alert row, as the database trigger would have. The sender
+ * checks the user's filters, channels and limits again. Alerts dismissed
+ * or resolved meanwhile, and anything held longer than MAX_HOLD_HOURS,
+ * are dropped without a notification.
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A held alert older than this is no longer worth waking anyone for
+const MAX_HOLD_HOURS = 24;
+
+interface HeldRow {
+    id: string;
+    user_id: string;
+    sender: HoldingSender;
+    created_at: string;
+    alert: { is_dismissed: boolean; resolved_at: string | null } | null;
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Only the scheduler (service role) may release notifications
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+        const now = new Date();
+        const expiredBefore = now.getTime() - MAX_HOLD_HOURS * 60 * 60 * 1000;
+
+        const { data, error: heldError } = await supabase
+            .from('held_notifications')
+            .select('id, user_id, sender, created_at, alert:alerts(*)');
+
+        if (heldError) throw heldError;
+
+        const held = (data || []) as unknown as HeldRow[];
+        const alertPreferences = await loadAlertPreferences(
+            supabase,
+            [...new Set(held.map((row) => row.user_id))]
+        );
+
+        let released = 0;
+        let dropped = 0;
+
+        for (const row of held) {
+            const isExpired = Date.parse(row.created_at) < expiredBefore;
+            if (!isExpired && isInQuietHours(alertPreferences.get(row.user_id)!, now)) continue;
+
+            // Delete first so an overlapping run can't send the alert twice
+            const { data: claimed, error: deleteError } = await supabase
+                .from('held_notifications')
+                .delete()
+                .eq('id', row.id)
+                .select('id');
+
+            if (deleteError) throw deleteError;
+            if (!claimed || claimed.length === 0) continue;
+
+            if (isExpired || !row.alert || row.alert.is_dismissed || row.alert.resolved_at) {
+                dropped++;
+                continue;
+            }
+
+            const { error: sendError } = await supabase.functions.invoke(row.sender, {
+                body: { record: row.alert },
+            });
+
+            if (sendError) {
+                console.error(`Releasing held alert via ${row.sender} failed:`, sendError);
+                continue;
+            }
+            released++;
+        }
+
+        console.log(`Released ${released} of ${held.length} held notifications, dropped ${dropped}`);
+
+        return new Response(
+            JSON.stringify({
+                held: held.length,
+                released,
+                dropped,
+                releasedAt: now.toISOString(),
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Notification release error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to release held notifications', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
@@ -0,0 +1,209 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { translate } from '../_shared/i18n.ts';
+import { getNotificationChannel } from '../_shared/channels.ts';
+
+/**
+ * Phone number verification for SMS and WhatsApp alerts
+ *
+ * Called by the signed-in user (their JWT identifies them):
+ * - `{ action: 'send', phoneNumber }` texts a six-digit code to the number
+ * - `{ action: 'verify', phoneNumber, code }` checks it and, on a match,
+ *   saves the number with `phone_verified_at` set
+ *
+ * Until a number is verified the `notification_preferences` trigger keeps
+ * SMS and WhatsApp switched off, so alerts can't be sent to someone else's
+ * phone. Codes expire after CODE_TTL_MINUTES and allow MAX_ATTEMPTS tries;
+ * a user may request at most MAX_CODES_PER_HOUR codes.
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Same E.164 check as the notification_preferences table
+const PHONE_PATTERN = /^\+[1-9][0-9]{7,14}$/;
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+const MAX_CODES_PER_HOUR = 3;
+
+async function hashCode(phoneNumber: string, code: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${phoneNumber}:${code}`));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateCode(): string {
+    const [value] = crypto.getRandomValues(new Uint32Array(1));
+    return String(value % 1_000_000).padStart(6, '0');
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+        const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') || '';
+        const { data: { user } } = await supabase.auth.getUser(token);
+        if (!user) {
+            return new Response(
+                JSON.stringify({ error: 'Unauthorized' }),
+                { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const { action, phoneNumber, code } = await req.json() as {
+            action?: 'send' | 'verify';
+            phoneNumber?: string;
+            code?: string;
+        };
+
+        if (!phoneNumber || !PHONE_PATTERN.test(phoneNumber)) {
+            return new Response(
+                JSON.stringify({ error: 'A phone number in E.164 format is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (action === 'send') {
+            const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+            const { count, error: countError } = await supabase
+                .from('phone_verifications')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', user.id)
+                .gte('created_at', since);
+
+            if (countError) throw countError;
+            if ((count || 0) >= MAX_CODES_PER_HOUR) {
+                return new Response(
+                    JSON.stringify({ error: 'Too many codes requested, try again later' }),
+                    { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            const channel = getNotificationChannel('sms');
+            if (!channel) {
+                return new Response(
+                    JSON.stringify({ error: 'SMS is not configured' }),
+                    { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            const newCode = generateCode();
+            const { error: insertError } = await supabase
+                .from('phone_verifications')
+                .insert({
+                    user_id: user.id,
+                    phone_number: phoneNumber,
+                    code_hash: await hashCode(phoneNumber, newCode),
+                    expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+                });
+
+            if (insertError) throw insertError;
+
+            const { data: userPreferences } = await supabase
+                .from('user_preferences')
+                .select('language')
+                .eq('user_id', user.id)
+                .maybeSingle();
+
+            const language = userPreferences?.language || 'en';
+            const result = await channel.send({
+                to: phoneNumber,
+                text: translate(language, 'alerts.channels.codeMessage', { code: newCode, minutes: CODE_TTL_MINUTES }),
+                language,
+            });
+
+            if (result.status !== 'sent') {
+                return new Response(
+                    JSON.stringify({ error: 'Failed to send verification code', details: result.error }),
+                    { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+            return new Response(
+                JSON.stringify({ sent: true, expiresInMinutes: CODE_TTL_MINUTES }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (action === 'verify') {
+            const { data: pending, error: pendingError } = await supabase
+                .from('phone_verifications')
+                .select('id, code_hash, attempts')
+                .eq('user_id', user.id)
+                .eq('phone_number', phoneNumber)
+                .is('verified_at', null)
+                .gt('expires_at', new Date().toISOString())
+                .order('created_at', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (pendingError) throw pendingError;
+            if (!pending || pending.attempts >= MAX_ATTEMPTS) {
+                return new Response(
+                    JSON.stringify({ verified: false, error: 'Code expired, request a new one' }),
+                    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            if (!code || await hashCode(phoneNumber, code.trim()) !== pending.code_hash) {
+                await supabase
+                    .from('phone_verifications')
+                    .update({ attempts: pending.attempts + 1 })
+                    .eq('id', pending.id);
+                return new Response(
+                    JSON.stringify({ verified: false, error: 'Incorrect code' }),
+                    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            const now = new Date().toISOString();
+            await supabase
+                .from('phone_verifications')
+                .update({ verified_at: now })
+                .eq('id', pending.id);
+
+            const { error: saveError } = await supabase
+                .from('notification_preferences')
+                .upsert({
+                    user_id: user.id,
+                    phone_number: phoneNumber,
+                    phone_verified_at: now,
+                    updated_at: now,
+                }, { onConflict: 'user_id' });
+
+            if (saveError) throw saveError;
+            return new Response(
+                JSON.stringify({ verified: true }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ error: 'Unknown action' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Phone verification error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to verify phone number', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
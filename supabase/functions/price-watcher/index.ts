@@ -0,0 +1,200 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+    findWatchQuote,
+    hasCrossedThreshold,
+    PRICE_WATCH_ALERT_PREFIX,
+    PriceQuote,
+    PriceWatchDirection,
+} from '../../../src/lib/price-watch.ts';
+import { passesAlertFilters } from '../../../src/lib/alert-preferences.ts';
+import { buildAlertKey } from '../../../src/lib/alert-keys.ts';
+import { translate } from '../_shared/i18n.ts';
+import { loadAlertPreferences } from '../_shared/alert-preferences.ts';
+
+/**
+ * Scheduled mandi price watch check
+ *
+ * Runs from pg_cron (see migrations). For every active `price_watches` row:
+ * 1. Fetches live prices once per commodity and market (via mandi-prices)
+ * 2. Picks the matching quote and compares its modal price with the
+ *    threshold; a CROSSING since the last check stores a `price` alert in
+ *    the user's language (push / SMS triggers then deliver it), unless
+ *    the user muted price alerts
+ * 3. Records the price on the watch for the next crossing check
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PRICE_ALERT_SEVERITY = 'medium';
+
+interface WatchRow {
+    id: string;
+    user_id: string;
+    commodity: string;
+    market: string;
+    direction: PriceWatchDirection;
+    threshold: number;
+    last_price: number | null;
+}
+
+/**
+ * Live quotes for a commodity at a market, or null for mock/failed data
+ */
+async function loadQuotes(supabase: SupabaseClient, commodity: string, market: string): Promise<PriceQuote[] | null> {
+    const { data, error } = await supabase.functions.invoke('mandi-prices', {
+        body: { district: market, commodity },
+    });
+
+    // Never alert on generated prices
+    if (error || !data || data.source === 'Mock Data') {
+        return null;
+    }
+
+    return data.prices || [];
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Only the scheduler (service role) may run a full check
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+        const now = new Date();
+
+        const { data: watchData, error: watchError } = await supabase
+            .from('price_watches')
+            .select('id, user_id, commodity, market, direction, threshold, last_price')
+            .eq('is_active', true);
+
+        if (watchError) throw watchError;
+
+        const watches = (watchData || []) as WatchRow[];
+        const userIds = [...new Set(watches.map((watch) => watch.user_id))];
+
+        const { data: preferences } = await supabase
+            .from('user_preferences')
+            .select('user_id, language')
+            .in('user_id', userIds);
+
+        const languages = new Map<string, string>(
+            (preferences || []).map((row: { user_id: string; language: string | null }) => [row.user_id, row.language || 'en'])
+        );
+        const alertPreferences = await loadAlertPreferences(supabase, userIds);
+
+        // Group watches so each commodity/market is fetched once; markets
+        // are stored as entered, so compare them case-insensitively
+        const byQuery = new Map<string, WatchRow[]>();
+        watches.forEach((watch) => {
+            const key = `${watch.commodity.trim().toLowerCase()}|${watch.market.trim().toLowerCase()}`;
+            if (!byQuery.has(key)) byQuery.set(key, []);
+            byQuery.get(key)!.push(watch);
+        });
+
+        const alertRows: Record<string, unknown>[] = [];
+        const skipped: string[] = [];
+
+        for (const [key, group] of byQuery) {
+            const { commodity, market } = group[0];
+            const quotes = await loadQuotes(supabase, commodity, market);
+            if (!quotes) {
+                skipped.push(key);
+                continue;
+            }
+
+            for (const watch of group) {
+                const quote = findWatchQuote(watch, quotes);
+                if (!quote) continue;
+
+                const crossed = hasCrossedThreshold(watch, quote.modalPrice, watch.last_price);
+
+                await supabase
+                    .from('price_watches')
+                    .update({
+                        last_price: quote.modalPrice,
+                        last_checked_at: now.toISOString(),
+                        ...(crossed ? { last_triggered_at: now.toISOString() } : {}),
+                    })
+                    .eq('id', watch.id);
+
+                // The watch still tracks the price while price alerts are muted
+                if (!crossed || !passesAlertFilters({ type: 'PRICE', severity: PRICE_ALERT_SEVERITY }, alertPreferences.get(watch.user_id)!)) continue;
+
+                const language = languages.get(watch.user_id) || 'en';
+                const location = watch.market.trim().toLowerCase();
+                const params = {
+                    commodity: quote.commodity,
+                    market: quote.market,
+                    threshold: watch.threshold.toLocaleString('en-IN'),
+                    price: quote.modalPrice.toLocaleString('en-IN'),
+                };
+
+                alertRows.push({
+                    user_id: watch.user_id,
+                    alert_key: buildAlertKey(`${PRICE_WATCH_ALERT_PREFIX}${watch.id}`, location, now),
+                    alert_type: 'PRICE',
+                    type: 'price',
+                    title: translate(language, `alerts.price.${watch.direction}`, params),
+                    message: translate(language, 'alerts.price.message', params),
+                    severity: PRICE_ALERT_SEVERITY,
+                    action: translate(language, 'alerts.price.action'),
+                    location,
+                });
+            }
+        }
+
+        // ignoreDuplicates: one alert per watch per day
+        let created = 0;
+        if (alertRows.length > 0) {
+            const { data: inserted, error: insertError } = await supabase
+                .from('alerts')
+                .upsert(alertRows, { onConflict: 'user_id,alert_key', ignoreDuplicates: true })
+                .select('id');
+
+            if (insertError) throw insertError;
+            created = inserted?.length || 0;
+        }
+
+        console.log(`Checked ${watches.length} price watches, created ${created} alerts`);
+
+        return new Response(
+            JSON.stringify({
+                watches: watches.length,
+                skipped,
+                alertsCreated: created,
+                checkedAt: now.toISOString(),
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Price watch error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to check price watches', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
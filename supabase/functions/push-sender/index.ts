@@ -0,0 +1,163 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { AlertType, getAlertTarget, getStoredAlertType } from '../../../src/lib/alert-rules.ts';
+import { FilterableAlert, passesAlertFilters, shouldDeliver } from '../../../src/lib/alert-preferences.ts';
+import { loadAlertPreferences } from '../_shared/alert-preferences.ts';
+import { holdNotification } from '../_shared/held-notifications.ts';
+import { getPushTransport, PushPayload, StoredSubscription } from './transports.ts';
+
+/**
+ * Web Push delivery for stored alerts
+ *
+ * Called by the `alerts_push_high_severity` database trigger (see
+ * migrations) with the inserted alert row as `{ record }`. Sends the alert
+ * to every browser the user subscribed, deep-linking into the matching
+ * Dashboard card, and drops subscriptions the push service reports gone.
+ * Muted types and the minimum severity are honoured; during quiet hours
+ * the alert is held and notification-release pushes it once they end
+ * (HIGH flood alerts always go out at once).
+ */
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Only these severities are pushed, plus price alerts the user asked for
+// (the trigger filters too)
+const PUSH_SEVERITIES = ['high', 'critical'];
+
+interface AlertRecord {
+    id: string;
+    user_id: string;
+    type: string;
+    alert_type: AlertType | null;
+    alert_key: string | null;
+    title: string;
+    message: string;
+    severity: string;
+    is_dismissed: boolean;
+}
+
+function buildPayload(alert: AlertRecord): PushPayload {
+    return {
+        title: alert.title,
+        body: alert.message,
+        url: getAlertTarget(alert.alert_type, alert.type),
+        tag: alert.alert_key || alert.id,
+        severity: alert.severity,
+    };
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        return new Response(
+            JSON.stringify({ error: 'Supabase service credentials are not configured' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Only the database trigger (service role) may send pushes
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    try {
+        const { record } = await req.json() as { record?: AlertRecord };
+
+        if (!record?.user_id) {
+            return new Response(
+                JSON.stringify({ error: 'Alert record is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if ((!PUSH_SEVERITIES.includes(record.severity) && record.type !== 'price') || record.is_dismissed) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'severity' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const transport = getPushTransport();
+        if (!transport) {
+            throw new Error('Push transport is not configured');
+        }
+
+        const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+        const alertPreferences = await loadAlertPreferences(supabase, [record.user_id]);
+        const alert: FilterableAlert = {
+            type: getStoredAlertType(record.alert_type, record.type),
+            severity: record.severity as FilterableAlert['severity'],
+        };
+
+        const subscription = alertPreferences.get(record.user_id)!;
+        if (!passesAlertFilters(alert, subscription)) {
+            return new Response(
+                JSON.stringify({ sent: 0, skipped: 'preferences' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (!shouldDeliver(alert, subscription, 'push')) {
+            await holdNotification(supabase, record, 'push-sender');
+            return new Response(
+                JSON.stringify({ sent: 0, held: 'quiet hours' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const { data: subscriptions, error: subError } = await supabase
+            .from('push_subscriptions')
+            .select('id, endpoint, p256dh, auth')
+            .eq('user_id', record.user_id);
+
+        if (subError) throw subError;
+
+        const payload = buildPayload(record);
+        const results = await Promise.all(
+            ((subscriptions || []) as StoredSubscription[]).map(async (subscription) => ({
+                subscription,
+                result: await transport.send(subscription, payload),
+            }))
+        );
+
+        // Expired or revoked browsers won't come back; stop sending to them
+        const goneIds = results.filter(({ result }) => result.gone).map(({ subscription }) => subscription.id);
+        if (goneIds.length > 0) {
+            await supabase.from('push_subscriptions').delete().in('id', goneIds);
+        }
+
+        const sent = results.filter(({ result }) => result.ok).length;
+        console.log(`Pushed alert ${record.id} via ${transport.name}: ${sent}/${results.length} delivered, ${goneIds.length} removed`);
+
+        return new Response(
+            JSON.stringify({
+                sent,
+                failed: results.length - sent,
+                removed: goneIds.length,
+                transport: transport.name,
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Push delivery error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to send push notification', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
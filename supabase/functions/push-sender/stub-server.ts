@@ -0,0 +1,37 @@
+/**
+ * Local push-service stub
+ *
+ * Stands in for a browser push service when testing delivery:
+ *
+ *   deno run --allow-net supabase/functions/push-sender/stub-server.ts
+ *
+ * then run push-sender with PUSH_TRANSPORT=stub and
+ * PUSH_STUB_URL=http://host.docker.internal:8765 (or localhost outside
+ * Docker). POSTed pushes are logged; GET / lists them. Subscriptions whose
+ * endpoint contains "gone" get a 410, to exercise cleanup.
+ */
+
+const port = Number(Deno.env.get('PUSH_STUB_PORT') || 8765);
+const received: unknown[] = [];
+
+Deno.serve({ port }, async (req: Request) => {
+    if (req.method === 'GET') {
+        return new Response(JSON.stringify(received, null, 2), {
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    if (req.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+    }
+
+    const push = await req.json();
+    if (String(push.endpoint).includes('gone')) {
+        console.log(`[push stub] 410 for ${push.endpoint}`);
+        return new Response(null, { status: 410 });
+    }
+
+    received.push({ ...push, receivedAt: new Date().toISOString() });
+    console.log(`[push stub] ${push.endpoint}:`, push.payload);
+    return new Response(null, { status: 201 });
+});
@@ -0,0 +1,110 @@
+/**
+ * Web Push transports
+ *
+ * A transport delivers one payload to one stored subscription. The edge
+ * function removes subscriptions the push service reports as gone.
+ *
+ * Select a transport with PUSH_TRANSPORT:
+ * - 'webpush' (default): real delivery via the Web Push protocol; needs
+ *              VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+ *              (a mailto: or https: contact)
+ * - 'stub':    POSTs the plain JSON payload to PUSH_STUB_URL (see
+ *              stub-server.ts), or just logs it when that is unset.
+ *              For local testing without a push service.
+ */
+
+import webpush from 'npm:web-push@3';
+
+export interface StoredSubscription {
+    id: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    url: string;        // deep link opened on click
+    tag: string;        // same tag replaces an earlier notification
+    severity: string;
+}
+
+export interface PushResult {
+    ok: boolean;
+    gone: boolean;      // subscription expired or was revoked; delete it
+    status?: number;
+}
+
+export interface PushTransport {
+    name: string;
+    send(subscription: StoredSubscription, payload: PushPayload): Promise<PushResult>;
+}
+
+export function createWebPushTransport(publicKey: string, privateKey: string, subject: string): PushTransport {
+    webpush.setVapidDetails(subject, publicKey, privateKey);
+
+    return {
+        name: 'webpush',
+        async send(subscription, payload) {
+            try {
+                const response = await webpush.sendNotification(
+                    {
+                        endpoint: subscription.endpoint,
+                        keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+                    },
+                    JSON.stringify(payload),
+                    { TTL: 6 * 60 * 60 }
+                );
+                return { ok: true, gone: false, status: response.statusCode };
+            } catch (error) {
+                const status = (error as { statusCode?: number }).statusCode;
+                console.error(`Web Push to ${subscription.id} failed (${status ?? 'no status'}):`, error);
+                return { ok: false, gone: status === 404 || status === 410, status };
+            }
+        },
+    };
+}
+
+export function createStubTransport(url?: string): PushTransport {
+    return {
+        name: 'stub',
+        async send(subscription, payload) {
+            if (!url) {
+                console.log(`[push stub] ${subscription.endpoint}`, payload);
+                return { ok: true, gone: false };
+            }
+
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ endpoint: subscription.endpoint, payload }),
+            });
+            return {
+                ok: response.ok,
+                gone: response.status === 404 || response.status === 410,
+                status: response.status,
+            };
+        },
+    };
+}
+
+/**
+ * Resolve the configured transport, or null if it is misconfigured
+ */
+export function getPushTransport(): PushTransport | null {
+    const transportType = Deno.env.get('PUSH_TRANSPORT') || 'webpush';
+
+    if (transportType === 'stub') {
+        return createStubTransport(Deno.env.get('PUSH_STUB_URL'));
+    }
+
+    const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+    const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+    const subject = Deno.env.get('VAPID_SUBJECT');
+    if (!publicKey || !privateKey || !subject) {
+        console.error('PUSH_TRANSPORT is webpush but VAPID keys are not set');
+        return null;
+    }
+    return createWebPushTransport(publicKey, privateKey, subject);
+}
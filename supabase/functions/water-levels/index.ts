@@ -0,0 +1,96 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getWaterLevelSource, WaterLevelReading } from './sources.ts';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type WaterLevelStatus = 'NORMAL' | 'WARNING' | 'DANGER';
+
+// Readings older than this no longer say anything about today's river;
+// WATER_LEVEL_MAX_AGE_HOURS overrides it (e.g. for the sample CSV)
+const DEFAULT_MAX_READING_AGE_HOURS = 12;
+
+function getMaxReadingAgeMs(): number {
+    const hours = Number(Deno.env.get('WATER_LEVEL_MAX_AGE_HOURS'));
+    return (hours > 0 ? hours : DEFAULT_MAX_READING_AGE_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Whether a reading is recent enough to score; a reading without a
+ * timestamp can't be shown to be, so it isn't
+ */
+function isFresh(reading: WaterLevelReading, now: number, maxAgeMs: number): boolean {
+    if (!reading.observedAt) return false;
+    return now - Date.parse(reading.observedAt) <= maxAgeMs;
+}
+
+/**
+ * Compare a reading to its station's warning and danger levels
+ */
+function classifyReading(reading: WaterLevelReading): WaterLevelStatus {
+    if (reading.level >= reading.dangerLevel) return 'DANGER';
+    if (reading.level >= reading.warningLevel) return 'WARNING';
+    return 'NORMAL';
+}
+
+Deno.serve(async (req: Request) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const { district } = await req.json();
+
+        if (!district) {
+            return new Response(
+                JSON.stringify({ error: 'District is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const source = getWaterLevelSource();
+
+        // Never fabricate gauge warnings: no configured source means no readings
+        if (!source) {
+            console.log('No WATER_LEVEL_SOURCE configured, returning no readings');
+            return new Response(
+                JSON.stringify({ district, readings: [], source: 'none', lastUpdated: new Date().toISOString() }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const rawReadings = await source.fetchReadings(district);
+        const now = Date.now();
+        const maxAgeMs = getMaxReadingAgeMs();
+        const freshReadings = rawReadings.filter((reading) => isFresh(reading, now, maxAgeMs));
+
+        if (freshReadings.length < rawReadings.length) {
+            console.log(`Dropped ${rawReadings.length - freshReadings.length} stale or undated readings for ${district}`);
+        }
+
+        const readings = freshReadings.map((reading) => ({
+            ...reading,
+            status: classifyReading(reading),
+        }));
+
+        return new Response(
+            JSON.stringify({
+                district,
+                readings,
+                source: source.name,
+                lastUpdated: new Date().toISOString(),
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+    } catch (error) {
+        console.error('Water level error:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to fetch water levels', details: error.message }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+});
@@ -0,0 +1,174 @@
+/**
+ * Water-level source adapters
+ *
+ * Each adapter returns raw gauge/reservoir readings for a district. The
+ * edge function classifies them against warning and danger levels, so
+ * adapters only need to normalise the upstream format.
+ *
+ * Select an adapter with WATER_LEVEL_SOURCE:
+ * - 'file': WATER_LEVEL_FILE path to a .csv or .json file (defaults to
+ *           the bundled sample-readings.csv, for local testing)
+ * - 'http': WATER_LEVEL_API_URL returning a JSON array of readings,
+ *           with optional WATER_LEVEL_API_KEY sent as a bearer token
+ */
+
+export type WaterBodyKind = 'river_gauge' | 'reservoir' | 'tank';
+
+export interface WaterLevelReading {
+    stationId: string;
+    name: string;
+    kind: WaterBodyKind;
+    district: string;
+    level: number;          // metres
+    warningLevel: number;   // metres
+    dangerLevel: number;    // metres
+    observedAt: string | null; // ISO timestamp, null if the feed didn't say
+}
+
+export interface WaterLevelSource {
+    name: string;
+    fetchReadings(district: string): Promise<WaterLevelReading[]>;
+}
+
+const CSV_COLUMNS = [
+    'station_id',
+    'name',
+    'kind',
+    'district',
+    'level_m',
+    'warning_level_m',
+    'danger_level_m',
+    'observed_at',
+] as const;
+
+function matchesDistrict(reading: WaterLevelReading, district: string): boolean {
+    return reading.district.trim().toLowerCase() === district.trim().toLowerCase();
+}
+
+function normaliseKind(kind: string): WaterBodyKind {
+    const value = kind.trim().toLowerCase();
+    if (value === 'reservoir' || value === 'dam') return 'reservoir';
+    if (value === 'tank' || value === 'lake') return 'tank';
+    return 'river_gauge';
+}
+
+/**
+ * A reading's timestamp as ISO, or null when it is missing or unparseable
+ * (an unknown time is never taken to mean "just now")
+ */
+function parseObservedAt(value: unknown): string | null {
+    if (value === undefined || value === null || String(value).trim() === '') return null;
+    const time = Date.parse(String(value));
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Normalise one JSON record; accepts camelCase or the CSV snake_case keys
+ */
+function toReading(record: Record<string, unknown>): WaterLevelReading | null {
+    const reading: WaterLevelReading = {
+        stationId: String(record.stationId ?? record.station_id ?? ''),
+        name: String(record.name ?? ''),
+        kind: normaliseKind(String(record.kind ?? '')),
+        district: String(record.district ?? ''),
+        level: Number(record.level ?? record.level_m),
+        warningLevel: Number(record.warningLevel ?? record.warning_level_m),
+        dangerLevel: Number(record.dangerLevel ?? record.danger_level_m),
+        observedAt: parseObservedAt(record.observedAt ?? record.observed_at),
+    };
+
+    if (!reading.stationId || !reading.district) return null;
+    if ([reading.level, reading.warningLevel, reading.dangerLevel].some((n) => Number.isNaN(n))) return null;
+
+    return reading;
+}
+
+/**
+ * Parse a simple comma-separated file with a header row (no quoted commas)
+ */
+export function parseReadingsCsv(text: string): WaterLevelReading[] {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    if (!headerLine) return [];
+
+    const headers = headerLine.split(',').map((h) => h.trim().toLowerCase());
+    const missing = CSV_COLUMNS.filter((column) => !headers.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`Water level CSV is missing columns: ${missing.join(', ')}`);
+    }
+
+    return lines
+        .map((line) => {
+            const cells = line.split(',').map((c) => c.trim());
+            const record: Record<string, string> = {};
+            headers.forEach((header, i) => {
+                record[header] = cells[i] ?? '';
+            });
+            return toReading(record);
+        })
+        .filter((reading): reading is WaterLevelReading => reading !== null);
+}
+
+export function parseReadingsJson(text: string): WaterLevelReading[] {
+    const parsed = JSON.parse(text);
+    const records: unknown[] = Array.isArray(parsed) ? parsed : parsed.readings ?? [];
+
+    return records
+        .map((record) => toReading(record as Record<string, unknown>))
+        .filter((reading): reading is WaterLevelReading => reading !== null);
+}
+
+export function createFileSource(path: string | URL): WaterLevelSource {
+    return {
+        name: 'file',
+        async fetchReadings(district: string) {
+            const text = await Deno.readTextFile(path);
+            const isJson = String(path).toLowerCase().endsWith('.json');
+            const readings = isJson ? parseReadingsJson(text) : parseReadingsCsv(text);
+            return readings.filter((reading) => matchesDistrict(reading, district));
+        },
+    };
+}
+
+export function createHttpSource(url: string, apiKey?: string): WaterLevelSource {
+    return {
+        name: 'http',
+        async fetchReadings(district: string) {
+            const requestUrl = new URL(url);
+            requestUrl.searchParams.set('district', district);
+
+            const response = await fetch(requestUrl, {
+                headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+            });
+
+            if (!response.ok) {
+                throw new Error(`Water level feed error: ${response.status}`);
+            }
+
+            const readings = parseReadingsJson(await response.text());
+            return readings.filter((reading) => matchesDistrict(reading, district));
+        },
+    };
+}
+
+/**
+ * Resolve the configured adapter, or null if none is configured
+ */
+export function getWaterLevelSource(): WaterLevelSource | null {
+    const sourceType = Deno.env.get('WATER_LEVEL_SOURCE');
+
+    if (sourceType === 'file') {
+        const path = Deno.env.get('WATER_LEVEL_FILE') || new URL('./sample-readings.csv', import.meta.url);
+        return createFileSource(path);
+    }
+
+    if (sourceType === 'http') {
+        const url = Deno.env.get('WATER_LEVEL_API_URL');
+        if (!url) {
+            console.error('WATER_LEVEL_SOURCE is http but WATER_LEVEL_API_URL is not set');
+            return null;
+        }
+        return createHttpSource(url, Deno.env.get('WATER_LEVEL_API_KEY'));
+    }
+
+    return null;
+}
@@ -1,10 +1,23 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Daily decay factor for the antecedent precipitation index
+// (must match DEFAULT_FLOOD_RISK_CONFIG.antecedentDecay in src/lib/flood-risk.ts)
+const API_DECAY = 0.9;
+
+// Observation days follow the Indian calendar, not UTC
+const OBSERVATION_TIME_ZONE = 'Asia/Kolkata';
+
+interface RainVolume {
+    '1h'?: number;
+    '3h'?: number;
+}
+
 Deno.serve(async (req: Request) => {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
@@ -114,11 +127,21 @@ Deno.serve(async (req: Request) => {
                 };
             });
 
+        // Record today's observation and derive rain memory from the archive.
+        // Archive failures must never block the weather response.
+        let antecedentPrecipitation;
+        try {
+            antecedentPrecipitation = await recordObservationAndGetAntecedent(location, current, currentData.rain);
+        } catch (archiveError) {
+            console.error('Weather archive error:', archiveError);
+        }
+
         const response = {
             current,
             forecast,
             location: `${currentData.name}, India`,
             consecutiveRainyDays,
+            antecedentPrecipitation,
         };
 
         return new Response(
@@ -135,6 +158,123 @@ Deno.serve(async (req: Request) => {
     }
 });
 
+/**
+ * Local (IST) calendar day and hour of a moment, e.g. 2026-10-19 / 07
+ */
+function getObservationSlot(date: Date): { day: string; hour: number } {
+    // en-CA formats the date as YYYY-MM-DD
+    const day = date.toLocaleDateString('en-CA', { timeZone: OBSERVATION_TIME_ZONE });
+    const hour = Number(date.toLocaleString('en-US', { timeZone: OBSERVATION_TIME_ZONE, hour: '2-digit', hourCycle: 'h23' }));
+    return { day, hour };
+}
+
+/**
+ * Merge a rain reading into the day's per-hour rain volumes (mm by IST
+ * hour). A 1h volume fills the current hour; a 3h volume is spread over
+ * the current and two previous hours of the same day. Repeated calls
+ * within an hour keep the larger volume instead of adding up.
+ */
+function mergeHourlyRain(hourly: Record<string, number>, hour: number, rain: RainVolume | undefined): Record<string, number> {
+    const merged = { ...hourly };
+    const fill = (h: number, mm: number) => {
+        if (h < 0) return;
+        merged[h] = Math.max(Number(merged[h] || 0), mm);
+    };
+
+    if (rain?.['1h'] !== undefined) {
+        fill(hour, rain['1h']);
+    } else if (rain?.['3h'] !== undefined) {
+        for (let h = hour - 2; h <= hour; h++) fill(h, rain['3h'] / 3);
+    }
+    return merged;
+}
+
+/**
+ * Upsert today's observed snapshot for the location and return the
+ * antecedent precipitation index over the past 7/14/30 days.
+ *
+ * The day's rainfall is the sum of its hourly volumes, so it is the
+ * day's total rather than its wettest reading. Hours in which nobody
+ * looked up the location stay empty.
+ */
+async function recordObservationAndGetAntecedent(
+    location: string,
+    current: { temperature: number; humidity: number; condition: string },
+    rain: RainVolume | undefined
+) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceRoleKey) {
+        console.log('No Supabase service credentials, skipping weather archive');
+        return undefined;
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const locationKey = location.trim().toLowerCase();
+    const { day: today, hour } = getObservationSlot(new Date());
+    const since = new Date(Date.parse(today) - 30 * 86400000).toISOString().split('T')[0];
+
+    const { data: history, error: historyError } = await supabase
+        .from('weather_observations')
+        .select('observed_on, rainfall_mm, hourly_rainfall_mm')
+        .eq('location', locationKey)
+        .gte('observed_on', since)
+        .order('observed_on', { ascending: false });
+
+    if (historyError) throw historyError;
+
+    const todayRow = (history || []).find((row) => row.observed_on === today);
+    const hourlyRainfall = mergeHourlyRain(todayRow?.hourly_rainfall_mm || {}, hour, rain);
+    const dailyRainfall = Object.values(hourlyRainfall).reduce((total, mm) => total + Number(mm), 0);
+
+    const { error: upsertError } = await supabase
+        .from('weather_observations')
+        .upsert({
+            location: locationKey,
+            observed_on: today,
+            rainfall_mm: Math.round(dailyRainfall * 10) / 10,
+            hourly_rainfall_mm: hourlyRainfall,
+            temperature: current.temperature,
+            humidity: current.humidity,
+            condition: current.condition,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'location,observed_on' });
+
+    if (upsertError) throw upsertError;
+
+    return computeAntecedentIndex(history || [], today);
+}
+
+/**
+ * Decay-weighted sum of past daily rainfall: yesterday counts fully,
+ * each earlier day is multiplied by API_DECAY once more. Today's rain is
+ * excluded because it is already the "current rainfall" flood factor.
+ */
+function computeAntecedentIndex(
+    rows: Array<{ observed_on: string; rainfall_mm: number | string }>,
+    today: string
+) {
+    const index = { days7: 0, days14: 0, days30: 0 };
+    const todayMs = Date.parse(today);
+
+    for (const row of rows) {
+        const daysAgo = Math.round((todayMs - Date.parse(row.observed_on)) / 86400000);
+        if (daysAgo < 1 || daysAgo > 30) continue;
+
+        const weighted = Number(row.rainfall_mm || 0) * Math.pow(API_DECAY, daysAgo - 1);
+        if (daysAgo <= 7) index.days7 += weighted;
+        if (daysAgo <= 14) index.days14 += weighted;
+        index.days30 += weighted;
+    }
+
+    return {
+        days7: Math.round(index.days7),
+        days14: Math.round(index.days14),
+        days30: Math.round(index.days30),
+    };
+}
+
 function getMostFrequent(arr: string[]): string {
     const count = arr.reduce((acc, val) => {
         acc[val] = (acc[val] || 0) + 1;
@@ -178,5 +318,6 @@ function getMockWeatherData(location: string) {
         forecast,
         location: `${location}, India`,
         consecutiveRainyDays: Math.floor(Math.random() * 4),
+        isMock: true, // lets server-side callers skip generated data
     };
 }
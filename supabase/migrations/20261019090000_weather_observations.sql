@@ -0,0 +1,28 @@
+-- Daily observed weather snapshot per location, written by the weather-api
+-- edge function. Used to compute the antecedent precipitation index so that
+-- rain which has already saturated the soil feeds into flood risk.
+
+create table if not exists public.weather_observations (
+    id uuid primary key default gen_random_uuid(),
+    location text not null,
+    observed_on date not null,
+    rainfall_mm numeric not null default 0,
+    temperature numeric,
+    humidity numeric,
+    condition text,
+    updated_at timestamptz not null default now(),
+    unique (location, observed_on)
+);
+
+create index if not exists weather_observations_location_date_idx
+    on public.weather_observations (location, observed_on desc);
+
+alter table public.weather_observations enable row level security;
+
+-- Observations are not personal data; any signed-in user may read them.
+-- Writes happen only through the edge function using the service role.
+create policy "Authenticated users can read weather observations"
+    on public.weather_observations
+    for select
+    to authenticated
+    using (true);
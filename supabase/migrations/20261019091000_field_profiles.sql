@@ -0,0 +1,34 @@
+-- Per-user field flood-susceptibility profile, stored alongside
+-- user_preferences. Applied as multipliers by the flood risk engine.
+
+create table if not exists public.field_profiles (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null unique references auth.users (id) on delete cascade,
+    terrain text not null default 'plain'
+        check (terrain in ('low_lying', 'plain', 'upland')),
+    soil_texture text not null default 'loam'
+        check (soil_texture in ('clay', 'loam', 'sandy')),
+    drainage text not null default 'moderate'
+        check (drainage in ('poor', 'moderate', 'good')),
+    water_proximity text not null default 'far'
+        check (water_proximity in ('near', 'moderate', 'far')),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+alter table public.field_profiles enable row level security;
+
+create policy "Users can view their own field profile"
+    on public.field_profiles
+    for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own field profile"
+    on public.field_profiles
+    for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own field profile"
+    on public.field_profiles
+    for update
+    using (auth.uid() = user_id);
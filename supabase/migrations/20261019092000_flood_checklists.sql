@@ -0,0 +1,22 @@
+-- Flood preparedness checklist progress per user and location.
+-- A row lives for one risk episode: it is created when the user ticks the
+-- first item at MEDIUM/HIGH risk and deleted when risk returns to LOW.
+
+create table if not exists public.flood_checklists (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    location text not null,
+    risk_level text not null check (risk_level in ('LOW', 'MEDIUM', 'HIGH')),
+    completed_items text[] not null default '{}',
+    episode_started_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (user_id, location)
+);
+
+alter table public.flood_checklists enable row level security;
+
+create policy "Users can manage their own flood checklists"
+    on public.flood_checklists
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
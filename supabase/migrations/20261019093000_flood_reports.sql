@@ -0,0 +1,52 @@
+-- Crowdsourced flood reports from farmers. Any signed-in user can read the
+-- reports for a district (that is the point: neighbours see them), but
+-- users can only file and remove their own.
+
+create table if not exists public.flood_reports (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    district text not null, -- lower-cased location name
+    severity text not null
+        check (severity in ('waterlogging', 'flooding', 'severe')),
+    description text,
+    photo_url text,
+    latitude double precision check (latitude between -90 and 90),
+    longitude double precision check (longitude between -180 and 180),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists flood_reports_district_created_idx
+    on public.flood_reports (district, created_at desc);
+
+alter table public.flood_reports enable row level security;
+
+create policy "Signed-in users can view flood reports"
+    on public.flood_reports
+    for select
+    to authenticated
+    using (true);
+
+create policy "Users can file their own flood reports"
+    on public.flood_reports
+    for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own flood reports"
+    on public.flood_reports
+    for delete
+    using (auth.uid() = user_id);
+
+-- Report photos: public read so the Dashboard can render them,
+-- uploads only into the reporter's own folder (<user_id>/...)
+insert into storage.buckets (id, name, public)
+values ('flood-report-photos', 'flood-report-photos', true)
+on conflict (id) do nothing;
+
+create policy "Users can upload their own flood report photos"
+    on storage.objects
+    for insert
+    to authenticated
+    with check (
+        bucket_id = 'flood-report-photos'
+        and (storage.foldername(name))[1] = auth.uid()::text
+    );
@@ -0,0 +1,48 @@
+-- Generated alerts are persisted so read/dismiss state survives a reload.
+-- The alerts table predates these migrations; create it if missing, then
+-- add a per-day key so the same alert is only stored once a day.
+
+create table if not exists public.alerts (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    type text not null check (type in ('flood', 'weather', 'price', 'general')),
+    title text not null,
+    message text not null,
+    severity text not null check (severity in ('low', 'medium', 'high', 'critical')),
+    is_read boolean not null default false,
+    is_dismissed boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+alter table public.alerts
+    add column if not exists alert_key text,   -- <date>:<location>:<alert id>
+    add column if not exists alert_type text,  -- engine AlertType (FLOOD, WEATHER, ...)
+    add column if not exists location text,
+    add column if not exists action text;
+
+create unique index if not exists alerts_user_alert_key_idx
+    on public.alerts (user_id, alert_key);
+
+create index if not exists alerts_user_unread_idx
+    on public.alerts (user_id)
+    where not is_read and not is_dismissed;
+
+alter table public.alerts enable row level security;
+
+drop policy if exists "Users can view their own alerts" on public.alerts;
+create policy "Users can view their own alerts"
+    on public.alerts
+    for select
+    using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own alerts" on public.alerts;
+create policy "Users can insert their own alerts"
+    on public.alerts
+    for insert
+    with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own alerts" on public.alerts;
+create policy "Users can update their own alerts"
+    on public.alerts
+    for update
+    using (auth.uid() = user_id);
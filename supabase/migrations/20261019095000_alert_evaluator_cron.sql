@@ -0,0 +1,24 @@
+-- Run the alert-evaluator edge function every hour so alerts reach farmers
+-- who don't have the Dashboard open. The project URL and service role key
+-- are read from Vault; create them once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+    'evaluate-alerts',
+    '0 * * * *',
+    $$
+    select net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+            || '/functions/v1/alert-evaluator',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
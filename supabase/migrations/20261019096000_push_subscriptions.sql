@@ -0,0 +1,54 @@
+-- Web Push subscriptions, one row per browser, and a trigger that asks the
+-- push-sender edge function to notify the user whenever a high or critical
+-- alert is stored. Uses the same Vault secrets as the alert evaluator cron
+-- (project_url, service_role_key).
+
+create table if not exists public.push_subscriptions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    endpoint text not null unique,
+    p256dh text not null,
+    auth text not null,
+    user_agent text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx
+    on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can manage their own push subscriptions"
+    on public.push_subscriptions
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create extension if not exists pg_net;
+
+create or replace function public.notify_push_sender()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+            || '/functions/v1/push-sender',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := jsonb_build_object('record', to_jsonb(new))
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists alerts_push_high_severity on public.alerts;
+create trigger alerts_push_high_severity
+    after insert on public.alerts
+    for each row
+    when (new.severity in ('high', 'critical'))
+    execute function public.notify_push_sender();
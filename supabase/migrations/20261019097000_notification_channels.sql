@@ -0,0 +1,77 @@
+-- SMS and WhatsApp delivery of alerts for farmers on feature phones.
+-- `notification_preferences` holds each user's phone number and chosen
+-- channels; `alert_deliveries` records every outbound message and its
+-- provider status. A trigger asks the alert-messenger edge function to send
+-- new high or critical alerts (same Vault secrets as push-sender).
+
+create table if not exists public.notification_preferences (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null unique references auth.users (id) on delete cascade,
+    phone_number text check (phone_number ~ '^\+[1-9][0-9]{7,14}$'), -- E.164
+    sms_enabled boolean not null default false,
+    whatsapp_enabled boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can manage their own notification preferences"
+    on public.notification_preferences
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create table if not exists public.alert_deliveries (
+    id uuid primary key default gen_random_uuid(),
+    alert_id uuid not null references public.alerts (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    channel text not null check (channel in ('sms', 'whatsapp')),
+    provider text not null,
+    recipient text not null,
+    message text not null,
+    status text not null default 'queued'
+        check (status in ('queued', 'sent', 'failed')),
+    provider_message_id text,
+    error text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists alert_deliveries_alert_idx
+    on public.alert_deliveries (alert_id);
+
+alter table public.alert_deliveries enable row level security;
+
+-- Written by the edge function (service role); users can only read theirs
+create policy "Users can view their own alert deliveries"
+    on public.alert_deliveries
+    for select
+    using (auth.uid() = user_id);
+
+create or replace function public.notify_alert_messenger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+            || '/functions/v1/alert-messenger',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := jsonb_build_object('record', to_jsonb(new))
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists alerts_message_high_severity on public.alerts;
+create trigger alerts_message_high_severity
+    after insert on public.alerts
+    for each row
+    when (new.severity in ('high', 'critical'))
+    execute function public.notify_alert_messenger();
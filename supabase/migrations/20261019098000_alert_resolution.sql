@@ -0,0 +1,9 @@
+-- Alerts are resolved automatically when their condition clears (see the
+-- alert policy layer), instead of lingering as unread.
+
+alter table public.alerts
+    add column if not exists resolved_at timestamptz;
+
+-- Recent alerts for a user and location, read by the policy layer
+create index if not exists alerts_user_location_created_idx
+    on public.alerts (user_id, location, created_at desc);
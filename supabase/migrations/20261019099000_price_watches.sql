@@ -0,0 +1,62 @@
+-- Mandi price watches ("notify me when onion > ₹2500/qtl"). The
+-- price-watcher edge function runs every three hours, compares each active
+-- watch with live mandi prices and stores a `price` alert when the modal
+-- price crosses the threshold. `last_price` remembers the previous check so
+-- a price that stays past the line alerts only once.
+
+create table if not exists public.price_watches (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    commodity text not null,
+    market text not null, -- market or district name as entered
+    direction text not null check (direction in ('above', 'below')),
+    threshold numeric not null check (threshold > 0), -- ₹ per quintal
+    is_active boolean not null default true,
+    last_price numeric,
+    last_checked_at timestamptz,
+    last_triggered_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists price_watches_user_idx
+    on public.price_watches (user_id);
+
+alter table public.price_watches enable row level security;
+
+create policy "Users can manage their own price watches"
+    on public.price_watches
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+-- The user asked to be notified, so price alerts are pushed and messaged
+-- whatever their severity
+drop trigger if exists alerts_push_high_severity on public.alerts;
+create trigger alerts_push_high_severity
+    after insert on public.alerts
+    for each row
+    when (new.severity in ('high', 'critical') or new.type = 'price')
+    execute function public.notify_push_sender();
+
+drop trigger if exists alerts_message_high_severity on public.alerts;
+create trigger alerts_message_high_severity
+    after insert on public.alerts
+    for each row
+    when (new.severity in ('high', 'critical') or new.type = 'price')
+    execute function public.notify_alert_messenger();
+
+select cron.schedule(
+    'check-price-watches',
+    '15 */3 * * *',
+    $$
+    select net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+            || '/functions/v1/price-watcher',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
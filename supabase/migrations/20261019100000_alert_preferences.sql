@@ -0,0 +1,20 @@
+-- Per-user alert subscription preferences on top of the channel settings:
+-- muted alert types, a minimum severity and quiet hours (in the user's time
+-- zone) during which push / SMS / WhatsApp stay silent. HIGH flood alerts
+-- ignore all of these (enforced in src/lib/alert-preferences.ts).
+
+alter table public.notification_preferences
+    add column if not exists muted_alert_types text[] not null default '{}',
+    add column if not exists min_severity text not null default 'low'
+        check (min_severity in ('low', 'medium', 'high', 'critical')),
+    add column if not exists quiet_hours_start time,
+    add column if not exists quiet_hours_end time,
+    add column if not exists time_zone text not null default 'Asia/Kolkata';
+
+-- Messages held back by quiet hours or preferences are recorded too
+alter table public.alert_deliveries
+    drop constraint if exists alert_deliveries_status_check;
+
+alter table public.alert_deliveries
+    add constraint alert_deliveries_status_check
+        check (status in ('queued', 'sent', 'failed', 'suppressed'));
@@ -0,0 +1,34 @@
+-- Every live mandi price record the mandi-prices edge function fetches from
+-- data.gov.in. Agmarknet publishes one row per commodity, market, variety and
+-- arrival date, so re-fetching the same day updates that row instead of
+-- adding a new one. The Dashboard reads it for 30/90-day price trends.
+
+create table if not exists public.mandi_price_history (
+    id uuid primary key default gen_random_uuid(),
+    commodity text not null,
+    variety text not null default 'Standard',
+    market text not null,
+    district text,
+    state text,
+    min_price numeric not null, -- ₹ per quintal
+    max_price numeric not null,
+    modal_price numeric not null,
+    arrival_date date not null,
+    source text not null default 'data.gov.in',
+    fetched_at timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    unique (commodity, market, variety, arrival_date)
+);
+
+create index if not exists mandi_price_history_commodity_market_date_idx
+    on public.mandi_price_history (commodity, market, arrival_date desc);
+
+alter table public.mandi_price_history enable row level security;
+
+-- Market prices are public data; any signed-in user may read them.
+-- Writes happen only through the edge function using the service role.
+create policy "Authenticated users can read mandi price history"
+    on public.mandi_price_history
+    for select
+    to authenticated
+    using (true);
@@ -0,0 +1,66 @@
+-- SMS and WhatsApp only go to a number the farmer proved they own. The
+-- phone-verification edge function texts a one-time code and, once it is
+-- entered, sets `phone_verified_at`. Users cannot set that column
+-- themselves; changing the number clears it and turns the channels off.
+-- alert-messenger only messages numbers with `phone_verified_at` set.
+
+alter table public.notification_preferences
+    add column if not exists phone_verified_at timestamptz;
+
+-- Numbers saved before verification existed must be verified again
+update public.notification_preferences
+    set sms_enabled = false, whatsapp_enabled = false
+    where phone_verified_at is null and (sms_enabled or whatsapp_enabled);
+
+create or replace function public.guard_phone_verification()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- Only the edge function (service role) may mark a number verified
+    if (auth.jwt() ->> 'role') is distinct from 'service_role' then
+        if tg_op = 'UPDATE' and new.phone_number is not distinct from old.phone_number then
+            new.phone_verified_at := old.phone_verified_at;
+        else
+            new.phone_verified_at := null;
+        end if;
+    end if;
+
+    -- Not on insert: an upsert's proposed row is always unverified, and
+    -- the update that follows must keep the channels it sets. A new row
+    -- is unverified anyway, and alert-messenger checks phone_verified_at.
+    if tg_op = 'UPDATE' and new.phone_verified_at is null then
+        new.sms_enabled := false;
+        new.whatsapp_enabled := false;
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists notification_preferences_guard_phone on public.notification_preferences;
+create trigger notification_preferences_guard_phone
+    before insert or update on public.notification_preferences
+    for each row
+    execute function public.guard_phone_verification();
+
+-- One row per code sent; only the edge function reads or writes it
+create table if not exists public.phone_verifications (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    phone_number text not null check (phone_number ~ '^\+[1-9][0-9]{7,14}$'),
+    code_hash text not null, -- SHA-256 of "<phone>:<code>"
+    attempts integer not null default 0,
+    expires_at timestamptz not null,
+    verified_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists phone_verifications_user_created_idx
+    on public.phone_verifications (user_id, created_at desc);
+
+alter table public.phone_verifications enable row level security;
+
+-- Messages sent per user in the last day, read by the per-user send limit
+create index if not exists alert_deliveries_user_created_idx
+    on public.alert_deliveries (user_id, created_at desc);
@@ -0,0 +1,23 @@
+-- A cluster of flood reports raises district risk and alerts neighbours,
+-- so one farmer must not be able to fake it. The engine counts distinct
+-- reporters; this caps how many reports a user may file per district
+-- within the 48-hour report window (MAX_REPORTS_PER_WINDOW in
+-- useFloodReports).
+
+drop policy if exists "Users can file their own flood reports" on public.flood_reports;
+create policy "Users can file their own flood reports"
+    on public.flood_reports
+    for insert
+    with check (
+        auth.uid() = user_id
+        and (
+            select count(*)
+            from public.flood_reports recent
+            where recent.user_id = auth.uid()
+                and recent.district = flood_reports.district
+                and recent.created_at > now() - interval '48 hours'
+        ) < 2
+    );
+
+create index if not exists flood_reports_user_district_created_idx
+    on public.flood_reports (user_id, district, created_at desc);
@@ -0,0 +1,34 @@
+-- Quiet hours hold notifications back instead of dropping them. When an
+-- alert arrives during a user's quiet hours, push-sender and
+-- alert-messenger record it here; the notification-release edge function
+-- runs every 15 minutes and hands each held alert back to its sender once
+-- the quiet hours are over. Alerts dismissed or resolved in the meantime,
+-- or held for more than a day, are dropped.
+
+create table if not exists public.held_notifications (
+    id uuid primary key default gen_random_uuid(),
+    alert_id uuid not null references public.alerts (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    sender text not null check (sender in ('push-sender', 'alert-messenger')),
+    created_at timestamptz not null default now(),
+    unique (alert_id, sender)
+);
+
+-- Only the edge functions (service role) read or write held notifications
+alter table public.held_notifications enable row level security;
+
+select cron.schedule(
+    'release-held-notifications',
+    '*/15 * * * *',
+    $$
+    select net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+            || '/functions/v1/notification-release',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
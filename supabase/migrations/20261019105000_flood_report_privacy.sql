@@ -0,0 +1,50 @@
+-- Neighbours see each other's flood reports, but not who filed them or
+-- exactly where. The full row (user id, exact coordinates) is readable
+-- only by its reporter; everyone else reads `flood_report_feed`, which
+-- replaces the user id with a per-district reporter key (enough to count
+-- distinct farmers) and rounds coordinates to two decimals (~1 km).
+-- Report photos move to a private bucket served through signed URLs, so
+-- `photo_url` becomes `photo_path`, the object path inside the bucket.
+
+drop policy if exists "Signed-in users can view flood reports" on public.flood_reports;
+create policy "Users can view their own flood reports"
+    on public.flood_reports
+    for select
+    using (auth.uid() = user_id);
+
+alter table public.flood_reports
+    rename column photo_url to photo_path;
+
+update public.flood_reports
+    set photo_path = regexp_replace(photo_path, '^.*/flood-report-photos/', '')
+    where photo_path like '%/flood-report-photos/%';
+
+-- Runs with the owner's rights, so it sees every report; only these
+-- columns leave it
+create or replace view public.flood_report_feed as
+    select
+        id,
+        district,
+        severity,
+        description,
+        photo_path,
+        round(latitude::numeric, 2)::double precision as latitude,
+        round(longitude::numeric, 2)::double precision as longitude,
+        created_at,
+        md5(user_id::text || ':' || district) as reporter,
+        user_id = auth.uid() as is_own
+    from public.flood_reports;
+
+revoke all on public.flood_report_feed from anon, public;
+grant select on public.flood_report_feed to authenticated;
+
+update storage.buckets
+    set public = false
+    where id = 'flood-report-photos';
+
+-- Signed-in users may create signed URLs for report photos
+create policy "Signed-in users can view flood report photos"
+    on storage.objects
+    for select
+    to authenticated
+    using (bucket_id = 'flood-report-photos');
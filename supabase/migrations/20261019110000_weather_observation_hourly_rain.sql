@@ -0,0 +1,7 @@
+-- A day's rainfall in weather_observations becomes the day's total. The
+-- weather-api function only sees rolling 1h/3h volumes, so it now keeps
+-- them per hour of the IST day (mm keyed "0".."23") and stores their sum
+-- in rainfall_mm, instead of the wettest single reading.
+
+alter table public.weather_observations
+    add column if not exists hourly_rainfall_mm jsonb not null default '{}'::jsonb;